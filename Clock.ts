@@ -0,0 +1,21 @@
+import { sleep } from './sleep.ts';
+
+/**
+ Where `writeNewFile()` gets the time from, for its date suffixes (and ULIDs, and retention ages), and how it waits between attempts. The default is `systemClock`; pass a different one with the `clock` option to test second boundaries, clock rollovers, etc. without actually waiting for them.
+
+ @property now Returns the current time
+
+ @property sleep Waits for `ms` milliseconds, but returns early if `signal` is aborted (it must not reject)
+*/
+export type Clock = {
+  now(): Date;
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+};
+
+/**
+ The real clock: `new Date()` and `setTimeout()`. This is the default `Clock`.
+*/
+export const systemClock: Clock = {
+  now: () => new Date(),
+  sleep,
+};
@@ -0,0 +1,107 @@
+import { Readable, type Transform, pipeline } from 'node:stream';
+import { brotliCompressSync, createBrotliCompress, createGzip, gzipSync } from 'node:zlib';
+import { contentChunks, type WriteNewContent } from './WriteNewContent.ts';
+
+/**
+ A transform step of your own, for the `transforms` option.
+
+ @property transform Turns the content's chunks into the transformed chunks, e.g. with an `async function*`, or by piping them through a Node.js `Transform`: `(chunks) => Readable.from(chunks).pipe(createGzip())`
+
+ @property extension The extension to append to the proposed filename, e.g. `'.zst'` (default: none)
+*/
+export type CustomContentTransform = {
+  transform: (chunks: AsyncIterable<Uint8Array>) => AsyncIterable<Uint8Array>;
+  extension?: string;
+};
+
+/**
+ A step that `writeNewFile()` runs the content through on its way into the temp file, via the `transforms` option:
+
+ - `'gzip'`: gzip-compresses it, and appends `.gz` to the proposed filename (`'report.json'` → `'report.json.gz'`)
+ - `'brotli'`: Brotli-compresses it, and appends `.br`
+ - or your own step (see `CustomContentTransform`)
+
+ The steps run in order, chunk by chunk, so even a large stream is never held in memory as a whole. Everything downstream of them — the size, the content hash of the `'content-hash'` naming strategy, `onExisting: 'skip-if-identical'`, and the digest of the `integrity` option — is about the transformed bytes, i.e. what ends up on disk.
+*/
+export type ContentTransform = 'gzip' | 'brotli' | CustomContentTransform;
+
+/**
+ Returns the proposed filename with the extensions of the `transforms` appended, e.g. `'report.json.gz'` for `'report.json'` and `['gzip']`.
+ */
+export function transformedFilename(proposedFilename: string, transforms: readonly ContentTransform[]): string
+{
+  return transforms.reduce((name, step) => name + extensionOf(step), proposedFilename);
+}
+
+/**
+ Runs `content` through the `transforms`, in order, and yields the result chunk by chunk.
+ */
+export async function* transformContent(
+  content: WriteNewContent,
+  transforms: readonly ContentTransform[],
+): AsyncGenerator<Uint8Array>
+{
+  let chunks: AsyncIterable<Uint8Array> = contentChunks(content);
+  for (const step of transforms)
+  {
+    if (step === 'gzip')
+    {
+      chunks = throughNodeTransform(chunks, createGzip());
+    }
+    else if (step === 'brotli')
+    {
+      chunks = throughNodeTransform(chunks, createBrotliCompress());
+    }
+    else if (step && typeof step === 'object' && typeof step.transform === 'function')
+    {
+      chunks = step.transform(chunks);
+    }
+    else
+    {
+      throw new TypeError(`Unsupported content transform: ${JSON.stringify(step)}`);
+    }
+  }
+  yield* chunks;
+}
+
+/**
+ Exactly like `transformContent()`, but synchronous, and all at once — which only the built-in steps (`'gzip'` and `'brotli'`) can do.
+
+ @throws {TypeError} if one of the `transforms` is a `CustomContentTransform`
+ */
+export function transformContentSync(content: string | Uint8Array, transforms: readonly ContentTransform[]): Uint8Array
+{
+  let data = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  for (const step of transforms)
+  {
+    if (step === 'gzip')
+    {
+      data = gzipSync(data);
+    }
+    else if (step === 'brotli')
+    {
+      data = brotliCompressSync(data);
+    }
+    else
+    {
+      throw new TypeError(`Only the built-in content transforms ('gzip' and 'brotli') can run synchronously, not: ${JSON.stringify(step)}`);
+    }
+  }
+  return data;
+}
+
+function extensionOf(step: ContentTransform): string
+{
+  return step === 'gzip' ? '.gz' : step === 'brotli' ? '.br' : step.extension ?? '';
+}
+
+/**
+ Pipes `chunks` through a Node.js `Transform`. (`pipeline()`, unlike `pipe()`, passes an error in the input on to the output, and cleans both up if either one fails.)
+ */
+function throughNodeTransform(chunks: AsyncIterable<Uint8Array>, transform: Transform): AsyncIterable<Uint8Array>
+{
+  return pipeline(Readable.from(chunks), transform, () =>
+  {
+    // Errors surface through the iteration instead
+  });
+}
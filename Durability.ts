@@ -0,0 +1,43 @@
+import { closeSync, fsyncSync, openSync } from 'node:fs';
+import { type FileSystem, nodeFileSystem } from './FileSystem.ts';
+
+/**
+ How hard `writeNewFile()` tries to make sure a file survives a crash or power loss once it has returned its path.
+
+ - `'none'` (the default): no `fsync()` at all. The file is published atomically, so consumers never see a partial file, but after a power loss the file (or its content) may simply not be there. This is the fast option.
+ - `'file'`: the temp file's content is `fsync()`-ed before it is published, so if the file *is* there after a crash, its content is complete. But the directory entry itself may still be lost.
+ - `'file+directory'`: as `'file'`, plus the containing directory is `fsync()`-ed after the file has been published and the temp file removed, so the returned path itself is durable. This is the one you want for records that must not be lost. (Not supported on Windows, which can't open directories.)
+*/
+export type Durability = 'none' | 'file' | 'file+directory';
+
+/**
+ `fsync()`s the directory at `path`, which makes the creation (or removal) of the entries in it durable.
+ */
+export async function syncDirectory(path: string, fileSystem: FileSystem = nodeFileSystem): Promise<void>
+{
+  const directory = await fileSystem.open(path, 'r');
+  try
+  {
+    await directory.sync();
+  }
+  finally
+  {
+    await directory.close();
+  }
+}
+
+/**
+ Exactly like `syncDirectory()`, but synchronous, on the real disk.
+ */
+export function syncDirectorySync(path: string): void
+{
+  const fd = openSync(path, 'r');
+  try
+  {
+    fsyncSync(fd);
+  }
+  finally
+  {
+    closeSync(fd);
+  }
+}
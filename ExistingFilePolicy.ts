@@ -0,0 +1,9 @@
+/**
+ What `writeNewFile()` does when a file with the proposed filename already exists.
+
+ - `'suffix'` (the default): write a new file with a unique suffix appended to its name, as determined by the `namingStrategy` — the original `writeNewFile()` behavior.
+ - `'fail'`: write nothing, and throw a `FileExistsError`. The check is the atomic publish itself, so if two writers race for the same name, exactly one of them wins and the other one throws.
+ - `'replace'`: atomically replace the existing file, by renaming the temp file over it. Readers see either the old file or the new one, never a mix or a missing file. (If several writers replace the same file at the same time, the last one to rename wins.)
+ - `'skip-if-identical'`: if the existing file — or any of its siblings that `writeNewFile()` wrote with a `~suffix` (see `listFileFamily()`) — has exactly the same content, write nothing and return the path of that file instead. Otherwise, behave like `'suffix'`. This check is NOT atomic: two writers with the same content at the same time may both write a file.
+*/
+export type ExistingFilePolicy = 'suffix' | 'fail' | 'replace' | 'skip-if-identical';
@@ -0,0 +1,86 @@
+import type { FileSystem } from './FileSystem.ts';
+
+/**
+ What the `writeNewFile()` calls in this process know about one file family, shared between them so that concurrent writers don't have to find out about each other the slow way (by colliding on the file system, one candidate at a time).
+
+ @property previous The last candidate filename that the `'date'` strategy came up with, for any writer — the next one continues from its tiebreaker, so names are handed out in order without waiting for the clock
+
+ @property counterScan The highest counter that the `'counter'` strategy found in the directory, so that concurrent writers only have to read the directory once between them (this, and `highestCounter`, are forgotten whenever the last of them is done, since other processes may have moved on in the meantime)
+
+ @property highestCounter The highest counter that the `'counter'` strategy has handed out
+
+ @property reserved The filenames that writers in this process are trying to publish right now — nobody else here needs to try them too
+
+ @property writers How many writers are using this entry right now
+*/
+export type FamilyReservations = {
+  previous?: string;
+  counterScan?: Promise<number>;
+  highestCounter?: number;
+  reserved: Set<string>;
+  writers: number;
+};
+
+/**
+ Per file system, per family (keyed by the proposed path).
+ */
+const families = new WeakMap<FileSystem, Map<string, FamilyReservations>>();
+
+/**
+ Don't keep more idle families around than this. Forgetting one is harmless: its next writer just finds out the slow way.
+ */
+const MAX_IDLE_FAMILIES = 1000;
+
+/**
+ Returns the shared `FamilyReservations` for the family of `proposedPath` on `fileSystem`. Call `releaseFamilyReservations()` when done.
+ */
+export function acquireFamilyReservations(fileSystem: FileSystem, proposedPath: string): FamilyReservations
+{
+  let byPath = families.get(fileSystem);
+  if (!byPath)
+  {
+    byPath = new Map();
+    families.set(fileSystem, byPath);
+  }
+  let reservations = byPath.get(proposedPath);
+  if (!reservations)
+  {
+    reservations = { reserved: new Set(), writers: 0 };
+    byPath.set(proposedPath, reservations);
+  }
+  if (reservations.writers === 0)
+  {
+    reservations.counterScan = undefined;
+    reservations.highestCounter = undefined;
+  }
+  reservations.writers++;
+  return reservations;
+}
+
+/**
+ Says that one writer is done with the family of `proposedPath`, and forgets the oldest idle families if there are too many.
+ */
+export function releaseFamilyReservations(fileSystem: FileSystem, proposedPath: string): void
+{
+  const byPath = families.get(fileSystem);
+  const reservations = byPath?.get(proposedPath);
+  if (!byPath || !reservations)
+  {
+    return;
+  }
+  reservations.writers--;
+  if (byPath.size > MAX_IDLE_FAMILIES)
+  {
+    for (const [path, family] of byPath)
+    {
+      if (byPath.size <= MAX_IDLE_FAMILIES)
+      {
+        break;
+      }
+      if (family.writers === 0)
+      {
+        byPath.delete(path);
+      }
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import type { FanOutResult } from './writeNewFileToAll.ts';
+
+/**
+ Thrown by `writeNewFileToAll()` in the `'all-or-nothing'` mode when the file couldn't be written to every output directory. The copies that had already been published were removed again (as far as possible — see `FanOutResult`), so the file is in none of them.
+
+ @property results What happened in each output directory, in the same order as `outputDirectories`: which ones failed, and why, and which ones were rolled back
+
+ @property proposedFilename The filename that was proposed to `writeNewFileToAll()`
+*/
+export class FanOutError extends Error
+{
+  override readonly name: string = 'FanOutError';
+  readonly results: readonly FanOutResult[];
+  readonly proposedFilename: string;
+
+  constructor(proposedFilename: string, results: readonly FanOutResult[])
+  {
+    const failed = results.filter((result) => result.status === 'failed');
+    const reasons = failed.map((result) => `${result.outputDirectory} (${errorMessage(result.error)})`).join(', ');
+    super(`writeNewFileToAll() did not write "${proposedFilename}": failed in ${reasons}`, { cause: failed[0]?.error });
+    this.proposedFilename = proposedFilename;
+    this.results = results;
+  }
+}
+
+/**
+ The message of `error`, if it is an `Error`, or else the thing itself, as a string
+ */
+function errorMessage(error: unknown): string
+{
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,11 @@
+/**
+ How `writeNewFileToAll()` writes the same file to several output directories.
+
+ @property suffix `'independent'` (the default) writes each copy exactly like `writeNewFile()` would, all at the same time, so each one gets whatever name is free in its own directory — usually the same one, but not necessarily. `'shared'` finds one name that is free in every directory, and publishes all the copies under it, so that the copies can be matched up by name. (It checks that a name is free everywhere before it publishes any copy under it, and moves on to the next suffix if it isn't. Only if another process takes the name in one directory between that check and the publishing — a race that is hard to lose — are the copies already published under it removed again, possibly after a consumer has seen them.)
+
+ @property mode `'best-effort'` (the default) writes as many copies as it can: a directory that fails doesn't stop the others, and you find out which ones failed from the results. `'all-or-nothing'` removes the copies that were already published again if any directory fails, and throws a `FanOutError`.
+*/
+export type FanOutPolicy = {
+  suffix?: 'independent' | 'shared';
+  mode?: 'best-effort' | 'all-or-nothing';
+};
@@ -0,0 +1,92 @@
+import { fchmodSync, fchownSync, futimesSync } from 'node:fs';
+import type { FileSystemFileHandle } from './FileSystem.ts';
+
+/**
+ Permissions, ownership and timestamp to give a newly created file. Anything left out is left as it comes (i.e. whatever the umask, the current user, and the clock give you).
+
+ @property mode The permission bits, as a number (`0o640`) or an octal string (`'640'`, `'0640'`). Unlike the `mode` passed to `open()`, this is not filtered through the umask.
+
+ @property uid The owning user ID (changing it generally requires privileges)
+
+ @property gid The owning group ID (you can usually change it to any group you are a member of)
+
+ @property mtime The modification time (the access time is set to the same value)
+*/
+export type FileAttributes = {
+  mode?: number | string;
+  uid?: number;
+  gid?: number;
+  mtime?: Date;
+};
+
+/**
+ Parses a file mode given as a number or an octal string like `'640'` or `'0640'`.
+
+ @throws {TypeError} if it's not a valid mode
+*/
+export function parseFileMode(mode: number | string): number
+{
+  const parsed = typeof mode === 'number'
+    ? mode
+    : /^0?[0-7]{3,4}$/.test(mode.trim()) ? parseInt(mode.trim(), 8) : NaN;
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > 0o7777)
+  {
+    throw new TypeError(`Invalid file mode: ${JSON.stringify(mode)} (expected something like '640' or 0o640)`);
+  }
+  return parsed;
+}
+
+/**
+ Picks the attributes out of a larger set of options, like `WriteNewOptions`.
+ */
+export function fileAttributesOf(options: FileAttributes): FileAttributes
+{
+  return { mode: options.mode, uid: options.uid, gid: options.gid, mtime: options.mtime };
+}
+
+/**
+ Whether `attributes` asks for anything at all. (The writers pass all four keys along, whether they are set or not.)
+ */
+export function hasFileAttributes(attributes: FileAttributes): boolean
+{
+  return Object.values(attributes).some((value) => value !== undefined);
+}
+
+/**
+ Applies `attributes` to an open file. The owner goes first, since changing it clears the setuid and setgid bits of the mode. The timestamp is applied last, since changing the others doesn't touch the modification time, but writing does — so call this after writing, too.
+ */
+export async function applyFileAttributes(file: FileSystemFileHandle, attributes: FileAttributes): Promise<void>
+{
+  if (attributes.uid !== undefined || attributes.gid !== undefined)
+  {
+    // -1 means "leave this one alone"
+    await file.chown(attributes.uid ?? -1, attributes.gid ?? -1);
+  }
+  if (attributes.mode !== undefined)
+  {
+    await file.chmod(parseFileMode(attributes.mode));
+  }
+  if (attributes.mtime !== undefined)
+  {
+    await file.utimes(attributes.mtime, attributes.mtime);
+  }
+}
+
+/**
+ Exactly like `applyFileAttributes()`, but synchronous, for a file descriptor on the real disk.
+ */
+export function applyFileAttributesSync(fd: number, attributes: FileAttributes): void
+{
+  if (attributes.uid !== undefined || attributes.gid !== undefined)
+  {
+    fchownSync(fd, attributes.uid ?? -1, attributes.gid ?? -1);
+  }
+  if (attributes.mode !== undefined)
+  {
+    fchmodSync(fd, parseFileMode(attributes.mode));
+  }
+  if (attributes.mtime !== undefined)
+  {
+    futimesSync(fd, attributes.mtime, attributes.mtime);
+  }
+}
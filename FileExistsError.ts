@@ -0,0 +1,20 @@
+/**
+ Thrown by `writeNewFile()` when its `onExisting` option is `'fail'` and a file with the proposed filename already exists. Nothing was written (the temp file has already been removed).
+
+ @property path The full path of the file that already exists
+
+ @property proposedFilename The filename that was proposed to `writeNewFile()`
+*/
+export class FileExistsError extends Error
+{
+  override readonly name: string = 'FileExistsError';
+  readonly path: string;
+  readonly proposedFilename: string;
+
+  constructor(proposedFilename: string, path: string)
+  {
+    super(`writeNewFile() did not write "${proposedFilename}": "${path}" already exists`);
+    this.proposedFilename = proposedFilename;
+    this.path = path;
+  }
+}
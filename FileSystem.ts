@@ -0,0 +1,83 @@
+import { createReadStream } from 'node:fs';
+import { copyFile, link, mkdir, open, readdir, rename, stat, statfs, unlink } from 'node:fs/promises';
+
+/**
+ An open file, as returned by `FileSystem.open()`. (A Node.js `FileHandle` is one.)
+*/
+export type FileSystemFileHandle = {
+  write(data: Uint8Array): Promise<unknown>;
+  chmod(mode: number): Promise<void>;
+  chown(uid: number, gid: number): Promise<void>;
+  utimes(atime: Date, mtime: Date): Promise<void>;
+  sync(): Promise<void>;
+  close(): Promise<void>;
+};
+
+/**
+ What `FileSystem.stat()` returns. (A Node.js `Stats` is one.) The `dev` (the ID of the device the file is on) is optional, and only used to check that a staging directory is on the same file system as the output directory (see `TempFileOptions`).
+*/
+export type FileSystemStats = {
+  size: number;
+  mtime: Date;
+  mode: number;
+  dev?: number;
+  isFile(): boolean;
+  isDirectory(): boolean;
+};
+
+/**
+ What `FileSystem.statfs()` returns. (A Node.js `StatsFs` is one.)
+
+ @property bavail How many blocks are free for unprivileged users
+
+ @property bsize How big a block is, in bytes
+*/
+export type FileSystemStatFs = {
+  bavail: number;
+  bsize: number;
+};
+
+/**
+ The file operations that `writeNewFile()` (and `tryCreateFile()`, `writeNewFiles()`, `listFileFamily()` and `pruneFamily()`) need. The default is `nodeFileSystem`, i.e. the real disk; pass a different one with the `fileSystem` option, e.g. a `MemoryFileSystem` in tests.
+
+ Every method must behave like its `node:fs/promises` namesake, and in particular fail with an error that has the same `code` (`'EEXIST'`, `'ENOENT'`, etc.), because that is how `writeNewFile()` tells a taken name from a real problem:
+
+ - `open(path, 'wx')` creates a new file, and must fail with `EEXIST` if `path` exists — atomically, or the uniqueness guarantee is gone. `'r+'` opens an existing file for writing, and `'r'` opens a file or directory just so it can be `sync()`-ed
+ - `link(existingPath, newPath)` must fail with `EEXIST` if `newPath` exists — atomically, again
+ - `rename()` replaces `newPath` atomically if it exists
+ - `copyFile()` overwrites `dest`
+ - `makeDirectory()` is the odd one out by name: it's `mkdir()`, and `makeDirectory(path, { recursive: true })` creates any missing parents too, and doesn't mind if the directory already exists — not even if another process creates it at the same moment
+ - `readChunks()` is the odd one out by behavior: it returns the file's content, in chunks (like a Node.js `ReadStream`)
+ - `statfs()` is optional, and only needed for the `minFreeBytes` quota (see `QuotaPolicy`)
+*/
+export type FileSystem = {
+  open(path: string, flags: 'wx' | 'r+' | 'r'): Promise<FileSystemFileHandle>;
+  link(existingPath: string, newPath: string): Promise<void>;
+  unlink(path: string): Promise<void>;
+  rename(oldPath: string, newPath: string): Promise<void>;
+  copyFile(src: string, dest: string): Promise<void>;
+  makeDirectory(path: string, options?: { recursive?: boolean }): Promise<void>;
+  readdir(path: string): Promise<string[]>;
+  stat(path: string): Promise<FileSystemStats>;
+  readChunks(path: string): AsyncIterable<Uint8Array>;
+  statfs?(path: string): Promise<FileSystemStatFs>;
+};
+
+/**
+ The real file system, via `node:fs`. This is the default `FileSystem`.
+*/
+export const nodeFileSystem: FileSystem = {
+  open: (path, flags) => open(path, flags),
+  link,
+  unlink,
+  rename,
+  copyFile: (src, dest) => copyFile(src, dest),
+  makeDirectory: async (path, options) =>
+  {
+    await mkdir(path, options);
+  },
+  readdir: (path) => readdir(path),
+  stat: (path) => stat(path),
+  readChunks: (path) => createReadStream(path),
+  statfs: (path) => statfs(path),
+};
@@ -0,0 +1,146 @@
+import { parse } from '@std/path';
+import { CONTROL_CHARACTER } from './controlCharacters.ts';
+import { InvalidFilenameError } from './InvalidFilenameError.ts';
+import { TEMP_FILE_PREFIX, tempFileNameOverhead, type TempFileOptions } from './TempFileOptions.ts';
+
+/**
+ What `writeNewFile()` does with a proposed filename that isn't safe to use as-is (see `checkProposedFilename()` for exactly what that means):
+
+ - `'reject'` (the default): throw an `InvalidFilenameError`. (Versions before this option existed wrote any name as it was — so a name with a `/` in it, which used to land in a subdirectory, throws now.)
+ - `'sanitize'`: fix it — replace path separators with `_`, strip control characters, rename reserved names, and truncate it (in UTF-8 bytes, keeping the extension) so that it fits — and write the file under the fixed name. Use this if the proposed filenames come from user input and you'd rather have *a* file than an error.
+*/
+export type FilenamePolicy = 'reject' | 'sanitize';
+
+/**
+ Most file systems limit a filename (not a path) to 255 bytes.
+ */
+const NAME_MAX = 255;
+
+/**
+ The longest suffix any of the built-in naming strategies add (like `~2024-12-22-16-39-42-123+001` or `~20241222T163942,123+0900+001`), with some room to spare.
+ */
+const SUFFIX_BYTES = 32;
+
+/**
+ The longest proposed filename that leaves room both for a unique suffix and for the temp file's prefix and random suffix (`.__temp__<name>.<uuid>`, by default) within `NAME_MAX`.
+ */
+export const MAX_PROPOSED_FILENAME_BYTES: number = maxProposedFilenameBytes(SUFFIX_BYTES);
+
+function maxProposedFilenameBytes(suffixBytes: number, tempFile?: TempFileOptions): number
+{
+  return NAME_MAX - Math.max(suffixBytes, tempFileNameOverhead(tempFile));
+}
+
+/**
+ Checks that `proposedFilename` is safe to write in the output directory, and returns the filename to use instead of it: the same one if it's fine, a fixed one if it isn't and the `policy` is `'sanitize'`.
+
+ A filename is not safe if:
+
+ - it contains a path separator (`/` or `\`), or is `.` or `..` — i.e. it would write somewhere other than the output directory
+ - it contains control characters (Unicode category `Cc`: `\x00`-`\x1f` and `\x7f`-`\x9f`)
+ - it is reserved: a Windows device name like `CON`, `nul.txt` or `COM1.log`, a name ending in a dot or a space (which Windows silently drops), or a name starting with the temp file prefix (`.__temp__`, or whatever `tempFile` says), which consumers are told to ignore
+ - it is longer than `MAX_PROPOSED_FILENAME_BYTES` (or whatever `suffixBytes` leaves) in UTF-8, so that there might not be room for the unique suffix — `'sanitize'` truncates the base name (never in the middle of a character), and keeps the extension
+ - it is empty (even `'sanitize'` can't fix that one)
+
+ @param proposedFilename The proposed filename
+
+ @param policy `'reject'` (the default) or `'sanitize'` (see `FilenamePolicy`)
+
+ @param suffixBytes How much room to leave for the unique suffix, in bytes (default: enough for the built-in naming strategies, i.e. a limit of `MAX_PROPOSED_FILENAME_BYTES`)
+
+ @param tempFile The `tempFile` option of the write, if any (see `TempFileOptions`), since the temp file's name needs room too, and its prefix is reserved
+
+ @returns The filename to use
+
+ @throws {InvalidFilenameError} if the filename isn't safe and the policy is `'reject'`, or if it is empty (or nothing is left of it after sanitizing)
+*/
+export function checkProposedFilename(
+  proposedFilename: string,
+  policy: FilenamePolicy = 'reject',
+  suffixBytes: number = SUFFIX_BYTES,
+  tempFile?: TempFileOptions,
+): string
+{
+  let name = proposedFilename;
+  const maxBytes = maxProposedFilenameBytes(suffixBytes, tempFile);
+  const tempFilePrefix = tempFile?.prefix ?? TEMP_FILE_PREFIX;
+
+  /**
+   Internal function that either throws or applies the fix
+   */
+  const fix = (problem: InvalidFilenameError['problem'], sanitize: (name: string) => string) =>
+  {
+    if (policy !== 'sanitize')
+    {
+      throw new InvalidFilenameError(proposedFilename, problem);
+    }
+    name = sanitize(name);
+  };
+
+  if (/[/\\]/.test(name) || name === '.' || name === '..')
+  {
+    fix('path', (name) => name.replace(/[/\\]/g, '_').replace(/^\.\.?$/, (dots) => '_'.repeat(dots.length)));
+  }
+  if (CONTROL_CHARACTER.test(name))
+  {
+    fix('control-character', (name) => name.replace(new RegExp(CONTROL_CHARACTER, 'gu'), ''));
+  }
+  if (tempFilePrefix !== '' && name.startsWith(tempFilePrefix))
+  {
+    fix('reserved-name', (name) => `_${name}`);
+  }
+  if (RESERVED_NAME_PATTERN.test(name))
+  {
+    fix('reserved-name', (name) => name.replace(/^[^.]+/, (device) => `${device}_`));
+  }
+  if (/[. ]$/.test(name))
+  {
+    fix('reserved-name', (name) => name.replace(/[. ]+$/, ''));
+  }
+  if (utf8Length(name) > maxBytes)
+  {
+    fix('too-long', (name) => truncate(name, maxBytes));
+  }
+  if (name.length === 0)
+  {
+    throw new InvalidFilenameError(proposedFilename, 'empty');
+  }
+  return name;
+}
+
+/**
+ Windows device names, with or without an extension (`CON`, `con.txt`, `COM1.tar.gz`...), which can't be used as filenames there.
+ */
+const RESERVED_NAME_PATTERN = /^(?:CON|PRN|AUX|NUL|COM[0-9¹²³]|LPT[0-9¹²³])(?:\..*)?$/i;
+
+/**
+ Truncates the base name so that the whole name fits in `maxBytes`, keeping the extension (unless the extension alone is most of the budget, in which case it's just another part of the name).
+ */
+function truncate(name: string, maxBytes: number): string
+{
+  let { name: base, ext } = parse(name);
+  if (utf8Length(ext) > SUFFIX_BYTES)
+  {
+    base = name;
+    ext = '';
+  }
+
+  let truncated = '';
+  let bytes = utf8Length(ext);
+  for (const char of base) // by code point, so that we never split a character
+  {
+    bytes += utf8Length(char);
+    if (bytes > maxBytes)
+    {
+      break;
+    }
+    truncated += char;
+  }
+  // Truncating may have left a trailing dot or space, which is no better than before:
+  return truncated.replace(/[. ]+$/, '') + ext;
+}
+
+function utf8Length(text: string): number
+{
+  return new TextEncoder().encode(text).byteLength;
+}
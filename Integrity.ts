@@ -0,0 +1,15 @@
+/**
+ How `writeNewFile()` lets consumers check that a file is intact, via the `integrity` option (use `verifyFile()` to do the checking):
+
+ - `'none'` (the default): nothing extra
+ - `'sidecar'`: after the file is published, a `<filename>.sha256` sidecar is published next to it — atomically, so it is either complete or not there at all. It has the same format as the output of `sha256sum` (`<hex digest>  <filename>`), so `sha256sum -c` can check it too. Since the sidecar necessarily appears a moment after the file, consumers that want to verify should wait for the sidecar (or watch for the sidecars instead of the files)
+ - `'suffix'`: the full hex SHA-256 of the content is the file's unique suffix, like `report.json~9f86d081884c7d65…0f00a08.gz` for `report.json.gz` (it goes before the last extension, like any suffix), so the name carries its own checksum and nothing else needs to be written. This replaces the `namingStrategy` (and the proposed filename is never used as-is), so the files no longer sort in creation order. It needs more room for the suffix, so the proposed filename can't be as long as usual
+
+ The digest is of the bytes on disk, i.e. after any `transforms`.
+*/
+export type Integrity = 'none' | 'sidecar' | 'suffix';
+
+/**
+ The extension of the sidecar files written by the `'sidecar'` integrity mode: the sidecar of `report.json.gz` is `report.json.gz.sha256`.
+*/
+export const SHA256_SIDECAR_EXTENSION = '.sha256';
@@ -0,0 +1,28 @@
+/**
+ Thrown by `writeNewFile()` (and `checkProposedFilename()`) when the proposed filename isn't safe to use, and the `filenamePolicy` is `'reject'` (or the problem is one that `'sanitize'` can't fix, like an empty name).
+
+ @property problem What is wrong with it:
+  - `'empty'`: there is nothing left of the name (e.g. `''`, or only control characters)
+  - `'path'`: it contains a path separator, or is `.` or `..`, so it would write outside the output directory
+  - `'control-character'`: it contains a control character (like a newline, or NUL)
+  - `'reserved-name'`: it is a name that Windows reserves (like `CON` or `nul.txt`), it ends with a dot or a space, or it starts with the temp file prefix
+  - `'too-long'`: it is too long to leave room for the unique suffix (or the temp file's name) within the 255-byte filename limit
+
+ @property proposedFilename The filename that was proposed to `writeNewFile()`
+*/
+export class InvalidFilenameError extends Error
+{
+  override readonly name: string = 'InvalidFilenameError';
+  readonly problem: 'empty' | 'path' | 'control-character' | 'reserved-name' | 'too-long';
+  readonly proposedFilename: string;
+
+  constructor(
+    proposedFilename: string,
+    problem: 'empty' | 'path' | 'control-character' | 'reserved-name' | 'too-long',
+  )
+  {
+    super(`Invalid filename ${JSON.stringify(proposedFilename)} (${problem})`);
+    this.proposedFilename = proposedFilename;
+    this.problem = problem;
+  }
+}
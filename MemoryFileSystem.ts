@@ -0,0 +1,429 @@
+import { basename, dirname, resolve } from '@std/path';
+import { type Clock, systemClock } from './Clock.ts';
+import type { FileSystem, FileSystemFileHandle, FileSystemStatFs, FileSystemStats } from './FileSystem.ts';
+
+/**
+ A file (more precisely, an inode — hard links share one) in a `MemoryFileSystem`.
+ */
+type MemoryFile = {
+  data: Uint8Array;
+  mode: number;
+  uid: number;
+  gid: number;
+  mtime: Date;
+};
+
+type MemoryEntry = { kind: 'file'; file: MemoryFile } | { kind: 'directory'; mtime: Date };
+
+/**
+ An in-memory `FileSystem`, for testing code that uses `writeNewFile()` without touching the disk.
+
+ It simulates the parts of a POSIX file system that `writeNewFile()` relies on: exclusive creation and hard links fail with `EEXIST` if the name is taken, hard links share their content and attributes, `rename()` replaces its target atomically, and the errors have the same `code`s as the real thing. Every operation is atomic, and yields to the event loop before it runs, so concurrent writers interleave between operations just like they would on a real file system.
+
+ To force a collision at a particular moment, pass a `beforeOperation` hook, which is called (synchronously) before every operation, and can e.g. `writeFile()` a name that the writer is just about to take:
+
+ ```ts
+ const fileSystem = new MemoryFileSystem({
+   beforeOperation: (operation, path) =>
+   {
+     if (operation === 'link' && path === '/out/status.json') fileSystem.writeFile(path, 'somebody else');
+   },
+ });
+ fileSystem.mkdir('/out');
+ await writeNewFile('status.json', 'us', { outputDirectory: '/out', fileSystem }); // '/out/status~…json'
+ ```
+
+ Paths are resolved against the current working directory, and `/` always exists;  any other directory has to be created first (with `mkdir()` when setting up a test).
+
+ To test the `minFreeBytes` quota (see `QuotaPolicy`), give it a `capacity`: `statfs()` then reports whatever the files don't take up of it as free. (Writes don't fail when it's used up, though.)
+*/
+export class MemoryFileSystem implements FileSystem
+{
+  private readonly entries: Map<string, MemoryEntry>;
+  private readonly beforeOperation?: (operation: string, path: string) => void;
+  private readonly capacity: number;
+  private readonly clock: Clock;
+
+  /**
+   @param options `beforeOperation`: called before every operation, with the operation's name (`'open'`, `'link'`, etc.) and the path it operates on (for `link()`, `rename()` and `copyFile()`, the destination); `capacity`: how many bytes the file system holds, for `statfs()` (default: practically unlimited); `clock`: where the modification times come from (default: `systemClock` — pass the same `Clock` as the writer, so that e.g. `pruneFamily()`'s `maxAge` sees the files as exactly as old as the fake clock says)
+   */
+  constructor(
+    options: { beforeOperation?: (operation: string, path: string) => void; capacity?: number; clock?: Clock } = {},
+  )
+  {
+    this.beforeOperation = options.beforeOperation;
+    this.capacity = options.capacity ?? Number.MAX_SAFE_INTEGER;
+    this.clock = options.clock ?? systemClock;
+    this.entries = new Map([['/', { kind: 'directory', mtime: this.clock.now() }]]);
+  }
+
+  /**
+   Creates a directory (and, if `recursive`, its parents) — synchronously, for setting up tests.
+   */
+  mkdir(path: string, options: { recursive?: boolean } = {}): void
+  {
+    const fullPath = resolve(path);
+    const existing = this.entries.get(fullPath);
+    if (existing)
+    {
+      if (existing.kind === 'directory' && options.recursive)
+      {
+        return;
+      }
+      throw fileSystemError('EEXIST', 'mkdir', path);
+    }
+    if (options.recursive && !this.entries.has(dirname(fullPath)))
+    {
+      this.mkdir(dirname(fullPath), options);
+    }
+    this.parentDirectory('mkdir', path);
+    this.entries.set(fullPath, { kind: 'directory', mtime: this.clock.now() });
+  }
+
+  /**
+   Creates or overwrites a file — synchronously, for setting up tests (and for simulating other processes, e.g. in a `beforeOperation` hook).
+   */
+  writeFile(path: string, content: string | Uint8Array): void
+  {
+    this.parentDirectory('open', path);
+    const existing = this.entries.get(resolve(path));
+    if (existing?.kind === 'directory')
+    {
+      throw fileSystemError('EISDIR', 'open', path);
+    }
+    const data = typeof content === 'string' ? new TextEncoder().encode(content) : content.slice();
+    if (existing)
+    {
+      existing.file.data = data;
+      existing.file.mtime = this.clock.now();
+      return;
+    }
+    this.entries.set(resolve(path), { kind: 'file', file: newFile(data, this.clock.now()) });
+  }
+
+  /**
+   Returns a file's content — synchronously, for checking results in tests.
+   */
+  readFile(path: string): Uint8Array
+  {
+    return this.file('open', path).data.slice();
+  }
+
+  /**
+   Returns a file's content as a UTF-8 string — synchronously, for checking results in tests.
+   */
+  readTextFile(path: string): string
+  {
+    return new TextDecoder().decode(this.file('open', path).data);
+  }
+
+  /**
+   Returns whether anything exists at `path`.
+   */
+  exists(path: string): boolean
+  {
+    return this.entries.has(resolve(path));
+  }
+
+  async open(path: string, flags: 'wx' | 'r+' | 'r'): Promise<FileSystemFileHandle>
+  {
+    await this.interleave('open', path);
+    let file: MemoryFile | undefined;
+    if (flags === 'wx')
+    {
+      this.parentDirectory('open', path);
+      if (this.entries.has(resolve(path)))
+      {
+        throw fileSystemError('EEXIST', 'open', path);
+      }
+      file = newFile(new Uint8Array(), this.clock.now());
+      this.entries.set(resolve(path), { kind: 'file', file });
+    }
+    else
+    {
+      const entry = this.entries.get(resolve(path));
+      if (!entry)
+      {
+        throw fileSystemError('ENOENT', 'open', path);
+      }
+      if (entry.kind === 'file')
+      {
+        file = entry.file;
+      }
+      else if (flags === 'r+')
+      {
+        throw fileSystemError('EISDIR', 'open', path);
+      }
+    }
+    return new MemoryFileHandle(file, flags !== 'r', path, this.clock);
+  }
+
+  async makeDirectory(path: string, options: { recursive?: boolean } = {}): Promise<void>
+  {
+    await this.interleave('mkdir', path);
+    this.mkdir(path, options);
+  }
+
+  async link(existingPath: string, newPath: string): Promise<void>
+  {
+    await this.interleave('link', newPath);
+    const file = this.file('link', existingPath);
+    this.parentDirectory('link', newPath);
+    if (this.entries.has(resolve(newPath)))
+    {
+      throw fileSystemError('EEXIST', 'link', newPath);
+    }
+    this.entries.set(resolve(newPath), { kind: 'file', file });
+  }
+
+  async unlink(path: string): Promise<void>
+  {
+    await this.interleave('unlink', path);
+    this.file('unlink', path);
+    this.entries.delete(resolve(path));
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void>
+  {
+    await this.interleave('rename', newPath);
+    const file = this.file('rename', oldPath);
+    this.parentDirectory('rename', newPath);
+    if (this.entries.get(resolve(newPath))?.kind === 'directory')
+    {
+      throw fileSystemError('EISDIR', 'rename', newPath);
+    }
+    this.entries.delete(resolve(oldPath));
+    this.entries.set(resolve(newPath), { kind: 'file', file });
+  }
+
+  async copyFile(src: string, dest: string): Promise<void>
+  {
+    await this.interleave('copyFile', dest);
+    const source = this.file('copyfile', src);
+    this.parentDirectory('copyfile', dest);
+    const existing = this.entries.get(resolve(dest));
+    if (existing?.kind === 'directory')
+    {
+      throw fileSystemError('EISDIR', 'copyfile', dest);
+    }
+    const copy = { ...newFile(source.data.slice(), this.clock.now()), mode: source.mode };
+    if (existing)
+    {
+      // Overwrites the content (and, like libuv, the mode) of the same inode, so other links to it see the change:
+      Object.assign(existing.file, { data: copy.data, mode: copy.mode, mtime: copy.mtime });
+      return;
+    }
+    this.entries.set(resolve(dest), { kind: 'file', file: copy });
+  }
+
+  async readdir(path: string): Promise<string[]>
+  {
+    await this.interleave('readdir', path);
+    const fullPath = resolve(path);
+    const entry = this.entries.get(fullPath);
+    if (!entry)
+    {
+      throw fileSystemError('ENOENT', 'scandir', path);
+    }
+    if (entry.kind !== 'directory')
+    {
+      throw fileSystemError('ENOTDIR', 'scandir', path);
+    }
+    const names: string[] = [];
+    for (const entryPath of this.entries.keys())
+    {
+      if (entryPath !== fullPath && dirname(entryPath) === fullPath)
+      {
+        names.push(basename(entryPath));
+      }
+    }
+    return names.sort();
+  }
+
+  async stat(path: string): Promise<FileSystemStats>
+  {
+    await this.interleave('stat', path);
+    const entry = this.entries.get(resolve(path));
+    if (!entry)
+    {
+      throw fileSystemError('ENOENT', 'stat', path);
+    }
+    const isFile = entry.kind === 'file';
+    return {
+      size: isFile ? entry.file.data.byteLength : 0,
+      mtime: isFile ? entry.file.mtime : entry.mtime,
+      mode: isFile ? 0o100000 | entry.file.mode : 0o040755,
+      isFile: () => isFile,
+      isDirectory: () => !isFile,
+    };
+  }
+
+  async *readChunks(path: string): AsyncIterable<Uint8Array>
+  {
+    await this.interleave('readChunks', path);
+    yield this.file('open', path).data.slice();
+  }
+
+  async statfs(path: string): Promise<FileSystemStatFs>
+  {
+    await this.interleave('statfs', path);
+    if (!this.entries.has(resolve(path)))
+    {
+      throw fileSystemError('ENOENT', 'statfs', path);
+    }
+    // Hard links share their data, so count each file only once:
+    const files = new Set<MemoryFile>();
+    for (const entry of this.entries.values())
+    {
+      if (entry.kind === 'file')
+      {
+        files.add(entry.file);
+      }
+    }
+    const used = [...files].reduce((total, file) => total + file.data.byteLength, 0);
+    return { bavail: Math.max(0, this.capacity - used), bsize: 1 };
+  }
+
+  /**
+   Lets other writers have a go, then gives the `beforeOperation` hook its chance to interfere.
+   */
+  private async interleave(operation: string, path: string): Promise<void>
+  {
+    await Promise.resolve();
+    this.beforeOperation?.(operation, resolve(path));
+  }
+
+  /**
+   Returns the file at `path`, or throws `ENOENT` (or `EISDIR`) like `syscall` would
+   */
+  private file(syscall: string, path: string): MemoryFile
+  {
+    const entry = this.entries.get(resolve(path));
+    if (!entry)
+    {
+      throw fileSystemError('ENOENT', syscall, path);
+    }
+    if (entry.kind !== 'file')
+    {
+      throw fileSystemError('EISDIR', syscall, path);
+    }
+    return entry.file;
+  }
+
+  /**
+   Throws `ENOENT` (or `ENOTDIR`) like `syscall` would, unless the directory that `path` would be in exists
+   */
+  private parentDirectory(syscall: string, path: string): void
+  {
+    const parent = this.entries.get(dirname(resolve(path)));
+    if (!parent)
+    {
+      throw fileSystemError('ENOENT', syscall, path);
+    }
+    if (parent.kind !== 'directory')
+    {
+      throw fileSystemError('ENOTDIR', syscall, path);
+    }
+  }
+}
+
+/**
+ An open file in a `MemoryFileSystem`. Writes go straight to the file (there's no such thing as an unsynced write in memory), starting at the beginning.
+ */
+class MemoryFileHandle implements FileSystemFileHandle
+{
+  private position = 0;
+  private closed = false;
+
+  constructor(
+    private readonly file: MemoryFile | undefined,
+    private readonly writable: boolean,
+    private readonly path: string,
+    private readonly clock: Clock,
+  )
+  {}
+
+  async write(data: Uint8Array): Promise<void>
+  {
+    const file = this.writableFile('write');
+    await Promise.resolve();
+    const end = this.position + data.byteLength;
+    const grown = new Uint8Array(Math.max(end, file.data.byteLength));
+    grown.set(file.data);
+    grown.set(data, this.position);
+    file.data = grown;
+    file.mtime = this.clock.now();
+    this.position = end;
+  }
+
+  async chmod(mode: number): Promise<void>
+  {
+    this.writableFile('fchmod').mode = mode & 0o7777;
+    await Promise.resolve();
+  }
+
+  async chown(uid: number, gid: number): Promise<void>
+  {
+    const file = this.writableFile('fchown');
+    file.uid = uid === -1 ? file.uid : uid;
+    file.gid = gid === -1 ? file.gid : gid;
+    await Promise.resolve();
+  }
+
+  async utimes(_atime: Date, mtime: Date): Promise<void>
+  {
+    this.writableFile('futime').mtime = mtime;
+    await Promise.resolve();
+  }
+
+  async sync(): Promise<void>
+  {
+    this.openOrThrow('fsync');
+    await Promise.resolve();
+  }
+
+  async close(): Promise<void>
+  {
+    this.openOrThrow('close');
+    this.closed = true;
+    await Promise.resolve();
+  }
+
+  private openOrThrow(syscall: string): void
+  {
+    if (this.closed)
+    {
+      throw fileSystemError('EBADF', syscall, this.path);
+    }
+  }
+
+  private writableFile(syscall: string): MemoryFile
+  {
+    this.openOrThrow(syscall);
+    if (!this.file || !this.writable)
+    {
+      throw fileSystemError('EBADF', syscall, this.path);
+    }
+    return this.file;
+  }
+}
+
+function newFile(data: Uint8Array, mtime: Date): MemoryFile
+{
+  return { data, mode: 0o644, uid: 0, gid: 0, mtime };
+}
+
+/**
+ Returns an error that looks like the ones from `node:fs`, e.g. `EEXIST: file already exists, link '/out/status.json'`.
+ */
+function fileSystemError(code: string, syscall: string, path: string): Error
+{
+  const descriptions: Record<string, string> = {
+    EBADF: 'bad file descriptor',
+    EEXIST: 'file already exists',
+    EISDIR: 'illegal operation on a directory',
+    ENOENT: 'no such file or directory',
+    ENOTDIR: 'not a directory',
+  };
+  return Object.assign(new Error(`${code}: ${descriptions[code]}, ${syscall} '${path}'`), { code, syscall, path });
+}
@@ -0,0 +1,171 @@
+import type { ParsedPath } from '@std/path';
+import { generateUlid } from './generateUlid.ts';
+import { formatSuffixTimestamp, type SuffixFormat } from './SuffixFormat.ts';
+
+/**
+ A user-supplied function that generates unique-filename candidates. It is called with the parsed proposed filename and the attempt number (starting at `1` for the first suffixed candidate — the proposed filename itself is always tried first, as-is), and must return the candidate filename (just the filename, including the extension, not a path).
+
+ If the candidate already exists, the function is simply called again with the next attempt number, so it should return a different name each time (e.g. by incorporating `attempt`). The collision handling is still done atomically by `tryCreateFile()`, so the function doesn't need to check whether the name is free.
+
+ @example
+ ```ts
+ const strategy: NamingStrategyFunction = (parsed, attempt) => `${parsed.name}-v${attempt}${parsed.ext}`;
+ ```
+*/
+export type NamingStrategyFunction = (parsed: ParsedPath, attempt: number) => string;
+
+/**
+ How `writeNewFile()` generates unique filenames when the proposed filename is already taken.
+
+ - `'date'` (the default): `name~YYYY-MM-DD-HH-mm-ss.ext`, then `name~YYYY-MM-DD-HH-mm-ss+SSS.ext` if that is taken too, where `SSS` is the milliseconds, or one more than the previous tiebreaker in that second, whichever is higher (the timestamp format can be changed with the `suffixFormat` option — see `SuffixFormat`)
+ - `'counter'`: a zero-padded sequential counter, starting after the highest one already in the directory, like `name~0001.ext` (the padding is 4 digits, so lexicographic order only matches creation order up to `~9999`)
+ - `'ulid'`: a [ULID](https://github.com/ulid/spec), like `name~01JFT0Q4S6X3RDW9Y8B1ZKQ0CN.ext`, which is unique without needing any retries in practice, and sorts in creation order (to the millisecond)
+ - `'content-hash'`: the first 16 hex characters of the SHA-256 of the content, like `name~3f2a9c0d1b7e6a54.ext` (with a `+N` tiebreaker if that name is somehow taken already)
+ - a `NamingStrategyFunction` of your own
+*/
+export type NamingStrategy =
+  | 'date'
+  | 'counter'
+  | 'ulid'
+  | 'content-hash'
+  | NamingStrategyFunction;
+
+/**
+ The per-attempt state that the built-in strategies need in order to produce the next candidate. Built by `writeNewFile()`; you only need this if you are driving a `NamingStrategy` yourself.
+
+ @property attempt The attempt number, starting at `1` for the first suffixed candidate
+
+ @property now The current time
+
+ @property previous The previous candidate filename, if any (for the `'date'` strategy, the last one handed out by any writer, so that its tiebreakers keep going up)
+
+ @property contentHash The hex-encoded content hash (required by the `'content-hash'` strategy)
+
+ @property highestCounter The highest existing `~NNNN` counter in the directory (used by the `'counter'` strategy; default: `0`)
+
+ @property suffixFormat How the `'date'` strategy formats its timestamps (see `SuffixFormat`)
+*/
+export type NamingContext = {
+  attempt: number;
+  now: Date;
+  previous?: string;
+  contentHash?: string;
+  highestCounter?: number;
+  suffixFormat?: SuffixFormat;
+};
+
+/**
+ Returns the candidate filename (not path) for the given naming strategy and attempt.
+
+ @throws {TypeError} if the `'content-hash'` strategy is used without a `contentHash` in the context, or a custom strategy returns an empty name, a name containing path separators, or a name longer than 255 bytes
+*/
+export function buildCandidateFilename(
+  strategy: NamingStrategy,
+  parsed: ParsedPath,
+  context: NamingContext,
+): string
+{
+  const withSuffix = (suffix: string) => `${parsed.name}~${suffix}${parsed.ext}`;
+
+  switch (strategy)
+  {
+    case 'date':
+    {
+      // First try just the timestamp; if the previous candidate already had this same timestamp, add a tiebreaker:
+      const baseDateStr = formatSuffixTimestamp(context.now, context.suffixFormat);
+      const tiebreaker = nextDateTiebreaker(parsed, context);
+      return tiebreaker === undefined
+        ? withSuffix(baseDateStr)
+        : withSuffix(`${baseDateStr}+${tiebreaker.toString().padStart(3, '0')}`);
+    }
+
+    case 'counter':
+    {
+      const counter = (context.highestCounter ?? 0) + context.attempt;
+      return withSuffix(counter.toString().padStart(COUNTER_WIDTH, '0'));
+    }
+
+    case 'ulid':
+      return withSuffix(generateUlid(context.now.getTime()));
+
+    case 'content-hash':
+    {
+      if (!context.contentHash)
+      {
+        throw new TypeError('The content-hash naming strategy requires a content hash');
+      }
+      return context.attempt === 1
+        ? withSuffix(context.contentHash)
+        : withSuffix(`${context.contentHash}+${context.attempt - 1}`);
+    }
+
+    default:
+    {
+      const candidate = strategy(parsed, context.attempt);
+      if (
+        typeof candidate !== 'string' || candidate.length === 0 || /[/\\]/.test(candidate)
+        || new TextEncoder().encode(candidate).byteLength > 255
+      )
+      {
+        throw new TypeError(`Custom naming strategy returned an invalid filename: ${JSON.stringify(candidate)}`);
+      }
+      return candidate;
+    }
+  }
+}
+
+/**
+ Returns `true` if the `'date'` strategy has used up all of its `+SSS` tiebreakers for the current timestamp (i.e. it has already handed out `+999`), so that the next candidate has to wait for the clock to move on.
+ */
+export function isDateTiebreakerExhausted(parsed: ParsedPath, context: NamingContext): boolean
+{
+  return (nextDateTiebreaker(parsed, context) ?? 0) > MAX_DATE_TIEBREAKER;
+}
+
+/**
+ Returns the tiebreaker the `'date'` strategy needs for its next candidate, or `undefined` if the timestamp alone will do (because the previous candidate had a different one).
+
+ With seconds precision, the tiebreaker is the milliseconds, as it always has been — unless the previous tiebreaker in the same second was already that high, in which case it is one more than that. With millisecond precision, it just counts. Either way, it never goes down within a timestamp, so the names keep sorting in the order they were handed out, without having to wait for the clock.
+ */
+function nextDateTiebreaker(parsed: ParsedPath, context: NamingContext): number | undefined
+{
+  const previousPrefix = `${parsed.name}~${formatSuffixTimestamp(context.now, context.suffixFormat)}`;
+  if (context.previous === undefined || !context.previous.startsWith(previousPrefix))
+  {
+    return undefined;
+  }
+  const previousMatch = /^\+(\d+)/.exec(context.previous.slice(previousPrefix.length));
+  const previousTiebreaker = previousMatch ? Number(previousMatch[1]) : 0;
+  return context.suffixFormat?.precision === 'milliseconds'
+    ? previousTiebreaker + 1
+    : Math.max(context.now.getMilliseconds(), previousMatch ? previousTiebreaker + 1 : 0);
+}
+
+/**
+ `+SSS` has three digits, and a fourth would break the lexicographic order.
+ */
+const MAX_DATE_TIEBREAKER = 999;
+
+/**
+ Returns the highest `~NNNN` counter suffix among `names` for the file family described by `parsed` (i.e. `name~NNNN.ext`), or `0` if there isn't one.
+ */
+export function findHighestCounter(names: Iterable<string>, parsed: ParsedPath): number
+{
+  let highest = 0;
+  const prefix = `${parsed.name}~`;
+  for (const name of names)
+  {
+    if (!name.startsWith(prefix) || !name.endsWith(parsed.ext))
+    {
+      continue;
+    }
+    const digits = name.slice(prefix.length, name.length - parsed.ext.length);
+    if (/^\d+$/.test(digits))
+    {
+      highest = Math.max(highest, Number(digits));
+    }
+  }
+  return highest;
+}
+
+const COUNTER_WIDTH = 4;
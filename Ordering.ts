@@ -0,0 +1,12 @@
+/**
+ How strictly the names that `writeNewFile()` hands out follow each other.
+
+ - `'clock'` (the default): the `'date'` strategy names each file after the current time, so names sort in creation order as long as the clock only moves forward, and in-process writers keep their tiebreakers going up. But if the clock is set back (by NTP, by hand, or by another host with a different idea of the time), new names sort *before* the ones already there — and writers in different processes only find out about each other by colliding.
+
+ - `'monotonic'`: every new name sorts (byte by byte, as `ls` does in the C locale) after every name already in the file family, and after every name handed out before, even ones that have been consumed and removed since — across processes, and whatever the clock does. The timestamp in a name is the current time, or, if the clock is behind the last name, that name's timestamp, with the tiebreaker counting on (and if the tiebreakers of that timestamp are all used up, the next second — so names may run a little ahead of the clock until it catches up). Every suffixed name gets a `+SSS` tiebreaker, since `~ts.ext` would sort after `~ts+SSS.ext`.
+
+   Writers take turns: each one holds a lock on the family while it picks its name and publishes the file, and records the name in a sequence file. Both live where the temp files do and are named like temp files (see `TempFileOptions`), so consumers that ignore temp files ignore them too. A lock left behind by a crashed writer is broken after 10 seconds. (And if `sweepStaleTempFiles()` removes the sequence file of a family that hasn't been written to in a while, its next writer starts over from the names in the directory.)
+
+   This only works with the `'date'` naming strategy and `onExisting: 'suffix'` (the defaults), and only if every writer of the family uses it, with the same `suffixFormat`, the same `tempFile` options, and the same path for the output directory. Members of the family with other suffixes (a counter, a hash...) aren't taken into account. It costs a directory listing and a couple of small file operations per write, and writers of one family can no longer publish at the same time, so only use it where the order matters.
+*/
+export type Ordering = 'clock' | 'monotonic';
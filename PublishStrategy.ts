@@ -0,0 +1,21 @@
+/**
+ How a fully-written temp file is published under its final name, without ever overwriting an existing file.
+
+ - `'link'`: hard-link the temp file to the final name with `link()`, which fails if the name is taken. This is the gold standard: the final file appears atomically and complete, so consumers can never read a partial file, and if the writer dies at any point there is either no final file or a complete one. Requires a filesystem that supports hard links — FAT32/exFAT, many SMB/CIFS and FUSE mounts, and some locked-down systems don't, and `link()` then fails with EPERM, ENOTSUP, EXDEV, or similar.
+
+ - `'exclusive-create'`: create the final file exclusively (`O_EXCL`, which also fails if the name is taken), and copy the temp file's content into it. This works almost everywhere, and it still never overwrites an existing file, but consumers **lose the atomicity guarantees**: the final file exists, and is visible to consumers, *while* it is being filled in, so a consumer may read a partial file; and if the writer dies mid-copy, a truncated final file is left behind. (Also note that `O_EXCL` itself is not reliable on some ancient NFS implementations.) Consumers of such a directory need some other way to know a file is complete, e.g. waiting until its size stops changing.
+
+ - `'auto'` (the default): use `'link'`, but if `link()` fails because hard links are not supported in the output directory, fall back to `'exclusive-create'` (and remember that, so subsequent writes to that directory go straight to the fallback). You get the full guarantees wherever they are available, and consumers lose them as described above wherever they aren't.
+*/
+export type PublishStrategy = 'link' | 'exclusive-create' | 'auto';
+
+/**
+ The error codes with which `link()` fails when hard links are not supported (as opposed to, say, the file already existing, or the disk being full).
+ */
+export const LINK_UNSUPPORTED_ERROR_CODES: readonly string[] = [
+  'EPERM',
+  'ENOTSUP',
+  'EOPNOTSUPP',
+  'ENOSYS',
+  'EXDEV',
+];
@@ -0,0 +1,43 @@
+/**
+ Thrown by `writeNewFile()` when writing the file would break its `quota` (see `QuotaPolicy`) — right away, or, if the quota says to wait, once it has waited long enough without the consumers making room. Nothing was written (the temp file has already been removed).
+
+ @property limit Which limit it would have broken: `'maxFiles'`, `'maxBytes'` or `'minFreeBytes'`
+
+ @property actual What the directory would have held, with the new file (the number of files, or bytes), or, for `'minFreeBytes'`, how many bytes would have been left free
+
+ @property allowed The limit itself
+
+ @property directory The directory the quota applies to
+
+ @property proposedFilename The filename that was proposed to `writeNewFile()`
+*/
+export class QuotaExceededError extends Error
+{
+  override readonly name: string = 'QuotaExceededError';
+  readonly limit: 'maxFiles' | 'maxBytes' | 'minFreeBytes';
+  readonly actual: number;
+  readonly allowed: number;
+  readonly directory: string;
+  readonly proposedFilename: string;
+
+  constructor(
+    proposedFilename: string,
+    directory: string,
+    limit: 'maxFiles' | 'maxBytes' | 'minFreeBytes',
+    actual: number,
+    allowed: number,
+  )
+  {
+    const problem = limit === 'maxFiles'
+      ? `"${directory}" would hold ${actual} files`
+      : limit === 'maxBytes'
+      ? `"${directory}" would hold ${actual} bytes`
+      : `only ${actual} bytes would be left free for "${directory}"`;
+    super(`writeNewFile() did not write "${proposedFilename}": ${problem} (${limit}: ${allowed})`);
+    this.proposedFilename = proposedFilename;
+    this.directory = directory;
+    this.limit = limit;
+    this.actual = actual;
+    this.allowed = allowed;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ Limits on what the directory a file is written into may hold, for the `quota` option — so that when the consumer of a drop directory stalls, its producers stop before the disk is full, instead of taking the other services on the host down with them. Any combination can be given; a write that would break any of them is held back. They are checked before the file is staged, so that a write that can't go through doesn't fill up the disk with its temp file first (with the file's size, if it's known by then, i.e. unless it is streamed or transformed), and again before it is published.
+
+ With the `shard` option, the limits apply to the shard the file goes into, like everything else that works per directory.
+
+ Producers in several processes can share a quota: the limits are checked, and the file published, while holding a lock on the directory, so they can't all squeeze in the last file at once. To keep that cheap on large directories, the files aren't counted for every write: the writers keep a tally in a small file next to the files, named like a temp file (so consumers ignore it), and add each file they publish to it. Consumers don't tell the tally when they remove files, so it only errs on the high side, and before a write is held back, the directory is counted again. It is also counted again every `rescanInterval`, to catch files that other producers (ones without the quota) have added. So `maxFiles` and `maxBytes` only hold if all the producers use the same `quota` (and `tempFile`) options.
+
+ Applies to `writeNewFile()` and `createNewFileWriter()` writers (`writeNewFileSync()` and `writeNewFiles()` don't support it, and `tryCreateFile()` ignores it).
+
+ @property maxFiles At most this many files in the directory, counting the new one (but not temp files, or subdirectories)
+
+ @property maxBytes At most this many bytes in those files altogether, counting the new one
+
+ @property family Count only the file family of the proposed filename (see `listFileFamily()`) against `maxFiles` and `maxBytes`, instead of everything in the directory (default: `false`)
+
+ @property minFreeBytes Leave at least this many bytes free on the file system once the new file is in place. Checked with the `FileSystem`'s `statfs()`, so it must have one (`nodeFileSystem` does)
+
+ @property onExceeded `'throw'` (the default): throw a `QuotaExceededError` right away. `'wait'`: wait for the consumers to make room, checking again every `pollInterval`, and only throw once `maxWaitMs` has passed (or give up like any other write, when the `signal` or `timeoutMs` says so). Either way, nothing is published while the quota is exceeded
+
+ @property maxWaitMs How long `'wait'` waits, in milliseconds (default: as long as the `signal` and `timeoutMs` allow)
+
+ @property pollInterval How often `'wait'` checks again, in milliseconds (default: `1000`)
+
+ @property rescanInterval How old the tally may get before the directory is counted again, in milliseconds (default: `10_000`)
+*/
+export type QuotaPolicy = {
+  maxFiles?: number;
+  maxBytes?: number;
+  family?: boolean;
+  minFreeBytes?: number;
+  onExceeded?: 'throw' | 'wait';
+  maxWaitMs?: number;
+  pollInterval?: number;
+  rescanInterval?: number;
+};
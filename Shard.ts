@@ -0,0 +1,57 @@
+import { CONTROL_CHARACTER } from './controlCharacters.ts';
+
+/**
+ A function that returns the shard subdirectory for a write that happens at `date`, as a relative path like `'2024/12/22'`.
+*/
+export type ShardFunction = (date: Date) => string;
+
+/**
+ How `writeNewFile()` spreads files over date-based subdirectories of the output directory, so that no single directory ends up with millions of files in it.
+
+ Either a pattern, in which `YYYY`, `MM`, `DD`, `HH` and `mm` are replaced by the (zero-padded) year, month, day, hour and minute of the write, and `/` separates nested subdirectories — e.g. `'YYYY/MM/DD'` (→ `2024/12/22/`) or `'YYYY-MM-DD-HH'` (→ `2024-12-22-16/`) — or a `ShardFunction` of your own.
+
+ The time is taken once, when the write starts, in the same time zone as the date suffixes (see `SuffixFormat`). As long as the shard path is big-endian (the year first, then the month, and so on) and zero-padded, like the patterns above, the paths relative to the output directory sort in creation order just like the filenames do.
+*/
+export type Shard = string | ShardFunction;
+
+/**
+ Returns the shard subdirectory for a write at `date`, e.g. `'2024/12/22'` for the pattern `'YYYY/MM/DD'`.
+
+ @param date When the write happens
+
+ @param shard The pattern or function (see `Shard`)
+
+ @param options `timeZone`: `'local'` (the default) or `'utc'`
+
+ @returns The relative path of the shard subdirectory
+
+ @throws {TypeError} if the result is not a safe relative path: empty, absolute, or with empty, `.` or `..` segments, backslashes, or control characters
+*/
+export function formatShard(date: Date, shard: Shard, options: { timeZone?: 'local' | 'utc' } = {}): string
+{
+  let path: string;
+  if (typeof shard === 'function')
+  {
+    path = shard(date);
+  }
+  else
+  {
+    const utc = options.timeZone === 'utc';
+    const values: Record<string, number> = {
+      YYYY: utc ? date.getUTCFullYear() : date.getFullYear(),
+      MM: (utc ? date.getUTCMonth() : date.getMonth()) + 1,
+      DD: utc ? date.getUTCDate() : date.getDate(),
+      HH: utc ? date.getUTCHours() : date.getHours(),
+      mm: utc ? date.getUTCMinutes() : date.getMinutes(),
+    };
+    path = shard.replace(/YYYY|MM|DD|HH|mm/g, (token) => values[token].toString().padStart(token.length, '0'));
+  }
+
+  const unsafe = typeof path !== 'string' || path.includes('\\') || CONTROL_CHARACTER.test(path)
+    || path.split('/').some((segment) => segment === '' || segment === '.' || segment === '..');
+  if (unsafe)
+  {
+    throw new TypeError(`Invalid shard directory: ${JSON.stringify(path)} (expected a relative path like '2024/12/22')`);
+  }
+  return path;
+}
@@ -0,0 +1,56 @@
+import { formatDateForFilenameSuffix } from './formatDateForFilenameSuffix.ts';
+
+/**
+ How the `'date'` naming strategy formats the timestamp in the unique suffix.
+
+ @property style `'default'`: `2024-12-22-16-39-42`, or `'iso-basic'`: ISO 8601 basic format, like `20241222T163942Z` (in UTC) or `20241222T163942+0900` (in local time, with the UTC offset)
+
+ @property timeZone `'local'` (the default, for backwards compatibility) or `'utc'`. Use UTC if hosts in different timezones write to the same directory, or if you don't want DST changes to mess up the ordering.
+
+ @property precision `'seconds'` (the default) or `'milliseconds'`, which appends the milliseconds (`2024-12-22-16-39-42-173`, or `20241222T163942,173Z`)
+
+ Whatever the format, if the timestamp alone is already taken, a `+NNN` tiebreaker is appended: with seconds precision, that's the milliseconds at the time of the retry (e.g. `2024-12-22-16-39-42+173`, as always); with millisecond precision, it's a counter (`+001`, `+002`, ...). Either way, the timestamps sort lexicographically in creation order (as long as the clock doesn't go backwards, and for local time, nobody changes the timezone), and so do the tiebreakers within a timestamp. The one exception: a name with a tiebreaker sorts *before* the same timestamp without one, although it was written after it, because `+` comes before the `.` of the extension (`x~2024-12-22-16-39-42+001.txt` < `x~2024-12-22-16-39-42.txt`). If the exact order matters, sort with `parseFilenameSuffix()` (by timestamp, then tiebreaker, with no tiebreaker first), or use `ordering: 'monotonic'`, which always adds a tiebreaker (see `Ordering`).
+*/
+export type SuffixFormat = {
+  style?: 'default' | 'iso-basic';
+  timeZone?: 'local' | 'utc';
+  precision?: 'seconds' | 'milliseconds';
+};
+
+/**
+ Formats the timestamp part of a unique suffix (without the `~`, and without any tiebreaker).
+
+ @param date The time to format
+
+ @param format See `SuffixFormat` (default: `'2024-12-22-16-39-42'` style, local time, seconds precision)
+
+ @returns The formatted timestamp, like `'2024-12-22-16-39-42'` or `'20241222T163942Z'`
+*/
+export function formatSuffixTimestamp(date: Date, format: SuffixFormat = {}): string
+{
+  const { style = 'default', timeZone = 'local', precision = 'seconds' } = format;
+
+  if (style === 'default')
+  {
+    return formatDateForFilenameSuffix(date, '-', '-', { timeZone, precision });
+  }
+
+  // ISO basic is just the default format minus the punctuation, plus a time designator, fraction and zone:
+  const digits = formatDateForFilenameSuffix(date, '', '', { timeZone }).replace(/-/g, '');
+  const fraction = precision === 'milliseconds'
+    ? `,${date.getMilliseconds().toString().padStart(3, '0')}`
+    : '';
+  return `${digits.slice(0, 8)}T${digits.slice(8)}${fraction}${timeZone === 'utc' ? 'Z' : formatUtcOffset(date)}`;
+}
+
+/**
+ Returns the local UTC offset at `date` in ISO 8601 basic format, like `'+0900'` or `'-0500'`.
+ */
+function formatUtcOffset(date: Date): string
+{
+  const offset = -date.getTimezoneOffset();
+  const sign = offset < 0 ? '-' : '+';
+  const hours = Math.floor(Math.abs(offset) / 60).toString().padStart(2, '0');
+  const minutes = (Math.abs(offset) % 60).toString().padStart(2, '0');
+  return `${sign}${hours}${minutes}`;
+}
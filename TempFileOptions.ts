@@ -0,0 +1,103 @@
+import { join, parse } from '@std/path';
+import { CONTROL_CHARACTER } from './controlCharacters.ts';
+
+/**
+ The default prefix of the temp files written by `stageTempFile()` (and therefore by `tryCreateFile()` and `writeNewFile()`). Consumers watching the output directory must ignore the temp files — use `isTempFile()` or `tempFileGlobs()` rather than checking for the prefix yourself, so that you agree with the writers on the exact format even if they configure it (see `TempFileOptions`).
+*/
+export const TEMP_FILE_PREFIX = '.__temp__';
+
+/**
+ How the temp files are named, and where they are staged, for the `tempFile` option. A temp file's name is always the prefix, the name of the file it will become, a dot and a random UUID, and the suffix: `.__temp__report.json.0f8fad5b-d9cb-469f-a165-70867728950e` by default.
+
+ Whoever consumes the files has to ignore the temp files, so pass the same options to `isTempFile()` or `tempFileGlobs()` (or `claimNextFile()`, `watchNewFiles()` and `sweepStaleTempFiles()`) there.
+
+ @property prefix What the temp files' names start with (default: `'.__temp__'`, which also hides them from `ls` and most file browsers)
+
+ @property suffix What the temp files' names end with, e.g. `'.tmp'` or `'.part'` for tools that ignore files by extension (default: nothing)
+
+ @property directory A staging directory to write the temp files in, instead of next to the final file — e.g. so that a watcher of the output directory never sees them at all. It must be on the same file system as the output directory, since a temp file is published by hard-linking it to its final name, which only works within a file system; this is checked before every write, and if it isn't, the write fails, rather than quietly falling back to a non-atomic copy (default: the directory of the final file)
+*/
+export type TempFileOptions = {
+  prefix?: string;
+  suffix?: string;
+  directory?: string;
+};
+
+/**
+ What a temp file's name has between the name of the file it will become and the suffix: a dot, and a random UUID.
+ */
+const RANDOM_PART = /\.[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ The length of `RANDOM_PART`, in bytes.
+ */
+const RANDOM_PART_BYTES = 37;
+
+/**
+ Whether `name` (a filename, not a path) is a temp file written with these options — i.e. has exactly the format that `stageTempFile()` generates, so that nothing else is mistaken for one.
+
+ @param name The filename to check
+
+ @param options The `tempFile` option that the writers use (default: the default format)
+*/
+export function isTempFile(name: string, options: TempFileOptions = {}): boolean
+{
+  const { prefix = TEMP_FILE_PREFIX, suffix = '' } = options;
+  if (name.length <= prefix.length + RANDOM_PART_BYTES + suffix.length || !name.startsWith(prefix) || !name.endsWith(suffix))
+  {
+    return false;
+  }
+  return RANDOM_PART.test(name.slice(0, name.length - suffix.length));
+}
+
+/**
+ Returns globs that match the temp files written with these options, ready to use as ignore patterns: for rsync's `--exclude`, a `.gitignore`, chokidar's `ignored`, etc. — e.g. `['.__temp__*']` by default, or `['.__temp__*.part']` with a `suffix` of `'.part'`. (With a staging `directory`, the temp files never show up in the output directory in the first place, but the globs match them in the staging directory just the same.)
+
+ @param options The `tempFile` option that the writers use (default: the default format)
+*/
+export function tempFileGlobs(options: TempFileOptions = {}): string[]
+{
+  const { prefix = TEMP_FILE_PREFIX, suffix = '' } = options;
+  return [`${escapeGlob(prefix)}*${escapeGlob(suffix)}`];
+}
+
+/**
+ Returns the temp file path to stage the file that will be published as `path` at: in the staging directory (or else next to `path`), named as the `options` say, with a fresh random UUID (or the given one).
+
+ @throws {TypeError} if the options are invalid: the prefix or suffix contains a path separator or control characters, or both of them are empty without a staging directory, which would make temp files impossible to tell apart from anything else
+*/
+export function tempFilePath(path: string, options: TempFileOptions = {}, uuid: string = crypto.randomUUID()): string
+{
+  const { prefix = TEMP_FILE_PREFIX, suffix = '', directory } = options;
+  for (const [key, value] of [['prefix', prefix], ['suffix', suffix]])
+  {
+    if (/[/\\]/.test(value) || CONTROL_CHARACTER.test(value))
+    {
+      throw new TypeError(`Invalid tempFile.${key}: ${JSON.stringify(value)} (no path separators or control characters, please)`);
+    }
+  }
+  if (prefix === '' && suffix === '' && directory === undefined)
+  {
+    throw new TypeError('The tempFile option needs a prefix, a suffix, or a staging directory, or temp files would look like any other file');
+  }
+
+  const { dir, base } = parse(path);
+  return join(directory ?? dir, `${prefix}${base}.${uuid}${suffix}`);
+}
+
+/**
+ How many bytes the temp file's name has on top of the name of the file it will become, with these options.
+ */
+export function tempFileNameOverhead(options: TempFileOptions = {}): number
+{
+  const { prefix = TEMP_FILE_PREFIX, suffix = '' } = options;
+  return new TextEncoder().encode(prefix + suffix).byteLength + RANDOM_PART_BYTES;
+}
+
+/**
+ Escapes the characters that are special in globs (`*`, `?`, `[`, `]`, `{`, `}`, `\`).
+ */
+function escapeGlob(text: string): string
+{
+  return text.replace(/[*?[\]{}\\]/g, (char) => `\\${char}`);
+}
@@ -0,0 +1,97 @@
+import { WriteNewFileGaveUpError } from './WriteNewFileGaveUpError.ts';
+import type { WriteNewOptions } from './WriteNewOptions.ts';
+
+/**
+ Keeps track of the names one write has tried, and decides when it has to give up: when the caller's `signal` is aborted, the `timeoutMs` runs out, or `maxAttempts` names have been tried (see `WriteNewFileGaveUpError`). Every writer — async, sync, batch or fan-out — gives up the same way, so they all share this.
+ */
+export class WriteAttempts
+{
+  /**
+   The candidate paths that were tried, and found to be taken, in order
+   */
+  readonly paths: string[] = [];
+
+  /**
+   The caller's signal and the timeout, rolled into one, for whatever the write waits for (a sleep, a stream). Only the async writers have it: nothing can fire while the sync writer blocks the thread, so it goes by the deadline alone.
+   */
+  readonly signal?: AbortSignal;
+
+  private readonly deadline?: number;
+  private readonly timeoutSignal?: AbortSignal;
+
+  private constructor(
+    private readonly proposedFilename: string,
+    private readonly options: Pick<WriteNewOptions, 'signal' | 'timeoutMs' | 'maxAttempts'>,
+    withSignal: boolean,
+  )
+  {
+    if (options.timeoutMs !== undefined && withSignal)
+    {
+      this.timeoutSignal = AbortSignal.timeout(options.timeoutMs);
+    }
+    else if (options.timeoutMs !== undefined)
+    {
+      this.deadline = Date.now() + options.timeoutMs;
+    }
+    const signals = [options.signal, this.timeoutSignal].filter((signal) => signal !== undefined);
+    this.signal = withSignal && signals.length > 0 ? AbortSignal.any(signals) : undefined;
+  }
+
+  /**
+   Starts keeping track of an async write.
+   */
+  static start(proposedFilename: string, options: Pick<WriteNewOptions, 'signal' | 'timeoutMs' | 'maxAttempts'>): WriteAttempts
+  {
+    return new WriteAttempts(proposedFilename, options, true);
+  }
+
+  /**
+   Starts keeping track of a sync write, which checks the `timeoutMs` against `Date.now()` instead of a timer.
+   */
+  static startSync(proposedFilename: string, options: Pick<WriteNewOptions, 'signal' | 'timeoutMs' | 'maxAttempts'>): WriteAttempts
+  {
+    return new WriteAttempts(proposedFilename, options, false);
+  }
+
+  /**
+   Records that `path` was tried, and turned out to be taken.
+   */
+  tried(path: string): void
+  {
+    this.paths.push(path);
+  }
+
+  /**
+   Returns the appropriate `WriteNewFileGaveUpError` if we have to stop trying, or `undefined` if we can go on.
+   */
+  gaveUp(): WriteNewFileGaveUpError | undefined
+  {
+    const { signal, maxAttempts } = this.options;
+    if (signal?.aborted)
+    {
+      return new WriteNewFileGaveUpError(this.proposedFilename, 'aborted', [...this.paths], { cause: signal.reason });
+    }
+    if (this.timeoutSignal?.aborted || (this.deadline !== undefined && Date.now() >= this.deadline))
+    {
+      const cause = this.timeoutSignal?.aborted ? { cause: this.timeoutSignal.reason } : undefined;
+      return new WriteNewFileGaveUpError(this.proposedFilename, 'timeout', [...this.paths], cause);
+    }
+    if (maxAttempts !== undefined && this.paths.length >= maxAttempts)
+    {
+      return new WriteNewFileGaveUpError(this.proposedFilename, 'max-attempts', [...this.paths]);
+    }
+    return undefined;
+  }
+
+  /**
+   Throws the appropriate `WriteNewFileGaveUpError` if we have to stop trying
+   */
+  giveUpIfNecessary(): void
+  {
+    const error = this.gaveUp();
+    if (error)
+    {
+      throw error;
+    }
+  }
+}
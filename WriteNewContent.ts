@@ -0,0 +1,89 @@
+import type { Readable } from 'node:stream';
+
+/**
+ The content that `writeNewFile()` and `tryCreateFile()` can write. Strings are encoded as UTF-8, and everything else is written as-is.
+
+ The streaming forms (`ReadableStream<Uint8Array>`, `AsyncIterable<Uint8Array>`, or a Node.js `Readable`) are streamed straight into the temp file, chunk by chunk, so the whole payload never needs to be in memory. Remember that a stream can only be read once!
+*/
+export type WriteNewContent =
+  | string
+  | Uint8Array
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>
+  | Readable;
+
+/**
+ Yields the content as a sequence of `Uint8Array` chunks, whatever form it came in.
+
+ If a `signal` is passed, a `ReadableStream` is cancelled, and a Node.js `Readable` destroyed, as soon as it is aborted — even while waiting for a chunk that never comes. (Other async iterables can't be told to stop, so the caller has to stop waiting for them itself.)
+
+ @throws {TypeError} if `content` is not one of the supported `WriteNewContent` forms
+*/
+export async function* contentChunks(content: WriteNewContent, signal?: AbortSignal): AsyncGenerator<Uint8Array>
+{
+  if (typeof content === 'string')
+  {
+    yield new TextEncoder().encode(content);
+    return;
+  }
+
+  if (content instanceof Uint8Array)
+  {
+    yield content;
+    return;
+  }
+
+  if (content instanceof ReadableStream)
+  {
+    // Not every runtime's ReadableStream is async-iterable (and not every lib.d.ts says so even if it is), so do it the long way:
+    const reader = content.getReader();
+    const cancel = () => void reader.cancel(signal?.reason).catch(() => {});
+    signal?.addEventListener('abort', cancel, { once: true });
+    try
+    {
+      while (true)
+      {
+        const { done, value } = await reader.read();
+        if (done)
+        {
+          return;
+        }
+        yield value;
+      }
+    }
+    finally
+    {
+      signal?.removeEventListener('abort', cancel);
+      reader.releaseLock();
+    }
+  }
+
+  if (content && typeof content === 'object' && Symbol.asyncIterator in content)
+  {
+    // This covers Node's `Readable`, too — which yields Buffers (a Uint8Array subclass), or strings if somebody called setEncoding() on it
+    const destroy = 'destroy' in content && typeof content.destroy === 'function'
+      ? () => (content as Readable).destroy(signal?.reason)
+      : undefined;
+    if (destroy)
+    {
+      signal?.addEventListener('abort', destroy, { once: true });
+    }
+    try
+    {
+      for await (const chunk of content as AsyncIterable<Uint8Array | string>)
+      {
+        yield typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk;
+      }
+    }
+    finally
+    {
+      if (destroy)
+      {
+        signal?.removeEventListener('abort', destroy);
+      }
+    }
+    return;
+  }
+
+  throw new TypeError(`Unsupported content type: ${Object.prototype.toString.call(content)}`);
+}
@@ -0,0 +1,32 @@
+/**
+ Thrown by `writeNewFile()` when it stops looking for a unique filename before finding one: because its `signal` was aborted, its `timeoutMs` ran out, or it used up its `maxAttempts`. Nothing was written (any temp file has already been removed).
+
+ @property reason Why it gave up: `'aborted'`, `'timeout'`, or `'max-attempts'`
+
+ @property attemptedPaths Every candidate path that was tried (and found to be taken), in order
+
+ @property proposedFilename The filename that was proposed to `writeNewFile()`
+*/
+export class WriteNewFileGaveUpError extends Error
+{
+  override readonly name: string = 'WriteNewFileGaveUpError';
+  readonly reason: 'aborted' | 'timeout' | 'max-attempts';
+  readonly attemptedPaths: readonly string[];
+  readonly proposedFilename: string;
+
+  constructor(
+    proposedFilename: string,
+    reason: 'aborted' | 'timeout' | 'max-attempts',
+    attemptedPaths: readonly string[],
+    options?: { cause?: unknown },
+  )
+  {
+    const tried = attemptedPaths.length === 0
+      ? 'before trying any names'
+      : `after ${attemptedPaths.length} attempt(s): ${attemptedPaths.join(', ')}`;
+    super(`writeNewFile() gave up on "${proposedFilename}" (${reason}) ${tried}`, options);
+    this.proposedFilename = proposedFilename;
+    this.reason = reason;
+    this.attemptedPaths = attemptedPaths;
+  }
+}
@@ -0,0 +1,84 @@
+import type { WriteNewFileResult } from './WriteNewFileResult.ts';
+
+/**
+ Passed to the `onAttempt` hook whenever `writeNewFile()` tries a name.
+
+ @property proposedFilename The filename that was proposed to `writeNewFile()`
+
+ @property path The full path it is trying
+
+ @property attempt Which attempt this is, starting at `1` for the first name tried (usually the proposed filename itself)
+*/
+export type WriteAttemptEvent = {
+  proposedFilename: string;
+  path: string;
+  attempt: number;
+};
+
+/**
+ Passed to the `onCollision` hook whenever a name that `writeNewFile()` tried turned out to be taken.
+
+ @property reason `'exists'` if the file system said the name is taken, `'reserved'` if another `writeNewFile()` in this process was trying the same name at the same moment (so the file system wasn't even asked)
+*/
+export type WriteCollisionEvent = WriteAttemptEvent & {
+  reason: 'exists' | 'reserved';
+};
+
+/**
+ What every finished write (successful or not) reports to the `onPublished` and `onError` hooks.
+
+ @property proposedFilename The filename that was proposed to `writeNewFile()`
+
+ @property attempts How many names were tried
+
+ @property collisions How many of those were taken
+
+ @property sleptMs How long the write slept, waiting for the clock to move on (see `retryInterval`), in milliseconds
+
+ @property durationMs How long the whole write took, from the call to the end, in milliseconds
+*/
+export type WriteFinishedEvent = {
+  proposedFilename: string;
+  attempts: number;
+  collisions: number;
+  sleptMs: number;
+  durationMs: number;
+};
+
+/**
+ Passed to the `onPublished` hook when a write succeeds.
+
+ @property result What was written, and where (see `WriteNewFileResult`)
+*/
+export type WritePublishedEvent = WriteFinishedEvent & {
+  result: WriteNewFileResult;
+};
+
+/**
+ Passed to the `onError` hook when a write fails (and is about to throw `error`).
+
+ @property error What is about to be thrown
+*/
+export type WriteErrorEvent = WriteFinishedEvent & {
+  error: unknown;
+};
+
+/**
+ Callbacks that let you watch what `writeNewFile()` does: every name it tries, every collision, and how each write ends. Pass them in the options (they are part of `WriteNewOptions`), e.g. to log collisions, or to bridge them to your metrics or tracing library. For ready-made numbers, pass a `WriteNewFileStats` as the `stats` option instead (or as well).
+
+ The hooks are called synchronously, in the middle of the write, so keep them quick. Anything they throw is ignored: a broken logger should not break the writes it is logging. (`writeNewFiles()` doesn't call them.)
+
+ @property onAttempt Called before each name is tried (see `WriteAttemptEvent`)
+
+ @property onCollision Called when a name turns out to be taken (see `WriteCollisionEvent`)
+
+ @property onPublished Called when the write has succeeded, just before `writeNewFile()` returns (see `WritePublishedEvent`)
+
+ @property onError Called when the write has failed, just before `writeNewFile()` throws (see `WriteErrorEvent`)
+*/
+export type WriteNewFileHooks = {
+  onAttempt?: (event: WriteAttemptEvent) => void;
+  onCollision?: (event: WriteCollisionEvent) => void;
+  onPublished?: (event: WritePublishedEvent) => void;
+  onError?: (event: WriteErrorEvent) => void;
+};
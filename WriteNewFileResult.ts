@@ -0,0 +1,23 @@
+/**
+ What `writeNewFileWithResult()` did.
+
+ @property path The full path of the file: the newly written one, or, if the outcome is `'skipped-identical'`, the existing file with the same content
+
+ @property outcome What happened:
+  - `'created'`: a new file was written at `path` (which may have a unique suffix — compare it with `proposedPath`)
+  - `'replaced'`: the existing file at `path` was atomically replaced (only with `onExisting: 'replace'`)
+  - `'skipped-identical'`: nothing was written, because the file at `path` already has the same content (only with `onExisting: 'skip-if-identical'`)
+
+ @property proposedPath The full path that was proposed, i.e. the output directory plus the proposed filename
+
+ @property byteLength The size of the content, in bytes (as written, i.e. after any `transforms`)
+
+ @property sha256 The hex-encoded SHA-256 of the content as written, if the `integrity` option asked for it
+*/
+export type WriteNewFileResult = {
+  path: string;
+  outcome: 'created' | 'replaced' | 'skipped-identical';
+  proposedPath: string;
+  byteLength: number;
+  sha256?: string;
+};
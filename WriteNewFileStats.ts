@@ -0,0 +1,150 @@
+import type {
+  WriteAttemptEvent,
+  WriteCollisionEvent,
+  WriteErrorEvent,
+  WriteNewFileHooks,
+  WritePublishedEvent,
+} from './WriteNewFileHooks.ts';
+
+/**
+ The numbers a `WriteNewFileStats` has collected, as returned by `snapshot()`.
+
+ @property writes How many writes succeeded
+
+ @property errors How many writes failed
+
+ @property attempts How many names were tried, in all
+
+ @property collisions How many of those were taken
+
+ @property collisionRate `collisions / attempts` (or `0` before the first attempt)
+
+ @property meanAttemptsPerWrite How many names a finished write (successful or not) tried on average
+
+ @property maxAttemptsPerWrite The most names any one write tried
+
+ @property bytesWritten The total size of the files that were written (skipped writes don't count)
+
+ @property sleptMs How long the writes slept in all, waiting for the clock, in milliseconds
+
+ @property latencyMs Percentiles of how long the recent writes took, in milliseconds (`NaN` before the first one)
+*/
+export type WriteNewFileStatsSnapshot = {
+  writes: number;
+  errors: number;
+  attempts: number;
+  collisions: number;
+  collisionRate: number;
+  meanAttemptsPerWrite: number;
+  maxAttemptsPerWrite: number;
+  bytesWritten: number;
+  sleptMs: number;
+  latencyMs: { p50: number; p90: number; p99: number; max: number };
+};
+
+/**
+ Collects statistics about the writes it is passed to (via the `stats` option of `writeNewFile()`): attempts per write, collision rate, bytes written, time spent sleeping, and latency percentiles. Share one between all the writes to a directory to see how hot it gets:
+
+ ```ts
+ const stats = new WriteNewFileStats();
+ await writeNewFile('status.json', data, { outputDirectory: 'out', stats });
+ console.log(stats.snapshot()); // { writes: 1, collisionRate: 0, latencyMs: { p50: 0.8, ... }, ... }
+ ```
+
+ When the `stats` option isn't set, nothing is collected at all. When it is, collecting is just a few additions per write; the percentiles are only worked out when you ask for a `snapshot()`, from the most recent writes (`latencySamples` of them, 1024 by default). To feed another metrics library (OpenTelemetry, etc.), either read `snapshot()` from its observable instruments, or skip this class altogether and use the hooks (see `WriteNewFileHooks`), which this class itself implements.
+*/
+export class WriteNewFileStats implements Required<WriteNewFileHooks>
+{
+  private writes = 0;
+  private errors = 0;
+  private attempts = 0;
+  private collisions = 0;
+  private finishedAttempts = 0;
+  private maxAttemptsPerWrite = 0;
+  private bytesWritten = 0;
+  private sleptMs = 0;
+  private readonly latencies: number[] = [];
+  private nextLatency = 0;
+  private readonly latencySamples: number;
+
+  /**
+   @param options `latencySamples`: how many of the most recent writes the latency percentiles are computed from (default: `1024`)
+   */
+  constructor(options: { latencySamples?: number } = {})
+  {
+    this.latencySamples = options.latencySamples ?? 1024;
+    if (!(Number.isInteger(this.latencySamples) && this.latencySamples > 0))
+    {
+      throw new RangeError(`latencySamples must be a positive integer, not ${this.latencySamples}`);
+    }
+  }
+
+  onAttempt(_event: WriteAttemptEvent): void
+  {
+    this.attempts++;
+  }
+
+  onCollision(_event: WriteCollisionEvent): void
+  {
+    this.collisions++;
+  }
+
+  onPublished(event: WritePublishedEvent): void
+  {
+    this.writes++;
+    if (event.result.outcome !== 'skipped-identical')
+    {
+      this.bytesWritten += event.result.byteLength;
+    }
+    this.finished(event);
+  }
+
+  onError(event: WriteErrorEvent): void
+  {
+    this.errors++;
+    this.finished(event);
+  }
+
+  /**
+   Returns the numbers collected so far (see `WriteNewFileStatsSnapshot`).
+   */
+  snapshot(): WriteNewFileStatsSnapshot
+  {
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    const percentile = (p: number) => sorted.length === 0 ? NaN : sorted[Math.ceil(p * sorted.length) - 1];
+    const finished = this.writes + this.errors;
+    return {
+      writes: this.writes,
+      errors: this.errors,
+      attempts: this.attempts,
+      collisions: this.collisions,
+      collisionRate: this.attempts === 0 ? 0 : this.collisions / this.attempts,
+      meanAttemptsPerWrite: finished === 0 ? 0 : this.finishedAttempts / finished,
+      maxAttemptsPerWrite: this.maxAttemptsPerWrite,
+      bytesWritten: this.bytesWritten,
+      sleptMs: this.sleptMs,
+      latencyMs: { p50: percentile(0.5), p90: percentile(0.9), p99: percentile(0.99), max: percentile(1) },
+    };
+  }
+
+  /**
+   Starts over from zero.
+   */
+  reset(): void
+  {
+    this.writes = this.errors = this.attempts = this.collisions = 0;
+    this.finishedAttempts = this.maxAttemptsPerWrite = this.bytesWritten = this.sleptMs = 0;
+    this.latencies.length = 0;
+    this.nextLatency = 0;
+  }
+
+  private finished(event: WritePublishedEvent | WriteErrorEvent): void
+  {
+    this.finishedAttempts += event.attempts;
+    this.maxAttemptsPerWrite = Math.max(this.maxAttemptsPerWrite, event.attempts);
+    this.sleptMs += event.sleptMs;
+    // A ring buffer of the most recent latencies:
+    this.latencies[this.nextLatency] = event.durationMs;
+    this.nextLatency = (this.nextLatency + 1) % this.latencySamples;
+  }
+}
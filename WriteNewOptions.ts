@@ -1,13 +1,113 @@
 import { cwd } from 'node:process';
+import type { Clock } from './Clock.ts';
+import type { Durability } from './Durability.ts';
+import type { ContentTransform } from './ContentTransform.ts';
+import type { ExistingFilePolicy } from './ExistingFilePolicy.ts';
+import type { FanOutPolicy } from './FanOutPolicy.ts';
+import type { FileAttributes } from './FileAttributes.ts';
+import type { FilenamePolicy } from './FilenamePolicy.ts';
+import type { FileSystem } from './FileSystem.ts';
+import type { Integrity } from './Integrity.ts';
+import type { NamingStrategy } from './NamingStrategy.ts';
+import type { Ordering } from './Ordering.ts';
+import type { RetentionPolicy } from './pruneFamily.ts';
+import type { PublishStrategy } from './PublishStrategy.ts';
+import type { QuotaPolicy } from './QuotaPolicy.ts';
+import type { Shard } from './Shard.ts';
+import type { SuffixFormat } from './SuffixFormat.ts';
+import type { TempFileOptions } from './TempFileOptions.ts';
+import type { WriteNewFileHooks } from './WriteNewFileHooks.ts';
+import type { WriteNewFileStats } from './WriteNewFileStats.ts';
 
 /**
- Options for writing new files. Currently just lets you set the output directory, with more options possibly, maybe, potentially coming in *el futuro* (e.g. a custom unique-filename-generator function).
+ Options for writing new files: where to write them, how to come up with unique names for them, how (and how durably) to publish them, and what permissions, etc. they end up with. Everything except `outputDirectory` is optional, with defaults that give you the original `writeNewFile()` behavior.
 
  @property outputDirectory Where to write the files (defaults to current working directory)
+
+ @property outputDirectories Several directories to write the same file to, for `writeNewFileToAll()`, which returns a result per directory (the other writers write to the `outputDirectory` only, and throw a `TypeError` if this is set)
+
+ @property fanOut How `writeNewFileToAll()` writes to the `outputDirectories`: with each copy named independently (the default) or all with the same suffix, and best-effort (the default) or all-or-nothing (see `FanOutPolicy`)
+
+ @property shard Writes each file into a subdirectory of the output directory named after the time of the write, like `'YYYY/MM/DD'` (→ `2024/12/22/`) or `'YYYY-MM-DD-HH'`, creating it if necessary. The returned path includes it, and so does everything that works per directory: the unique suffix, `onExisting`, and `retention` all apply within the shard (see `Shard`)
+
+ @property filenamePolicy What to do with a proposed filename that isn't safe to use — one that contains a path separator or control characters, is a reserved name, or is too long to leave room for the suffix: `'reject'` (the default) throws an `InvalidFilenameError`, `'sanitize'` fixes it (see `FilenamePolicy` and `checkProposedFilename()`)
+
+ @property namingStrategy How to generate a unique filename when the proposed one is taken: `'date'` (the default), `'counter'`, `'ulid'`, `'content-hash'`, or your own function (see `NamingStrategy`)
+
+ @property suffixFormat How the `'date'` naming strategy formats its timestamps: local time or UTC, `2024-12-22-16-39-42` or ISO basic (`20241222T163942Z`), seconds or milliseconds (see `SuffixFormat`). Default: local time, `2024-12-22-16-39-42`, seconds. Use `parseFilenameSuffix()` to read them back.
+
+ @property ordering `'clock'` (the default) names files after the current time, so they sort in creation order as long as the clock doesn't go back. `'monotonic'` guarantees that every new name sorts after every name already in the family, even across processes and whatever the clock does, by having the writers of a family take turns (see `Ordering`)
+
+ @property publishStrategy How to publish the finished temp file under its final name: `'link'`, `'exclusive-create'`, or `'auto'` (the default), which uses `'link'` but falls back to `'exclusive-create'` on filesystems without hard links. The fallback does NOT give consumers the same atomicity guarantees — see `PublishStrategy` for exactly what is lost.
+
+ @property durability Whether to `fsync()` the file (`'file'`) or the file and its directory (`'file+directory'`) before returning, so that the returned path survives a power loss. Default: `'none'`, which is much faster and still atomic, just not durable (see `Durability`)
+
+ @property transforms Steps to run the content through before it is written, in order, e.g. `['gzip']` — each one may append an extension to the proposed filename (`'report.json'` → `'report.json.gz'`). Default: none (see `ContentTransform`)
+
+ @property integrity Whether to publish the file's SHA-256 for consumers to check with `verifyFile()`: `'none'` (the default), `'sidecar'` (a `<filename>.sha256` file, published right after the file), or `'suffix'` (the digest is the file's suffix). See `Integrity`
+
+ @property mode The new file's permission bits, e.g. `0o640` or `'640'` (default: whatever the umask gives you). Like `uid`, `gid` and `mtime`, this is applied to the temp file *before* it is published, so consumers never see the file with the wrong permissions, not even briefly (see `FileAttributes`)
+
+ @property uid The new file's owning user ID
+
+ @property gid The new file's owning group ID
+
+ @property mtime The new file's modification time (default: whenever it was written)
+
+ @property onExisting What to do if a file with the proposed filename already exists: `'suffix'` (the default) writes a new file with a unique suffix, `'fail'` throws a `FileExistsError`, `'replace'` atomically replaces it, and `'skip-if-identical'` returns the existing file's path if it (or one of its suffixed siblings) has the same content (see `ExistingFilePolicy`)
+
+ @property signal Aborts the write: `writeNewFile()` stops (between attempts, or between chunks of streaming content), cleans up, and throws a `WriteNewFileGaveUpError`
+
+ @property timeoutMs Gives up (with a `WriteNewFileGaveUpError`) if no file has been written after this many milliseconds
+
+ @property maxAttempts Gives up (with a `WriteNewFileGaveUpError`) after trying this many names, counting the proposed filename itself. Default: no limit
+
+ @property retryInterval How long the `'date'` naming strategy waits for the clock to move on when it has used up all the `+SSS` tiebreakers for the current timestamp, in milliseconds (default: `50`)
+
+ @property tempFile How to name the temp files (a prefix and/or suffix), and optionally a staging directory for them on the same file system. Default: `.__temp__<name>.<uuid>`, next to the final file. Consumers have to ignore the temp files, so give them the same options for `isTempFile()` or `tempFileGlobs()` (see `TempFileOptions`)
+
+ @property fileSystem Where to write the files (default: `nodeFileSystem`, i.e. the real disk). Pass a `MemoryFileSystem` to test your producers without touching the disk, including forced collisions (see `FileSystem`)
+
+ @property clock Where to get the time from, and how to wait between attempts (default: `systemClock`). Pass your own to test second boundaries and clock rollovers without waiting for them. (`timeoutMs` always uses the real clock.) See `Clock`
+
+ @property retention If set, after each successful write, older files of the same family (the proposed filename and its suffixed siblings) are pruned according to this policy: keep the last N, a maximum age, and/or a maximum total size (see `RetentionPolicy` and `pruneFamily()`)
+
+ @property quota Limits on how many files (or bytes) the directory may hold, and how much free space must be left, for when the consumers fall behind: a write that would break them throws a `QuotaExceededError`, or waits for room (see `QuotaPolicy`)
+
+ @property onAttempt Called before each name is tried. Like `onCollision`, `onPublished` and `onError`, this lets you watch what the write does, e.g. to log it (see `WriteNewFileHooks`)
+
+ @property onCollision Called when a name turns out to be taken
+
+ @property onPublished Called when the write has succeeded
+
+ @property onError Called when the write has failed
+
+ @property stats Collects attempts per write, the collision rate, bytes written and latency percentiles — share one `WriteNewFileStats` between many writes, and read its `snapshot()` (default: nothing is collected)
 */
-export type WriteNewOptions = {
+export type WriteNewOptions = FileAttributes & WriteNewFileHooks & {
   outputDirectory: string;
-  // mode?: string, // perhaps one day
+  outputDirectories?: readonly string[];
+  fanOut?: FanOutPolicy;
+  shard?: Shard;
+  filenamePolicy?: FilenamePolicy;
+  namingStrategy?: NamingStrategy;
+  suffixFormat?: SuffixFormat;
+  ordering?: Ordering;
+  publishStrategy?: PublishStrategy;
+  durability?: Durability;
+  transforms?: ContentTransform[];
+  integrity?: Integrity;
+  onExisting?: ExistingFilePolicy;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxAttempts?: number;
+  retryInterval?: number;
+  tempFile?: TempFileOptions;
+  fileSystem?: FileSystem;
+  clock?: Clock;
+  retention?: RetentionPolicy;
+  quota?: QuotaPolicy;
+  stats?: WriteNewFileStats;
 };
 
 /**
@@ -46,6 +146,8 @@ class WriteNewOptionsDefaults
 
 /**
  Configuration object for `writeNewFile()`. Access default options via `WriteNewOptions.default`. You can also set the default options for your own app so that they needn't be passed to each call to `writeNewFile()`. (Useful if your app only writes to a single directory, for example.)
+
+ The default is shared by the whole process, though, so if more than one part of it (a library, a test...) wants its own, give each of them a writer from `createNewFileWriter()` instead.
 */
 export const WriteNewOptions: WriteNewOptions & { default: WriteNewOptions } = {
   get default(): WriteNewOptions
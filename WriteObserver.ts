@@ -0,0 +1,90 @@
+import type { WriteFinishedEvent, WriteNewFileHooks } from './WriteNewFileHooks.ts';
+import type { WriteNewFileResult } from './WriteNewFileResult.ts';
+import type { WriteNewFileStats } from './WriteNewFileStats.ts';
+
+/**
+ Keeps count of what one `writeNewFile()` call does, and reports it to the hooks and the stats collector (see `WriteNewFileHooks` and `WriteNewFileStats`). Only created if there is anybody to report to, so that writes without hooks pay nothing for them.
+ */
+export class WriteObserver
+{
+  private attempts = 0;
+  private collisions = 0;
+  private sleptMs = 0;
+  private readonly startedAt = performance.now();
+
+  private constructor(
+    private readonly proposedFilename: string,
+    private readonly hooks: WriteNewFileHooks[],
+  )
+  {}
+
+  /**
+   Returns an observer for a write with these options, or `undefined` if there are no hooks and no `stats`.
+   */
+  static create(proposedFilename: string, options: WriteNewFileHooks & { stats?: WriteNewFileStats }): WriteObserver | undefined
+  {
+    const { onAttempt, onCollision, onPublished, onError, stats } = options;
+    const hooks = [
+      ...(onAttempt || onCollision || onPublished || onError ? [{ onAttempt, onCollision, onPublished, onError }] : []),
+      ...(stats ? [stats] : []),
+    ];
+    return hooks.length > 0 ? new WriteObserver(proposedFilename, hooks) : undefined;
+  }
+
+  attempt(path: string): void
+  {
+    this.attempts++;
+    const event = { proposedFilename: this.proposedFilename, path, attempt: this.attempts };
+    this.notify((hooks) => hooks.onAttempt?.(event));
+  }
+
+  collision(path: string, reason: 'exists' | 'reserved'): void
+  {
+    this.collisions++;
+    const event = { proposedFilename: this.proposedFilename, path, attempt: this.attempts, reason };
+    this.notify((hooks) => hooks.onCollision?.(event));
+  }
+
+  slept(ms: number): void
+  {
+    this.sleptMs += ms;
+  }
+
+  published(result: WriteNewFileResult): void
+  {
+    const event = { ...this.finished(), result };
+    this.notify((hooks) => hooks.onPublished?.(event));
+  }
+
+  failed(error: unknown): void
+  {
+    const event = { ...this.finished(), error };
+    this.notify((hooks) => hooks.onError?.(event));
+  }
+
+  private finished(): WriteFinishedEvent
+  {
+    return {
+      proposedFilename: this.proposedFilename,
+      attempts: this.attempts,
+      collisions: this.collisions,
+      sleptMs: this.sleptMs,
+      durationMs: performance.now() - this.startedAt,
+    };
+  }
+
+  private notify(call: (hooks: WriteNewFileHooks) => void): void
+  {
+    for (const hooks of this.hooks)
+    {
+      try
+      {
+        call(hooks);
+      }
+      catch
+      {
+        // A hook's problem, not the write's
+      }
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import type { ParsedPath } from '@std/path';
+import { transformedFilename } from './ContentTransform.ts';
+import type { FamilyReservations } from './FamilyReservations.ts';
+import { checkProposedFilename } from './FilenamePolicy.ts';
+import {
+  buildCandidateFilename,
+  isDateTiebreakerExhausted,
+  type NamingContext,
+  type NamingStrategy,
+} from './NamingStrategy.ts';
+import type { WriteNewOptions } from './WriteNewOptions.ts';
+
+/**
+ The room that the `'suffix'` integrity mode needs for its suffix: `~`, the 64 hex characters of the digest, and a `+N` tiebreaker.
+ */
+const SHA256_SUFFIX_BYTES = 72;
+
+/**
+ Returns the filename to write instead of `proposedFilename`: with the extensions of the `transforms`, and checked (or sanitized) according to the `filenamePolicy`, leaving enough room for the suffix (and the temp file's name).
+
+ @throws {InvalidFilenameError} see `checkProposedFilename()`
+ */
+export function resolveProposedFilename(proposedFilename: string, options: WriteNewOptions): string
+{
+  return checkProposedFilename(
+    transformedFilename(proposedFilename, options.transforms ?? []),
+    options.filenamePolicy ?? 'reject',
+    options.integrity === 'suffix' ? SHA256_SUFFIX_BYTES : undefined,
+    options.tempFile,
+  );
+}
+
+/**
+ Returns the first name to try: the proposed filename itself, or, with the digest in the suffix (see `Integrity`), the name with the digest.
+ */
+export function firstCandidateFilename(parsed: ParsedPath, options: WriteNewOptions, sha256: string | undefined): string
+{
+  return options.integrity === 'suffix'
+    ? buildCandidateFilename('content-hash', parsed, { attempt: 1, now: new Date(), contentHash: sha256 })
+    : parsed.base;
+}
+
+/**
+ Returns the naming strategy for the names after the first one, and the content hash it needs (if any).
+ */
+export function candidateStrategy(
+  options: WriteNewOptions,
+  sha256: string | undefined,
+): { strategy: NamingStrategy; contentHash?: string; firstAttempt: number }
+{
+  return options.integrity === 'suffix'
+    // (The digest suffix already had its first attempt as the first name.)
+    ? { strategy: 'content-hash', contentHash: sha256, firstAttempt: 2 }
+    : { strategy: options.namingStrategy ?? 'date', contentHash: sha256?.slice(0, 16), firstAttempt: 1 };
+}
+
+/**
+ Comes up with the next candidate filename (for `writeNewFile()` and `writeNewFileSync()` alike, so that they can't drift apart), continuing from whatever the other writers of the family in this process have handed out (see `FamilyReservations`), and records it for them. Returns `undefined` if the `'date'` strategy has run out of tiebreakers for `context.now`, in which case the caller has to wait for the clock to move on, and ask again.
+
+ For the `'counter'` strategy, `reservations.highestCounter` must already be set (from the directory).
+ */
+export function nextCandidateFilename(
+  reservations: FamilyReservations,
+  strategy: NamingStrategy,
+  parsed: ParsedPath,
+  context: Omit<NamingContext, 'previous' | 'highestCounter'>,
+): string | undefined
+{
+  const fullContext: NamingContext = {
+    ...context,
+    // The counter strategy counts on from the highest counter any writer in this process has handed out:
+    attempt: strategy === 'counter' ? 1 : context.attempt,
+    previous: reservations.previous,
+    highestCounter: reservations.highestCounter,
+  };
+  if (strategy === 'date' && isDateTiebreakerExhausted(parsed, fullContext))
+  {
+    return undefined;
+  }
+
+  const candidateFilename = buildCandidateFilename(strategy, parsed, fullContext);
+  if (strategy === 'date')
+  {
+    reservations.previous = candidateFilename;
+  }
+  else if (strategy === 'counter')
+  {
+    reservations.highestCounter = (reservations.highestCounter ?? 0) + 1;
+  }
+  return candidateFilename;
+}
@@ -0,0 +1,215 @@
+import { join } from '@std/path';
+import { mkdirSync, statSync } from 'node:fs';
+import type { Clock } from './Clock.ts';
+import type { FileSystem, FileSystemStats } from './FileSystem.ts';
+import { formatShard, type Shard } from './Shard.ts';
+import type { WriteNewOptions } from './WriteNewOptions.ts';
+
+/**
+ Checks the output directory of a write, makes its shard subdirectory (if the `shard` option asks for one), and checks the staging directory of the `tempFile` option against it (if there is one). Returns the directory to write into: the shard, or else the output directory itself.
+ */
+export async function prepareOutputDirectory(
+  options: Pick<WriteNewOptions, 'outputDirectory' | 'shard' | 'suffixFormat' | 'tempFile'>,
+  clock: Clock,
+  fileSystem: FileSystem,
+): Promise<string>
+{
+  await checkOutputDirectory(options.outputDirectory, fileSystem);
+  // The temp file is staged in the shard, not the output directory, since link() only works within a file system (and rename() is only atomic within one):
+  const directory = options.shard === undefined
+    ? options.outputDirectory
+    : await makeShardDirectory(options.outputDirectory, options.shard, clock.now(), options.suffixFormat?.timeZone, fileSystem);
+  if (options.tempFile?.directory !== undefined)
+  {
+    await checkTempFileDirectory(options.tempFile.directory, directory, fileSystem);
+  }
+  return directory;
+}
+
+/**
+ Exactly like `prepareOutputDirectory()`, but synchronous, on the real disk.
+ */
+export function prepareOutputDirectorySync(
+  options: Pick<WriteNewOptions, 'outputDirectory' | 'shard' | 'suffixFormat' | 'tempFile'>,
+  clock: Clock,
+): string
+{
+  checkOutputDirectorySync(options.outputDirectory);
+  const directory = options.shard === undefined
+    ? options.outputDirectory
+    : makeShardDirectorySync(options.outputDirectory, options.shard, clock.now(), options.suffixFormat?.timeZone);
+  if (options.tempFile?.directory !== undefined)
+  {
+    checkTempFileDirectorySync(options.tempFile.directory, directory);
+  }
+  return directory;
+}
+
+/**
+ Throws a helpful error if `outputDirectory` doesn't exist, or isn't a directory. (Just a `stat()`, which stays cheap however many files are in there.)
+ */
+export async function checkOutputDirectory(outputDirectory: string, fileSystem: FileSystem): Promise<void>
+{
+  let isDirectory: boolean;
+  try
+  {
+    // We do this check here instead of in `tryCreateFile()` because we don't want to slow down the main loop to throw a slightly better error message.
+    isDirectory = (await fileSystem.stat(outputDirectory)).isDirectory();
+  }
+  catch (error: unknown)
+  {
+    throw outputDirectoryError(outputDirectory, error);
+  }
+  if (!isDirectory)
+  {
+    throw notADirectoryError(outputDirectory);
+  }
+}
+
+/**
+ Exactly like `checkOutputDirectory()`, but synchronous, on the real disk.
+ */
+export function checkOutputDirectorySync(outputDirectory: string): void
+{
+  let isDirectory: boolean;
+  try
+  {
+    isDirectory = statSync(outputDirectory).isDirectory();
+  }
+  catch (error: unknown)
+  {
+    throw outputDirectoryError(outputDirectory, error);
+  }
+  if (!isDirectory)
+  {
+    throw notADirectoryError(outputDirectory);
+  }
+}
+
+/**
+ Throws a helpful error if the staging directory of the `tempFile` option doesn't exist, isn't a directory, or isn't on the same file system as `directory` (where the files are published), in which case `link()` would fail with `EXDEV` — and `publishStrategy: 'auto'` would quietly fall back to copying, which is not what anybody who set up a staging directory wants. (The last check needs a `dev` from `FileSystem.stat()`, which the real disk always has.)
+ */
+export async function checkTempFileDirectory(
+  tempFileDirectory: string,
+  directory: string,
+  fileSystem: FileSystem,
+): Promise<void>
+{
+  let stats: [FileSystemStats, FileSystemStats];
+  try
+  {
+    stats = await Promise.all([fileSystem.stat(tempFileDirectory), fileSystem.stat(directory)]);
+  }
+  catch (error: unknown)
+  {
+    throw tempFileDirectoryError(tempFileDirectory, error);
+  }
+  checkSameFileSystem(tempFileDirectory, directory, ...stats);
+}
+
+/**
+ Exactly like `checkTempFileDirectory()`, but synchronous, on the real disk.
+ */
+export function checkTempFileDirectorySync(tempFileDirectory: string, directory: string): void
+{
+  let stats: [FileSystemStats, FileSystemStats];
+  try
+  {
+    stats = [statSync(tempFileDirectory), statSync(directory)];
+  }
+  catch (error: unknown)
+  {
+    throw tempFileDirectoryError(tempFileDirectory, error);
+  }
+  checkSameFileSystem(tempFileDirectory, directory, ...stats);
+}
+
+/**
+ The checks of `checkTempFileDirectory()` that come after the `stat()`s
+ */
+function checkSameFileSystem(
+  tempFileDirectory: string,
+  directory: string,
+  tempFileDirectoryStats: FileSystemStats,
+  directoryStats: FileSystemStats,
+): void
+{
+  if (!tempFileDirectoryStats.isDirectory())
+  {
+    throw new Error(`NobodyCannaCrossIt: The temp file directory "${tempFileDirectory}" is not a directory.`);
+  }
+  if (
+    tempFileDirectoryStats.dev !== undefined && directoryStats.dev !== undefined
+    && tempFileDirectoryStats.dev !== directoryStats.dev
+  )
+  {
+    throw new Error(
+      `NobodyCannaCrossIt: The temp file directory "${tempFileDirectory}" is not on the same file system as "${directory}", so files can't be linked from one to the other.`,
+    );
+  }
+}
+
+/**
+ Returns the error to throw when `stat()`-ing the staging directory (or the output directory along with it) failed with `error`.
+ */
+function tempFileDirectoryError(tempFileDirectory: string, error: unknown): unknown
+{
+  if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT')
+  {
+    return new Error(`NobodyCannaCrossIt: The temp file directory "${tempFileDirectory}" does not exist.`, { cause: error });
+  }
+  return error;
+}
+
+/**
+ Returns the error to throw when the output directory turns out to be something else. It has the `code` that the file system would have used (`ENOTDIR`), so that callers can tell it apart from other errors without parsing the message.
+ */
+function notADirectoryError(outputDirectory: string): Error
+{
+  return Object.assign(new Error(`NobodyCannaCrossIt: The output path "${outputDirectory}" is not a directory.`), {
+    code: 'ENOTDIR',
+  });
+}
+
+/**
+ Returns the error to throw when `stat()`-ing the output directory failed with `error`.
+ */
+function outputDirectoryError(outputDirectory: string, error: unknown): unknown
+{
+  if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT')
+  {
+    return new Error(`NobodyCannaCrossIt: The output directory "${outputDirectory}" does not exist.`, { cause: error });
+  }
+  return error;
+}
+
+/**
+ Creates the shard subdirectory of `outputDirectory` for a write at `date`, if it doesn't exist yet, and returns its path. Creating it is race-free: a `recursive` `makeDirectory()` doesn't mind if another process (or writer) creates the same directory at the same moment.
+ */
+export async function makeShardDirectory(
+  outputDirectory: string,
+  shard: Shard,
+  date: Date,
+  timeZone: 'local' | 'utc' | undefined,
+  fileSystem: FileSystem,
+): Promise<string>
+{
+  const directory = join(outputDirectory, formatShard(date, shard, { timeZone }));
+  await fileSystem.makeDirectory(directory, { recursive: true });
+  return directory;
+}
+
+/**
+ Exactly like `makeShardDirectory()`, but synchronous, on the real disk.
+ */
+export function makeShardDirectorySync(
+  outputDirectory: string,
+  shard: Shard,
+  date: Date,
+  timeZone: 'local' | 'utc' | undefined,
+): string
+{
+  const directory = join(outputDirectory, formatShard(date, shard, { timeZone }));
+  mkdirSync(directory, { recursive: true });
+  return directory;
+}
@@ -0,0 +1,132 @@
+import { assert, assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { test } from "node:test";
+
+import { claimNextFile, listNewFiles } from "./claimNextFile.ts";
+import { createTestDir } from "./createTestDir.ts";
+import { watchNewFiles } from "./watchNewFiles.ts";
+import { writeNewFile } from "./writeNewFile.ts";
+import { writeNewFiles } from "./writeNewFiles.ts";
+
+/**
+ Temp files and directories are skipped, and suffixed files come out in suffix order even if their names would sort differently.
+ */
+test("listNewFiles: creation order, no temp files", async () => {
+  const dir = createTestDir("list-new-files");
+  writeFileSync(join(dir, "b~2024-12-22-16-39-42+225.txt"), "3");
+  writeFileSync(join(dir, "a~2024-12-22-16-39-42+173.txt"), "2");
+  writeFileSync(join(dir, "c~2024-12-22-16-39-42.txt"), "1");
+  writeFileSync(join(dir, ".__temp__d.txt.1234"), "nope");
+  mkdirSync(join(dir, "processing"));
+
+  assertEquals(await listNewFiles(dir), [
+    "c~2024-12-22-16-39-42.txt",
+    "a~2024-12-22-16-39-42+173.txt",
+    "b~2024-12-22-16-39-42+225.txt",
+  ]);
+});
+
+/**
+ The `.sha256` sidecars and the `.commit` markers that the writers put next to the files aren't handed out as files of their own, unless asked for.
+ */
+test("claimNextFile: skips sidecars and commit markers", async () => {
+  const dir = createTestDir("claim-companions");
+  await writeNewFile("report.json", "{}", { outputDirectory: dir, integrity: "sidecar" });
+  await writeNewFiles([{ proposedFilename: "data.csv", content: "a,b\n" }], { outputDirectory: dir });
+  assertEquals(readdirSync(dir).sort(), ["data.commit", "data.csv", "report.json", "report.json.sha256"]);
+
+  assertEquals((await listNewFiles(dir)).sort(), ["data.csv", "report.json"]);
+  assertEquals((await listNewFiles(dir, undefined, "include")).length, 4);
+
+  const claimed = [await claimNextFile(dir), await claimNextFile(dir), await claimNextFile(dir)];
+  assertEquals(claimed.map((c) => c?.name).sort(), ["data.csv", "report.json", undefined]);
+  assertEquals(readdirSync(dir).sort(), ["data.commit", "processing", "report.json.sha256"]);
+  assert(await claimNextFile(dir, { companionFiles: "include" }) !== undefined);
+});
+
+/**
+ Two consumers racing for the same files never both get the same one, and ack/nack do what they say.
+ */
+test("claimNextFile: exclusive claims, ack and nack", async () => {
+  const dir = createTestDir("claim");
+  const archive = join(dir, "archive");
+  for (let i = 0; i < 4; i++) {
+    await writeNewFile("job.json", `{"job":${i}}`, { outputDirectory: dir, namingStrategy: "counter" });
+  }
+
+  const claims = await Promise.all([
+    claimNextFile(dir),
+    claimNextFile(dir),
+    claimNextFile(dir),
+  ]);
+  const names = claims.map((c) => c?.name);
+  assertEquals(new Set(names).size, claims.filter((c) => c !== undefined).length);
+
+  for (const claim of claims) {
+    if (!claim) continue;
+    assert(existsSync(claim.path));
+    assert(!existsSync(join(dir, claim.name)));
+  }
+
+  const [first, second, third] = claims;
+  assert(first && second);
+  await first.ack();
+  assert(!existsSync(first.path));
+
+  const archived = await second.ack({ archiveDirectory: archive });
+  assert(archived && existsSync(archived));
+  assertEquals(readdirSync(archive), [second.name]);
+
+  if (third) {
+    const putBack = await third.nack();
+    assertEquals(putBack, join(dir, third.name));
+    assert(existsSync(putBack));
+  }
+
+  assertEquals(readdirSync(join(dir, "processing")), []);
+});
+
+/**
+ A file left in `processing/` by a claim that was never acked doesn't keep a newer file with the same name from being claimed.
+ */
+test("claimNextFile: leftover claim with the same name", async () => {
+  const dir = createTestDir("leftover-claim");
+  mkdirSync(join(dir, "processing"));
+  writeFileSync(join(dir, "processing", "job.json"), "old");
+  writeFileSync(join(dir, "job.json"), "new");
+
+  const claim = await claimNextFile(dir);
+  assert(claim);
+  assertEquals(claim.name, "job.json");
+  assertEquals(readFileSync(claim.path, "utf-8"), "new");
+  assert(!existsSync(join(dir, "job.json")));
+  assertEquals(readFileSync(join(dir, "processing", "job.json"), "utf-8"), "old");
+  await claim.ack();
+  assertEquals(await claimNextFile(dir), undefined);
+});
+
+/**
+ `watchNewFiles()` yields files that show up while it is watching, and stops when aborted.
+ */
+test("watchNewFiles: yields new files until aborted", async () => {
+  const dir = createTestDir("watch");
+  const controller = new AbortController();
+  const seen: string[] = [];
+
+  const consumer = (async () => {
+    for await (const file of watchNewFiles(dir, { signal: controller.signal, pollInterval: 50 })) {
+      seen.push(readFileSync(file.path, "utf-8"));
+      await file.ack();
+      if (seen.length === 3) controller.abort();
+    }
+  })();
+
+  await writeNewFile("event.txt", "one", { outputDirectory: dir });
+  await writeNewFile("event.txt", "two", { outputDirectory: dir });
+  await writeNewFile("event.txt", "three", { outputDirectory: dir });
+  await consumer;
+
+  assertEquals(seen.sort(), ["one", "three", "two"]);
+  assertEquals(readdirSync(dir), ["processing"]);
+});
@@ -0,0 +1,276 @@
+import { join } from '@std/path';
+import { link, mkdir, readdir, stat, unlink } from 'node:fs/promises';
+import { generateUlid } from './generateUlid.ts';
+import { SHA256_SIDECAR_EXTENSION } from './Integrity.ts';
+import { parseFilenameSuffix } from './parseFilenameSuffix.ts';
+import { isTempFile, TEMP_FILE_PREFIX, type TempFileOptions } from './TempFileOptions.ts';
+
+/**
+ Options for `claimNextFile()` and `watchNewFiles()`.
+
+ @property processingDirectory Where claimed files are moved to while they are being processed (default: a `processing` subdirectory of the watched directory). Must be on the same filesystem as the watched directory, because claiming is done with a hard link.
+
+ @property tempFile The `tempFile` option that the writers use, if they name their temp files differently (see `TempFileOptions`), so that those are skipped
+
+ @property companionFiles What to do with the files that the writers write alongside the real ones: the `.sha256` sidecars of the `'sidecar'` integrity mode, and the `.commit` markers of `writeNewFiles()` (see `isCompanionFile()`). `'skip'` (the default) leaves them where they are, since they only mean something next to the files they belong to, and `'include'` hands them out like any other file
+*/
+export type ClaimOptions = {
+  processingDirectory?: string;
+  tempFile?: TempFileOptions;
+  companionFiles?: 'skip' | 'include';
+};
+
+/**
+ The extension of the commit markers that `writeNewFiles()` writes by default, e.g. `'data~2024-12-22-16-39-42+173.commit'`.
+ */
+const COMMIT_MARKER_EXTENSION = '.commit';
+
+/**
+ A file that has been claimed by this consumer. Nobody else will get it, unless it is `nack()`-ed.
+
+ @property name The file's name in the watched directory, e.g. `'example~2024-12-22-16-39-42+173.txt'`
+
+ @property path The full path of the claimed file (in the processing directory) — read it from here
+
+ @property ack Call when you are done with the file. Deletes it, or moves it into `archiveDirectory` if you pass one (never overwriting anything there). Returns the archived path, if any.
+
+ @property nack Call if you couldn't process the file, to put it back in the watched directory so that it can be claimed again. Returns the path it was put back at (normally its original path).
+*/
+export type ClaimedFile = {
+  name: string;
+  path: string;
+  ack: (options?: { archiveDirectory?: string }) => Promise<string | undefined>;
+  nack: () => Promise<string>;
+};
+
+/**
+ Whether `name` is a file that the writers write alongside the real ones, rather than one of them: a `.sha256` sidecar (see `Integrity`), or a `.commit` marker of `writeNewFiles()` (with the default `commitMarker` name — a custom one looks like any other file).
+
+ @param name The filename to check
+*/
+export function isCompanionFile(name: string): boolean
+{
+  return name.endsWith(SHA256_SIDECAR_EXTENSION) || name.endsWith(COMMIT_MARKER_EXTENSION);
+}
+
+/**
+ Lists the finished files in `directory` — that is, regular files that are not temp files still being written by `writeNewFile()`, and (unless `companionFiles` is `'include'`) not sidecars or commit markers either (see `isCompanionFile()`) — in creation order.
+
+ Creation order is determined by the `~YYYY-MM-DD-HH-mm-ss+SSS` suffix that `writeNewFile()` adds (see `parseFilenameSuffix()`), or for files without such a suffix (e.g. the first `example.txt`), their modification time (to the second). Ties are broken by name, so the result is stable.
+
+ @param directory The directory to list
+
+ @param tempFile The `tempFile` option that the writers use, if any (see `TempFileOptions`)
+
+ @param companionFiles Whether to list the sidecars and commit markers too (default: `'skip'`)
+
+ @returns The filenames (not paths), oldest first
+*/
+export async function listNewFiles(
+  directory: string,
+  tempFile?: TempFileOptions,
+  companionFiles: 'skip' | 'include' = 'skip',
+): Promise<string[]>
+{
+  const entries = await readdir(directory, { withFileTypes: true });
+  // Anything with the prefix is skipped, even if it isn't quite one of our temp files, just to be on the safe side:
+  const tempFilePrefix = tempFile?.prefix ?? TEMP_FILE_PREFIX;
+  const keyed: { name: string; time: number; tiebreaker: number }[] = [];
+
+  for (const entry of entries)
+  {
+    if (
+      !entry.isFile() || isTempFile(entry.name, tempFile) || (tempFilePrefix !== '' && entry.name.startsWith(tempFilePrefix))
+      || (companionFiles === 'skip' && isCompanionFile(entry.name))
+    )
+    {
+      continue;
+    }
+
+    const suffix = parseFilenameSuffix(entry.name);
+    if (suffix)
+    {
+      keyed.push({ name: entry.name, time: suffix.timestamp.getTime(), tiebreaker: suffix.tiebreaker ?? -1 });
+      continue;
+    }
+    try
+    {
+      const { mtime } = await stat(join(directory, entry.name));
+      keyed.push({ name: entry.name, time: Math.floor(mtime.getTime() / 1000) * 1000, tiebreaker: -1 });
+    }
+    catch
+    {
+      // somebody else already claimed it
+    }
+  }
+
+  keyed.sort((a, b) =>
+    a.time - b.time || a.tiebreaker - b.tiebreaker || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)
+  );
+  return keyed.map(({ name }) => name);
+}
+
+/**
+ Atomically claims the oldest finished file in `directory`, so that no other consumer (in this process or any other) can get it.
+
+ Claiming works the same way `tryCreateFile()` publishes files: the file is hard-linked into the processing directory, which fails if some other consumer got there first, and only then removed from the watched directory. So if two consumers race for the same file, exactly one of them wins and the other just moves on to the next file.
+
+ @param directory The directory that `writeNewFile()` writes to
+
+ @param options Optional configuration (see `ClaimOptions`)
+
+ @returns The claimed file, or `undefined` if there is nothing to claim right now
+*/
+export async function claimNextFile(
+  directory: string,
+  options: ClaimOptions = {},
+): Promise<ClaimedFile | undefined>
+{
+  const processingDirectory = options.processingDirectory ?? join(directory, 'processing');
+  await mkdir(processingDirectory, { recursive: true });
+
+  for (const name of await listNewFiles(directory, options.tempFile, options.companionFiles))
+  {
+    const claimedPath = await claimByLink(join(directory, name), processingDirectory, name);
+    if (claimedPath !== undefined)
+    {
+      return createClaimedFile(directory, name, claimedPath);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ Claims the file at `sourcePath` by hard-linking it into the processing directory, and then removing it from the watched directory. Returns the path it was claimed at, or `undefined` if some other consumer got it (or is getting it right now).
+
+ Normally the link fails if another consumer got there first. But it also fails if the processing directory still holds a file with the same name from an earlier claim that was never acked (a newer file with the same name may have been written since) — and then nobody else has claimed this file, so it is claimed under a unique name instead. Either way, removing the file from the watched directory is what settles it: only one consumer can do that, and everybody else undoes their link.
+ */
+async function claimByLink(sourcePath: string, processingDirectory: string, name: string): Promise<string | undefined>
+{
+  let claimedPath = join(processingDirectory, name);
+  try
+  {
+    await link(sourcePath, claimedPath);
+  }
+  catch (err: unknown)
+  {
+    if (!hasCode(err, 'EEXIST') || !await isLeftoverClaim(sourcePath, claimedPath))
+    {
+      if (hasCode(err, 'EEXIST') || hasCode(err, 'ENOENT'))
+      {
+        return undefined; // some other consumer got it (or is getting it right now)
+      }
+      throw err;
+    }
+    claimedPath = join(processingDirectory, uniqueName(name));
+    try
+    {
+      await link(sourcePath, claimedPath);
+    }
+    catch (err: unknown)
+    {
+      if (hasCode(err, 'ENOENT'))
+      {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  try
+  {
+    await unlink(sourcePath);
+  }
+  catch (err: unknown)
+  {
+    // Not ours after all, so don't leave the link behind (and don't let a failure to remove it hide why):
+    await unlink(claimedPath).catch(() => {});
+    if (hasCode(err, 'ENOENT'))
+    {
+      return undefined; // some other consumer got it first, under a unique name of its own
+    }
+    throw err;
+  }
+  return claimedPath;
+}
+
+/**
+ Whether the file at `claimedPath` in the processing directory is a different file than the one at `sourcePath` — left over from an earlier claim, rather than another consumer's claim of this very file, which is the same file (a hard link to it).
+ */
+async function isLeftoverClaim(sourcePath: string, claimedPath: string): Promise<boolean>
+{
+  try
+  {
+    const [source, claimed] = await Promise.all([stat(sourcePath), stat(claimedPath)]);
+    return source.dev !== claimed.dev || source.ino !== claimed.ino;
+  }
+  catch
+  {
+    return false; // one of them is gone already, which means that somebody else is claiming (or acking) it right now
+  }
+}
+
+function createClaimedFile(directory: string, name: string, claimedPath: string): ClaimedFile
+{
+  return {
+    name,
+    path: claimedPath,
+
+    async ack(options?: { archiveDirectory?: string }): Promise<string | undefined>
+    {
+      if (options?.archiveDirectory === undefined)
+      {
+        await unlink(claimedPath);
+        return undefined;
+      }
+      await mkdir(options.archiveDirectory, { recursive: true });
+      return await moveWithoutOverwrite(claimedPath, options.archiveDirectory, name);
+    },
+
+    async nack(): Promise<string>
+    {
+      return await moveWithoutOverwrite(claimedPath, directory, name);
+    },
+  };
+}
+
+/**
+ Moves `sourcePath` into `directory` as `name` via link-then-unlink, so nothing is ever overwritten. If `name` is taken (e.g. because a newer file with the same name was written in the meantime), a ULID is added to the name instead — hard links keep the modification time, so the file still sorts where it was.
+ */
+async function moveWithoutOverwrite(sourcePath: string, directory: string, name: string): Promise<string>
+{
+  let candidate = name;
+  while (true)
+  {
+    const destinationPath = join(directory, candidate);
+    try
+    {
+      await link(sourcePath, destinationPath);
+      await unlink(sourcePath);
+      return destinationPath;
+    }
+    catch (err: unknown)
+    {
+      if (!hasCode(err, 'EEXIST'))
+      {
+        throw err;
+      }
+      candidate = uniqueName(name);
+    }
+  }
+}
+
+/**
+ Returns `name` with a ULID added before the extension, e.g. `'job~01JFQ8…K7.json'`
+ */
+function uniqueName(name: string): string
+{
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? `${name.slice(0, dot)}~${generateUlid()}${name.slice(dot)}` : `${name}~${generateUlid()}`;
+}
+
+function hasCode(err: unknown, code: string): boolean
+{
+  return !!err && typeof err === 'object' && 'code' in err && err.code === code;
+}
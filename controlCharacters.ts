@@ -0,0 +1,4 @@
+/**
+ Matches a control character (Unicode category `Cc`: U+0000 to U+001F, and U+007F to U+009F). None of them belong in a filename, a shard directory, or a temp file prefix or suffix. Add the `g` flag to find them all: `new RegExp(CONTROL_CHARACTER, 'gu')`.
+ */
+export const CONTROL_CHARACTER = /\p{Cc}/u;
@@ -0,0 +1,311 @@
+import { join, resolve } from '@std/path';
+import { createHash } from 'node:crypto';
+import type { Durability } from './Durability.ts';
+import type { FileSystem, FileSystemFileHandle } from './FileSystem.ts';
+import { discardTempFile, stageTempFile } from './stageTempFile.ts';
+import { isTempFile, TEMP_FILE_PREFIX, type TempFileOptions, tempFilePath } from './TempFileOptions.ts';
+
+/**
+ What the names of the control files have right after the temp file prefix, which tells them apart from the temp files (see `isControlFile()`). A temp file of a file whose name starts with this looks like a control file too — and is left to itself by `sweepStaleTempFiles()`, which is the safe way to be wrong.
+ */
+const CONTROL_FILE_MARKER = '__control__.';
+
+/**
+ A lock whose owner token and modification time haven't changed for this long, as far as a waiter can tell, was left behind by a writer that died holding it, and is broken. (Nobody holds a lock for longer than it takes to publish one file and do the bookkeeping.)
+ */
+const STALE_LOCK_MS = 10_000;
+
+/**
+ How often the holder of a lock bumps its modification time, to show that it's still alive — often enough for a waiter to see it move several times before it would give up on it.
+ */
+const HEARTBEAT_MS = STALE_LOCK_MS / 4;
+
+/**
+ What a waiter saw of a lock file: the owner token in it, and its modification time. The time is the file system's (a file server's, say), so it is only ever compared with an earlier sighting of the same lock — never with the local clock, which may well disagree with it.
+ */
+type LockSighting = { token: string; mtime: number };
+
+/**
+ Per file system, per lock file: settles when the last writer in this process to queue up for the lock is done with it.
+ */
+const turns = new WeakMap<FileSystem, Map<string, Promise<void>>>();
+
+/**
+ Returns the path of one of the small files that writers share their bookkeeping in (the locks, the `'monotonic'` ordering's sequence files, the quota tallies), for `name` in `directory`. It is named like a temp file of `name`, wherever the temp files go, but marked as a control file (see `isControlFile()`), and with a UUID derived from `kind` and the absolute path instead of a random one — so that every writer agrees on it, consumers ignore it like any temp file, `sweepStaleTempFiles()` doesn't take it for a leftover, and directories that share a staging directory don't share it.
+ */
+export function controlFilePath(directory: string, name: string, kind: string, tempFile?: TempFileOptions): string
+{
+  const path = join(directory, name);
+  const digest = createHash('sha256').update(`${kind}\0${resolve(path)}`).digest('hex');
+  const uuid = [digest.slice(0, 8), digest.slice(8, 12), digest.slice(12, 16), digest.slice(16, 20), digest.slice(20, 32)]
+    .join('-');
+  return tempFilePath(join(directory, `${CONTROL_FILE_MARKER}${name}`), tempFile, uuid);
+}
+
+/**
+ Whether `name` (a filename, not a path) is one of the control files (see `controlFilePath()`) of the writers using these `tempFile` options. They are temp files as far as `isTempFile()` is concerned, but they are meant to stay, so `sweepStaleTempFiles()` skips them.
+ */
+export function isControlFile(name: string, tempFile: TempFileOptions = {}): boolean
+{
+  return isTempFile(name, tempFile) && name.startsWith(`${tempFile.prefix ?? TEMP_FILE_PREFIX}${CONTROL_FILE_MARKER}`);
+}
+
+/**
+ Takes the lock at `lockPath`, across processes, by creating the file exclusively, with a random owner token in it. Writers in this process take turns first, so that they don't poll the lock against each other; while another process holds it, `wait()` is called between tries. Returns the function that releases it again.
+
+ While we hold the lock, we bump its modification time every `HEARTBEAT_MS`, and a lock whose token and modification time stay the same for `STALE_LOCK_MS` (by our own clock) is taken for a dead writer's, and broken. Breaking a lock, like releasing it, renames it out of the way first, and then checks the token, so that a lock that somebody else took in the meantime is put back rather than removed (see `removeLock()`).
+ */
+export async function acquireLock(
+  lockPath: string,
+  options: { fileSystem: FileSystem; tempFile?: TempFileOptions; wait: () => Promise<void> },
+): Promise<() => Promise<void>>
+{
+  const { fileSystem } = options;
+  let byPath = turns.get(fileSystem);
+  if (!byPath)
+  {
+    byPath = new Map();
+    turns.set(fileSystem, byPath);
+  }
+  const previousTurn = byPath.get(lockPath);
+  let endTurn!: () => void;
+  const turn = new Promise<void>((resolve) => endTurn = resolve);
+  byPath.set(lockPath, turn);
+
+  /**
+   Internal function that lets the next writer in this process have its turn
+   */
+  function done(): void
+  {
+    if (byPath!.get(lockPath) === turn)
+    {
+      byPath!.delete(lockPath);
+    }
+    endTurn();
+  }
+
+  try
+  {
+    await previousTurn;
+    const token = crypto.randomUUID();
+    let sighting: LockSighting | undefined;
+    let sightedSince = 0;
+    for (;;)
+    {
+      const handle = await tryCreateLock(lockPath, token, fileSystem);
+      if (handle)
+      {
+        const heartbeat = setInterval(() =>
+        {
+          const now = new Date();
+          // (If it fails, the waiters break the lock before long, which is all we could do about it anyway.)
+          handle.utimes(now, now).catch(() => {});
+        }, HEARTBEAT_MS);
+        return async () =>
+        {
+          clearInterval(heartbeat);
+          try
+          {
+            await handle.close();
+            // If it isn't ours anymore, somebody thought we were dead, and broke it:
+            await removeLock(lockPath, token, options);
+          }
+          catch
+          {
+            // The waiters break it before long
+          }
+          finally
+          {
+            done();
+          }
+        };
+      }
+
+      const seen = await sightLock(lockPath, fileSystem);
+      if (seen === undefined)
+      {
+        continue; // gone already, so try again right away
+      }
+      if (seen.token !== sighting?.token || seen.mtime !== sighting.mtime)
+      {
+        // Somebody's lock, and alive as far as we know, so start watching it:
+        sighting = seen;
+        sightedSince = performance.now();
+      }
+      else if (performance.now() - sightedSince >= STALE_LOCK_MS)
+      {
+        // (If it isn't the lock we watched anymore, somebody else broke it first, and maybe took it since.)
+        await removeLock(lockPath, sighting.token, options);
+        sighting = undefined;
+        continue;
+      }
+      await options.wait();
+    }
+  }
+  catch (err: unknown)
+  {
+    done();
+    throw err;
+  }
+}
+
+/**
+ Returns the content of the control file at `path`, or `undefined` if there isn't one.
+ */
+export async function readControlFile(path: string, fileSystem: FileSystem): Promise<string | undefined>
+{
+  try
+  {
+    const decoder = new TextDecoder();
+    let text = '';
+    for await (const chunk of fileSystem.readChunks(path))
+    {
+      text += decoder.decode(chunk, { stream: true });
+    }
+    return text + decoder.decode();
+  }
+  catch (err: unknown)
+  {
+    if (hasCode(err, 'ENOENT'))
+    {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+/**
+ Replaces the content of the control file at `path` with `text`, atomically.
+ */
+export async function writeControlFile(
+  path: string,
+  text: string,
+  options: { fileSystem: FileSystem; tempFile?: TempFileOptions; durability: Durability },
+): Promise<void>
+{
+  const staged = await stageTempFile(path, text, {
+    sync: options.durability !== 'none',
+    tempFile: options.tempFile,
+    fileSystem: options.fileSystem,
+  });
+  try
+  {
+    await options.fileSystem.rename(staged.tempPath, path);
+  }
+  finally
+  {
+    await discardTempFile(staged.tempPath, options.fileSystem);
+  }
+}
+
+/**
+ Creates the lock file at `lockPath` with `token` in it, if there isn't one. Returns the open file, to keep its modification time fresh with, or `undefined` if there's a lock already.
+ */
+async function tryCreateLock(lockPath: string, token: string, fileSystem: FileSystem): Promise<FileSystemFileHandle | undefined>
+{
+  let handle: FileSystemFileHandle;
+  try
+  {
+    handle = await fileSystem.open(lockPath, 'wx');
+  }
+  catch (err: unknown)
+  {
+    if (hasCode(err, 'EEXIST'))
+    {
+      return undefined;
+    }
+    throw err;
+  }
+
+  try
+  {
+    await handle.write(new TextEncoder().encode(`${token}\n`));
+    return handle;
+  }
+  catch (err: unknown)
+  {
+    // Nobody can tell whose lock it is without the token, so don't leave it behind:
+    await handle.close().catch(() => {});
+    await fileSystem.unlink(lockPath).catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ Returns the owner token and modification time of the lock file at `lockPath`, or `undefined` if it's gone (which means it's worth trying again right away).
+ */
+async function sightLock(lockPath: string, fileSystem: FileSystem): Promise<LockSighting | undefined>
+{
+  try
+  {
+    const { mtime } = await fileSystem.stat(lockPath);
+    const token = await readControlFile(lockPath, fileSystem);
+    // (A lock that was just created may not have its token yet, which only looks the same as long as it stays that way.)
+    return token === undefined ? undefined : { token: token.trim(), mtime: mtime.getTime() };
+  }
+  catch (err: unknown)
+  {
+    if (hasCode(err, 'ENOENT'))
+    {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+/**
+ Removes the lock file at `lockPath` if it has `token` in it, and returns whether it did. A check and then an unlink would remove whatever lock is there by the time of the unlink, so it is renamed out of the way first (which only one writer can do), and put back if its token turns out to be somebody else's.
+
+ That leaves a window, between the rename and putting it back, in which the lock seems to be free: if another writer takes it right then, there are two holders. But it takes a stale lock being replaced by a new one just as a waiter breaks it, and a third writer getting in before the waiter puts it back.
+ */
+async function removeLock(
+  lockPath: string,
+  token: string,
+  options: { fileSystem: FileSystem; tempFile?: TempFileOptions },
+): Promise<boolean>
+{
+  const { fileSystem } = options;
+  const asidePath = tempFilePath(lockPath, { ...options.tempFile, directory: undefined });
+  try
+  {
+    await fileSystem.rename(lockPath, asidePath);
+  }
+  catch (err: unknown)
+  {
+    if (hasCode(err, 'ENOENT'))
+    {
+      return false;
+    }
+    throw err;
+  }
+
+  try
+  {
+    if ((await readControlFile(asidePath, fileSystem))?.trim() === token)
+    {
+      return true;
+    }
+    try
+    {
+      // Without overwriting a lock taken since (by linking, rather than renaming):
+      await fileSystem.link(asidePath, lockPath);
+    }
+    catch
+    {
+      // Taken since, which can't be helped anymore (see above)
+    }
+    return false;
+  }
+  finally
+  {
+    await fileSystem.unlink(asidePath).catch(() => {});
+  }
+}
+
+/**
+ Whether `err` is a file system error with this `code`
+ */
+function hasCode(err: unknown, code: string): boolean
+{
+  return !!err && typeof err === 'object' && 'code' in err && err.code === code;
+}
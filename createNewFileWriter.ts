@@ -0,0 +1,65 @@
+import { cwd } from 'node:process';
+import { newFileWriter } from './newFileWriter.ts';
+import type { WriteNewContent } from './WriteNewContent.ts';
+import type { WriteNewFileResult } from './WriteNewFileResult.ts';
+import { WriteNewFileStats } from './WriteNewFileStats.ts';
+import type { WriteNewOptions } from './WriteNewOptions.ts';
+
+/**
+ A writer with a configuration of its own, made by `createNewFileWriter()`. Every method takes the same options as its standalone counterpart, and merges them over the writer's own, so each call only needs to say what's different about it.
+
+ @property options The writer's own options, as passed to `createNewFileWriter()` (with the `outputDirectory` filled in)
+
+ @property stats What this writer's writes have done so far: attempts, collisions, bytes written and latencies (see `WriteNewFileStats`). Every write of the writer is counted here, whatever the `stats` option of the call says
+
+ @property write Exactly like `writeNewFile()`
+
+ @property writeWithResult Exactly like `writeNewFileWithResult()`
+
+ @property writeSync Exactly like `writeNewFileSync()`
+
+ @property tryCreate Exactly like `tryCreateFile()`, except that it takes a filename in the output directory instead of a full path (checked according to the `filenamePolicy`, like a proposed filename), and none of the naming options apply — the file is created under exactly that name, or not at all
+
+ @property dispose Stops the writer: from now on, every method throws. Resolves once all the writes in flight have finished (one way or another), and any temp files they left behind have been removed. Calling it again just returns the same promise.
+*/
+export type NewFileWriter = {
+  readonly options: Readonly<WriteNewOptions>;
+  readonly stats: WriteNewFileStats;
+  write(proposedFilename: string, content: WriteNewContent, options?: Partial<WriteNewOptions>): Promise<string>;
+  writeWithResult(
+    proposedFilename: string,
+    content: WriteNewContent,
+    options?: Partial<WriteNewOptions>,
+  ): Promise<WriteNewFileResult>;
+  writeSync(proposedFilename: string, content: string | Uint8Array, options?: Partial<WriteNewOptions>): string;
+  tryCreate(filename: string, content: WriteNewContent, options?: Partial<WriteNewOptions>): Promise<boolean>;
+  dispose(): Promise<void>;
+};
+
+/**
+ Returns a `NewFileWriter` bound to `options`: an alternative to setting the process-wide `WriteNewOptions.default`, for when different parts of a program (or different tests running at the same time) each need their own configuration.
+
+ ```ts
+ const reports = createNewFileWriter({ outputDirectory: './reports', durability: 'file+directory' });
+ await reports.write('daily.csv', csv);
+ await reports.write('daily.csv', csv, { transforms: ['gzip'] });
+ console.log(reports.stats.snapshot().collisionRate);
+ await reports.dispose();
+ ```
+
+ Writers are independent of each other and of `WriteNewOptions.default`, except in one way: all the writers in a process still share what they know about each file family (see `writeNewFile()`), so two writers writing to the same directory don't step on each other's toes any more than two `writeNewFile()` calls would.
+
+ @param options The writer's own options (see `WriteNewOptions`). Default: the current working directory, and otherwise the defaults of `writeNewFile()`. Pass a `stats` collector to share it with other writers; otherwise, the writer gets its own
+
+ @returns The writer
+*/
+export function createNewFileWriter(options: Partial<WriteNewOptions> = {}): NewFileWriter
+{
+  const stats = options.stats ?? new WriteNewFileStats();
+  const ownOptions: WriteNewOptions = Object.freeze({ ...options, outputDirectory: options.outputDirectory ?? cwd(), stats });
+  return {
+    options: ownOptions,
+    stats,
+    ...newFileWriter((callOptions) => ({ ...ownOptions, ...callOptions, stats })),
+  };
+}
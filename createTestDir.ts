@@ -0,0 +1,17 @@
+import { join } from '@std/path';
+import { mkdirSync } from 'node:fs';
+
+/**
+ Where the tests write their output files
+ */
+export const TEST_OUTPUT_DIR = './writeNewFile.test-tmp';
+
+/**
+ Creates a fresh subdirectory of `TEST_OUTPUT_DIR` for one test (run), to keep them separate, and returns its path.
+ */
+export function createTestDir(testName: string): string
+{
+  const dir = join(TEST_OUTPUT_DIR, `test-${testName}-${Date.now()}`);
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
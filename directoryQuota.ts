@@ -0,0 +1,292 @@
+import { join, type ParsedPath } from '@std/path';
+import { acquireLock, controlFilePath, readControlFile, writeControlFile } from './controlFiles.ts';
+import type { Durability } from './Durability.ts';
+import type { FileSystem } from './FileSystem.ts';
+import { listFileFamily } from './listFileFamily.ts';
+import { QuotaExceededError } from './QuotaExceededError.ts';
+import type { QuotaPolicy } from './QuotaPolicy.ts';
+import { isTempFile, type TempFileOptions } from './TempFileOptions.ts';
+import type { WriteNewFileResult } from './WriteNewFileResult.ts';
+
+/**
+ What the writers sharing a quota know about the directory (or the family): how many files and bytes it holds, give or take the ones consumed since, and when it was last counted — in milliseconds since the epoch, by the real clock, since it is shared between processes.
+ */
+type Tally = { files: number; bytes: number; counted: number };
+
+/**
+ Which limit a write would break, what the directory would hold with it, and the limit itself (see `QuotaExceededError`).
+ */
+type Excess = [limit: QuotaExceededError['limit'], actual: number, allowed: number];
+
+/**
+ Throws if the quota can't be enforced.
+
+ @throws {RangeError} if any of the numbers is negative (or not a number at all)
+
+ @throws {TypeError} if it asks for `minFreeBytes`, and `fileSystem` has no `statfs()`
+ */
+export function checkQuotaPolicy(policy: QuotaPolicy, fileSystem: FileSystem): void
+{
+  for (const key of ['maxFiles', 'maxBytes', 'minFreeBytes', 'maxWaitMs', 'pollInterval', 'rescanInterval'] as const)
+  {
+    const value = policy[key];
+    if (value !== undefined && !(value >= 0))
+    {
+      throw new RangeError(`quota.${key} must be a non-negative number, not ${value}`);
+    }
+  }
+  if (policy.minFreeBytes !== undefined && !fileSystem.statfs)
+  {
+    throw new TypeError('The minFreeBytes quota needs a FileSystem with statfs()');
+  }
+}
+
+/**
+ What the quota needs to know about the write it checks, besides its size.
+
+ @property waited How long `waitForQuota()` has waited for room already, which counts against `maxWaitMs`
+ */
+type QuotaContext = {
+  proposedFilename: string;
+  fileSystem: FileSystem;
+  tempFile?: TempFileOptions;
+  durability: Durability;
+  retryInterval: number;
+  wait: (ms: number) => Promise<void>;
+  waited?: number;
+};
+
+/**
+ Checks the quota for a file of `byteLength` bytes (if that is known before it is written, otherwise just for one more file) in `parsed.dir`, before it is staged — so that a write the quota can't take doesn't take up the space, and the time, of staging it first. If the quota is exceeded, throws a `QuotaExceededError`, or, if it says to wait, calls `wait()` and checks again. Returns how long it waited.
+
+ This goes without the quota's lock (and so doesn't update the tally), so it only tells whether there's room right now: `publishWithinQuota()` checks again, with the lock, once the file is staged.
+
+ @throws {QuotaExceededError} if the quota is exceeded, and there's no (more) waiting
+ */
+export async function waitForQuota(
+  parsed: ParsedPath,
+  byteLength: number | undefined,
+  policy: QuotaPolicy,
+  context: QuotaContext,
+): Promise<number>
+{
+  const { onExceeded = 'throw', maxWaitMs = Infinity, pollInterval = 1000 } = policy;
+  for (let waited = context.waited ?? 0;; waited += pollInterval)
+  {
+    const { excess } = await checkQuota(parsed, byteLength, policy, context, { staged: false });
+    if (excess === undefined)
+    {
+      return waited;
+    }
+    if (onExceeded === 'throw' || waited >= maxWaitMs)
+    {
+      throw new QuotaExceededError(context.proposedFilename, parsed.dir, ...excess);
+    }
+    await context.wait(pollInterval);
+  }
+}
+
+/**
+ Calls `publish()` to publish a staged file of `byteLength` bytes into `parsed.dir` once the quota allows it, holding the lock of the quota while it checks and publishes, and adds the file to the tally. If the quota is exceeded, throws a `QuotaExceededError`, or, if it says to wait, calls `wait()` (without the lock) and checks again.
+
+ @throws {QuotaExceededError} if the quota is exceeded, and there's no (more) waiting
+ */
+export async function publishWithinQuota(
+  parsed: ParsedPath,
+  byteLength: number,
+  policy: QuotaPolicy,
+  context: QuotaContext,
+  publish: () => Promise<Pick<WriteNewFileResult, 'path' | 'outcome'>>,
+): Promise<Pick<WriteNewFileResult, 'path' | 'outcome'>>
+{
+  const { fileSystem, tempFile } = context;
+  const { onExceeded = 'throw', maxWaitMs = Infinity, pollInterval = 1000 } = policy;
+  const { lockPath, tallyPath } = quotaPaths(parsed, policy, tempFile);
+
+  for (let waited = context.waited ?? 0;; waited += pollInterval)
+  {
+    const unlock = await acquireLock(lockPath, { fileSystem, tempFile, wait: () => context.wait(context.retryInterval) });
+    try
+    {
+      const { tally, excess } = await checkQuota(parsed, byteLength, policy, context, { staged: true });
+      if (excess === undefined)
+      {
+        const published = await publish();
+        if (tally !== undefined && published.outcome !== 'skipped-identical')
+        {
+          try
+          {
+            // A replaced file's size is anybody's guess, so have the next writer count again:
+            const updated: Tally = published.outcome === 'created'
+              ? { files: tally.files + 1, bytes: tally.bytes + byteLength, counted: tally.counted }
+              : { ...tally, counted: 0 };
+            await writeControlFile(tallyPath, JSON.stringify(updated), context);
+          }
+          catch
+          {
+            // The file is published, and throwing now would make the caller think it wasn't. The next writer just counts again.
+          }
+        }
+        return published;
+      }
+      if (onExceeded === 'throw' || waited >= maxWaitMs)
+      {
+        throw new QuotaExceededError(context.proposedFilename, parsed.dir, ...excess);
+      }
+    }
+    finally
+    {
+      await unlock();
+    }
+
+    // Give the consumers (and the other writers) a chance, without holding the lock:
+    await context.wait(pollInterval);
+  }
+}
+
+/**
+ Returns the paths of the lock and the tally of the quota: one of each for the whole directory, or one per family.
+ */
+function quotaPaths(parsed: ParsedPath, policy: QuotaPolicy, tempFile?: TempFileOptions): { lockPath: string; tallyPath: string }
+{
+  const [name, kind] = policy.family ? [parsed.base, 'family-quota'] : ['quota', 'directory-quota'];
+  return {
+    lockPath: controlFilePath(parsed.dir, name, `${kind}-lock`, tempFile),
+    tallyPath: controlFilePath(parsed.dir, name, kind, tempFile),
+  };
+}
+
+/**
+ Returns the limit that a file of `byteLength` bytes would break in `parsed.dir`, if any, and the tally it went by (if the quota has file or byte limits). With `staged`, the file is already written, so it counts against the free space already — and the quota's lock is held, so a tally that had to be counted again is written back for the next writer.
+ */
+async function checkQuota(
+  parsed: ParsedPath,
+  byteLength: number | undefined,
+  policy: QuotaPolicy,
+  context: QuotaContext,
+  { staged }: { staged: boolean },
+): Promise<{ tally?: Tally; excess?: Excess }>
+{
+  const { fileSystem, tempFile } = context;
+  const { maxFiles, maxBytes, minFreeBytes, rescanInterval = 10_000 } = policy;
+  const bytes = byteLength ?? 0;
+
+  /**
+   Internal function that returns the limit the tally says the write would break, if any
+   */
+  function excessOf(tally: Tally): Excess | undefined
+  {
+    if (maxFiles !== undefined && tally.files + 1 > maxFiles)
+    {
+      return ['maxFiles', tally.files + 1, maxFiles];
+    }
+    if (maxBytes !== undefined && tally.bytes + bytes > maxBytes)
+    {
+      return ['maxBytes', tally.bytes + bytes, maxBytes];
+    }
+    return undefined;
+  }
+
+  let tally: Tally | undefined;
+  if (maxFiles !== undefined || maxBytes !== undefined)
+  {
+    const { tallyPath } = quotaPaths(parsed, policy, tempFile);
+    tally = await readTally(tallyPath, fileSystem);
+    if (tally === undefined || Date.now() - tally.counted >= rescanInterval || excessOf(tally) !== undefined)
+    {
+      // The tally only ever errs on the high side, so count again before holding anything back:
+      tally = await countUsage(parsed, policy.family ?? false, fileSystem, tempFile);
+      if (staged)
+      {
+        await writeControlFile(tallyPath, JSON.stringify(tally), context);
+      }
+    }
+    const excess = excessOf(tally);
+    if (excess !== undefined)
+    {
+      return { tally, excess };
+    }
+  }
+  if (minFreeBytes !== undefined)
+  {
+    const free = await freeBytes(parsed.dir, fileSystem) - (staged ? 0 : bytes);
+    if (free < minFreeBytes)
+    {
+      return { tally, excess: ['minFreeBytes', Math.max(0, free), minFreeBytes] };
+    }
+  }
+  return { tally };
+}
+
+/**
+ Returns how many bytes are free on the file system of `directory`, for unprivileged users.
+
+ @throws {TypeError} if `fileSystem` has no `statfs()`
+ */
+async function freeBytes(directory: string, fileSystem: FileSystem): Promise<number>
+{
+  if (!fileSystem.statfs)
+  {
+    throw new TypeError('The minFreeBytes quota needs a FileSystem with statfs()');
+  }
+  const { bavail, bsize } = await fileSystem.statfs(directory);
+  return Number(bavail) * Number(bsize);
+}
+
+/**
+ Returns the tally at `tallyPath`, or `undefined` if there isn't a (valid) one.
+ */
+async function readTally(tallyPath: string, fileSystem: FileSystem): Promise<Tally | undefined>
+{
+  const text = await readControlFile(tallyPath, fileSystem);
+  try
+  {
+    const tally = text === undefined ? undefined : JSON.parse(text);
+    return [tally?.files, tally?.bytes, tally?.counted].every((value) => typeof value === 'number') ? tally : undefined;
+  }
+  catch
+  {
+    return undefined; // garbled somehow, so count again
+  }
+}
+
+/**
+ Counts the files in the directory of `parsed` (or only the ones in its family), and their bytes, skipping temp files.
+ */
+async function countUsage(
+  parsed: ParsedPath,
+  family: boolean,
+  fileSystem: FileSystem,
+  tempFile: TempFileOptions | undefined,
+): Promise<Tally>
+{
+  const counted = Date.now();
+  if (family)
+  {
+    const members = await listFileFamily(parsed.dir, parsed.base, { fileSystem });
+    return { files: members.length, bytes: members.reduce((total, member) => total + member.size, 0), counted };
+  }
+
+  const tally: Tally = { files: 0, bytes: 0, counted };
+  for (const name of await fileSystem.readdir(parsed.dir))
+  {
+    if (isTempFile(name, tempFile))
+    {
+      continue;
+    }
+    try
+    {
+      const info = await fileSystem.stat(join(parsed.dir, name));
+      if (info.isFile())
+      {
+        tally.files++;
+        tally.bytes += info.size;
+      }
+    }
+    catch
+    {
+      // Gone already
+    }
+  }
+  return tally;
+}
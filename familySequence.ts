@@ -0,0 +1,155 @@
+import type { ParsedPath } from '@std/path';
+import { acquireLock, controlFilePath, readControlFile, writeControlFile } from './controlFiles.ts';
+import type { Durability } from './Durability.ts';
+import type { FileSystem } from './FileSystem.ts';
+import { parseFilenameSuffix } from './parseFilenameSuffix.ts';
+import { formatSuffixTimestamp, type SuffixFormat } from './SuffixFormat.ts';
+import type { TempFileOptions } from './TempFileOptions.ts';
+import type { WriteNewOptions } from './WriteNewOptions.ts';
+
+/**
+ `+SSS` has three digits, and a fourth would break the lexicographic order.
+ */
+const MAX_TIEBREAKER = 999;
+
+/**
+ Throws if the options can't be used with `ordering: 'monotonic'` (see `Ordering`).
+
+ @throws {TypeError} if they ask for a naming strategy other than `'date'`, an `onExisting` policy other than `'suffix'`, or the digest as the suffix
+ */
+export function checkMonotonicOrdering(options: WriteNewOptions): void
+{
+  if ((options.namingStrategy ?? 'date') !== 'date')
+  {
+    throw new TypeError("ordering: 'monotonic' only works with the 'date' naming strategy");
+  }
+  if ((options.onExisting ?? 'suffix') !== 'suffix')
+  {
+    throw new TypeError(`ordering: 'monotonic' does not support onExisting: '${options.onExisting}'`);
+  }
+  if (options.integrity === 'suffix')
+  {
+    throw new TypeError("ordering: 'monotonic' does not support integrity: 'suffix'");
+  }
+}
+
+/**
+ Takes the cross-process lock on the family of the proposed filename, calling `wait()` between tries for as long as somebody else holds it (see `acquireLock()`). Returns the function that releases it again.
+ */
+export async function lockFamily(
+  parsed: ParsedPath,
+  options: { fileSystem: FileSystem; tempFile?: TempFileOptions; wait: () => Promise<void> },
+): Promise<() => Promise<void>>
+{
+  return await acquireLock(controlFilePath(parsed.dir, parsed.base, 'lock', options.tempFile), options);
+}
+
+/**
+ Returns the name that the next file of the family has to sort after: the later of the last name recorded in the family's sequence file and the last `'date'` member of the family in the directory, or `undefined` if there is neither (in which case the proposed filename itself is next). Only call this while holding the family's lock.
+ */
+export async function lastFamilyName(
+  parsed: ParsedPath,
+  options: { fileSystem: FileSystem; tempFile?: TempFileOptions },
+): Promise<string | undefined>
+{
+  const { fileSystem } = options;
+  // Without a sequence file (none yet, or deleted since), the directory is all we have to go by:
+  const recorded = (await readControlFile(controlFilePath(parsed.dir, parsed.base, 'sequence', options.tempFile), fileSystem))?.trim();
+  let last = recorded !== undefined && isOrderedFamilyName(recorded, parsed) ? recorded : undefined;
+  for (const name of await fileSystem.readdir(parsed.dir))
+  {
+    if ((last === undefined || name > last) && isOrderedFamilyName(name, parsed))
+    {
+      last = name;
+    }
+  }
+  return last;
+}
+
+/**
+ Records `name` as the last name of the family in its sequence file, replacing it atomically. Only call this while holding the family's lock.
+ */
+export async function recordFamilyName(
+  parsed: ParsedPath,
+  name: string,
+  options: { fileSystem: FileSystem; tempFile?: TempFileOptions; durability: Durability },
+): Promise<void>
+{
+  await writeControlFile(controlFilePath(parsed.dir, parsed.base, 'sequence', options.tempFile), `${name}\n`, options);
+}
+
+/**
+ Returns the first `'date'` strategy name that sorts after `last` (see `lastFamilyName()`): with the timestamp of `now`, or of `last` if the clock is behind it, and always with a tiebreaker. Returns `undefined` if there is no such name right now (e.g. because local time has just jumped back an hour), in which case the caller has to wait for the clock to move on, and ask again.
+ */
+export function nextMonotonicFilename(
+  parsed: ParsedPath,
+  last: string | undefined,
+  now: Date,
+  suffixFormat?: SuffixFormat,
+): string | undefined
+{
+  if (last === undefined)
+  {
+    return parsed.base;
+  }
+
+  const withSuffix = (stamp: string, tiebreaker: number) =>
+    `${parsed.name}~${stamp}+${tiebreaker.toString().padStart(3, '0')}${parsed.ext}`;
+  const milliseconds = suffixFormat?.precision === 'milliseconds';
+  const nowStamp = formatSuffixTimestamp(now, suffixFormat);
+  const lastSuffix = last === parsed.base ? undefined : splitSuffix(last, parsed);
+
+  let candidate: string;
+  if (lastSuffix === undefined || nowStamp > lastSuffix.stamp)
+  {
+    candidate = withSuffix(nowStamp, milliseconds ? 0 : now.getMilliseconds());
+  }
+  else
+  {
+    // The clock hasn't got past the last name (or has gone back), so count on from it. Without a tiebreaker, `~ts.ext` sorts after all of the `~ts+SSS.ext`, so that timestamp is used up already:
+    const tiebreaker = Math.max(
+      lastSuffix.tiebreaker === undefined ? Infinity : lastSuffix.tiebreaker + 1,
+      nowStamp === lastSuffix.stamp && !milliseconds ? now.getMilliseconds() : 0,
+    );
+    if (tiebreaker <= MAX_TIEBREAKER)
+    {
+      candidate = withSuffix(lastSuffix.stamp, tiebreaker);
+    }
+    else
+    {
+      const lastTime = parseFilenameSuffix(last, { timeZone: suffixFormat?.timeZone })?.timestamp;
+      if (lastTime === undefined)
+      {
+        return undefined;
+      }
+      candidate = withSuffix(formatSuffixTimestamp(new Date(lastTime.getTime() + (milliseconds ? 1 : 1000)), suffixFormat), 0);
+    }
+  }
+  return candidate > last ? candidate : undefined;
+}
+
+/**
+ Whether `name` is the proposed filename itself, or one of its `'date'` strategy siblings — the names that the `'monotonic'` ordering keeps in order.
+ */
+function isOrderedFamilyName(name: string, parsed: ParsedPath): boolean
+{
+  return name === parsed.base || parseFilenameSuffix(name)?.proposedFilename === parsed.base;
+}
+
+/**
+ Splits the suffix of `name`, a `'date'` strategy sibling of the proposed filename, into its timestamp and tiebreaker.
+ */
+function splitSuffix(name: string, parsed: ParsedPath): { stamp: string; tiebreaker?: number } | undefined
+{
+  const prefix = `${parsed.name}~`;
+  if (!name.startsWith(prefix) || !name.endsWith(parsed.ext))
+  {
+    return undefined;
+  }
+  const suffix = name.slice(prefix.length, name.length - parsed.ext.length);
+  // (ISO basic timestamps in local time end with a four-digit `+HHMM` offset, which this doesn't mistake for a tiebreaker.)
+  const tiebreaker = /\+(\d{3})$/.exec(suffix);
+  return tiebreaker
+    ? { stamp: suffix.slice(0, -tiebreaker[0].length), tiebreaker: Number(tiebreaker[1]) }
+    : { stamp: suffix };
+}
@@ -7,7 +7,7 @@ You *can* make it more (human-)readable, like `'1975-09-05 02:34:56'` by passing
 
 By default, though, both are replaced with `'-'` because this is intended for filenames, and funky chars are sus.
 
-Uses your local timezone because that's usually what you want for files anyway.
+Uses your local timezone because that's usually what you want for files anyway. (Unless files from hosts in different timezones end up in the same directory, or DST makes the clock jump back an hour and your files sort out of order — in which case pass `{ timeZone: 'utc' }`.)
 
 @param date The date you want to format
 
@@ -15,7 +15,9 @@ Uses your local timezone because that's usually what you want for files anyway.
 
 @param replaceColonWith What to use instead of colons in the time part (default: '-')
 
-@returns A filename-friendly date string formatted as YYYY-MM-DD{space}HH{colon}mm{colon}ss
+@param options Set `timeZone` to `'utc'` to use UTC instead of local time, and `precision` to `'milliseconds'` to append the milliseconds (after another {colon}, like `'1974-09-05-02-34-56-789'`)
+
+@returns A filename-friendly date string formatted as YYYY-MM-DD{space}HH{colon}mm{colon}ss (and {colon}SSS with millisecond precision)
 
 @throws {TypeError} Should never throw, unless you manage to pass a `date` value that that's not actually a `Date`.
 */
@@ -23,6 +25,7 @@ export function formatDateForFilenameSuffix(
   date: Date,
   replaceSpaceWith = '-',
   replaceColonWith = '-',
+  options: { timeZone?: 'local' | 'utc'; precision?: 'seconds' | 'milliseconds' } = {},
 ): string
 {
   // Should never happen unless u got ur JavaScript in me TypeScript:
@@ -34,11 +37,15 @@ export function formatDateForFilenameSuffix(
   const colon = typeof replaceColonWith === 'string' ? replaceColonWith : ':';
   const space = typeof replaceSpaceWith === 'string' ? replaceSpaceWith : ' ';
 
-  const yyyy = date.getFullYear().toString().padStart(4, '0');
-  const MM = (date.getMonth() + 1).toString().padStart(2, '0');
-  const dd = date.getDate().toString().padStart(2, '0');
-  const hh = date.getHours().toString().padStart(2, '0');
-  const mm = date.getMinutes().toString().padStart(2, '0');
-  const ss = date.getSeconds().toString().padStart(2, '0');
-  return `${yyyy}-${MM}-${dd}${space}${hh}${colon}${mm}${colon}${ss}`;
+  const utc = options.timeZone === 'utc';
+  const yyyy = (utc ? date.getUTCFullYear() : date.getFullYear()).toString().padStart(4, '0');
+  const MM = ((utc ? date.getUTCMonth() : date.getMonth()) + 1).toString().padStart(2, '0');
+  const dd = (utc ? date.getUTCDate() : date.getDate()).toString().padStart(2, '0');
+  const hh = (utc ? date.getUTCHours() : date.getHours()).toString().padStart(2, '0');
+  const mm = (utc ? date.getUTCMinutes() : date.getMinutes()).toString().padStart(2, '0');
+  const ss = (utc ? date.getUTCSeconds() : date.getSeconds()).toString().padStart(2, '0');
+  const formatted = `${yyyy}-${MM}-${dd}${space}${hh}${colon}${mm}${colon}${ss}`;
+  return options.precision === 'milliseconds'
+    ? `${formatted}${colon}${date.getMilliseconds().toString().padStart(3, '0')}`
+    : formatted;
 }
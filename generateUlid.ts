@@ -0,0 +1,62 @@
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+let lastTime = -1;
+let lastRandom: number[] = [];
+
+/**
+ Returns a [ULID](https://github.com/ulid/spec) — a 26-character, Crockford-base32 string whose first 10 characters encode the millisecond timestamp, and whose last 16 characters are random.
+
+ ULIDs sort lexicographically in creation order, which is the whole point of using them as a filename suffix. Within a single millisecond (in a single process), the random part is incremented instead of regenerated, so ULIDs from this function are strictly monotonic per process. (Across processes, ULIDs from the same millisecond are unique, but their relative order is random.)
+
+ @param time The timestamp to encode, in milliseconds since the epoch (default: now)
+
+ @returns A 26-character ULID, like `'01JFT0Q4S6X3RDW9Y8B1ZKQ0CN'`
+*/
+export function generateUlid(time: number = Date.now()): string
+{
+  if (!Number.isInteger(time) || time < 0 || time > 0xFFFF_FFFF_FFFF)
+  {
+    throw new RangeError(`Cannot encode ${time} as a ULID timestamp`);
+  }
+
+  let random: number[];
+  if (time === lastTime)
+  {
+    random = incrementBase32(lastRandom);
+  }
+  else
+  {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    random = Array.from(bytes, (byte) => byte & 31);
+  }
+  lastTime = time;
+  lastRandom = random;
+
+  let timePart = '';
+  let remaining = time;
+  for (let i = 0; i < 10; i++)
+  {
+    timePart = CROCKFORD_BASE32[remaining % 32] + timePart;
+    remaining = Math.floor(remaining / 32);
+  }
+
+  return timePart + random.map((digit) => CROCKFORD_BASE32[digit]).join('');
+}
+
+/**
+ Adds one to a big-endian array of base32 digits. Overflowing 80 random bits within a single millisecond is not something we are going to lose sleep over, so it just wraps around.
+ */
+function incrementBase32(digits: number[]): number[]
+{
+  const result = [...digits];
+  for (let i = result.length - 1; i >= 0; i--)
+  {
+    if (result[i] < 31)
+    {
+      result[i]++;
+      return result;
+    }
+    result[i] = 0;
+  }
+  return result;
+}
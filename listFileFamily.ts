@@ -0,0 +1,116 @@
+import { join, parse } from '@std/path';
+import { type FileSystem, nodeFileSystem } from './FileSystem.ts';
+import { parseFilenameSuffix } from './parseFilenameSuffix.ts';
+
+/**
+ A member of a file family, as returned by `listFileFamily()`.
+
+ @property name The filename
+
+ @property size The file size, in bytes
+
+ @property time When the file was written, in milliseconds since the epoch — from the date suffix where there is one, and from the modification time otherwise
+
+ @property tiebreaker Orders files with the same `time`: the suffix's `+NNN` tiebreaker, or the counter of a `'counter'` suffix, or `-1`
+*/
+export type FileFamilyMember = {
+  name: string;
+  size: number;
+  time: number;
+  tiebreaker: number;
+};
+
+/**
+ Lists the family of files that `writeNewFile()` has written for `proposedFilename` in `directory`, newest first.
+
+ The family is identified strictly: besides the proposed filename itself (which is where `writeNewFile()` puts the first one), only files named `<name>~<suffix><ext>` where `<suffix>` is exactly one of the suffixes the built-in naming strategies generate (date, counter, ULID, or content hash) are members. Anything else — `status-old.json`, `status~backup.json`, temp files, directories — is not. (Files named by a custom `NamingStrategyFunction` can't be recognized, so they are never members either.)
+
+ @param directory The directory the family lives in
+
+ @param proposedFilename The filename that was proposed to `writeNewFile()`, e.g. `'status.json'`
+
+ @param options `timeZone`: how to interpret `'default'`-style date suffixes (default: `'local'` — see `parseFilenameSuffix()`); `fileSystem`: where to look (default: the real disk — see `FileSystem`)
+
+ @returns The members of the family, newest first
+*/
+export async function listFileFamily(
+  directory: string,
+  proposedFilename: string,
+  options: { timeZone?: 'local' | 'utc'; fileSystem?: FileSystem } = {},
+): Promise<FileFamilyMember[]>
+{
+  const fileSystem = options.fileSystem ?? nodeFileSystem;
+  const members: FileFamilyMember[] = [];
+  for (const name of await fileSystem.readdir(directory))
+  {
+    const order = familyOrder(name, proposedFilename, options.timeZone);
+    if (order === undefined)
+    {
+      continue;
+    }
+    try
+    {
+      const info = await fileSystem.stat(join(directory, name));
+      if (!info.isFile())
+      {
+        continue;
+      }
+      members.push({
+        name,
+        size: info.size,
+        time: order.time ?? info.mtime.getTime(),
+        tiebreaker: order.tiebreaker,
+      });
+    }
+    catch
+    {
+      // Gone already
+    }
+  }
+
+  return members.sort((a, b) =>
+    b.time - a.time || b.tiebreaker - a.tiebreaker || (a.name < b.name ? 1 : a.name > b.name ? -1 : 0)
+  );
+}
+
+const GENERATED_SUFFIX_PATTERNS = [
+  /^\d{4,}$/, // counter
+  /^[0-9A-HJKMNP-TV-Z]{26}$/, // ULID
+  /^(?:[0-9a-f]{16}|[0-9a-f]{64})(?:\+\d+)?$/, // content hash, or the full digest of the 'suffix' integrity mode
+];
+
+/**
+ If `name` is a member of the family of `proposedFilename`, returns what we can tell about its place in the family from its name alone (the time, if it has a date suffix, and a tiebreaker); otherwise `undefined`.
+ */
+function familyOrder(
+  name: string,
+  proposedFilename: string,
+  timeZone?: 'local' | 'utc',
+): { time?: number; tiebreaker: number } | undefined
+{
+  if (name === proposedFilename)
+  {
+    return { tiebreaker: -1 };
+  }
+
+  const dateSuffix = parseFilenameSuffix(name, { timeZone });
+  if (dateSuffix)
+  {
+    return dateSuffix.proposedFilename === proposedFilename
+      ? { time: dateSuffix.timestamp.getTime(), tiebreaker: dateSuffix.tiebreaker ?? -1 }
+      : undefined;
+  }
+
+  const { name: baseName, ext } = parse(proposedFilename);
+  const prefix = `${baseName}~`;
+  if (!name.startsWith(prefix) || !name.endsWith(ext) || name.length <= prefix.length + ext.length)
+  {
+    return undefined;
+  }
+  const suffix = name.slice(prefix.length, name.length - ext.length);
+  if (!GENERATED_SUFFIX_PATTERNS.some((pattern) => pattern.test(suffix)))
+  {
+    return undefined;
+  }
+  return { tiebreaker: /^\d+$/.test(suffix) ? Number(suffix) : -1 };
+}
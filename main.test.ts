@@ -0,0 +1,109 @@
+import { assert, assertEquals, assertMatch } from "@std/assert";
+import { join } from "@std/path";
+import { spawnSync } from "node:child_process";
+import { readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { execPath } from "node:process";
+import { test } from "node:test";
+
+import { createTestDir } from "./createTestDir.ts";
+
+/**
+ Runs the CLI in a process of its own, with `input` on its stdin, and returns its exit code and output.
+ */
+function runCli(args: string[], input = ""): { code: number | null; stdout: string; stderr: string } {
+  const { status, stdout, stderr } = spawnSync(
+    execPath,
+    ["run", "--allow-read", "--allow-write", "mod.ts", ...args],
+    { input, encoding: "utf-8" },
+  );
+  return { code: status, stdout, stderr };
+}
+
+/**
+ Content can come from the command line, a file (`--from-file`), or stdin (`-`), and each run prints the path it wrote.
+ */
+test("main: content sources", () => {
+  const dir = createTestDir("cli-sources");
+  const source = join(dir, "source.bin");
+  writeFileSync(source, new Uint8Array([0, 1, 2, 255]));
+
+  const fromArgs = runCli([`--dir=${dir}`, "a.txt", "from the args"]);
+  assertEquals(fromArgs.code, 0);
+  assertEquals(readFileSync(fromArgs.stdout.trim(), "utf-8"), "from the args");
+
+  const fromFile = runCli([`--dir=${dir}`, "b.bin", `--from-file=${source}`]);
+  assertEquals(fromFile.code, 0);
+  assertEquals([...readFileSync(fromFile.stdout.trim())], [0, 1, 2, 255]);
+
+  const fromStdin = runCli([`--dir=${dir}`, "c.txt", "-"], "from stdin");
+  assertEquals(fromStdin.code, 0);
+  assertEquals(readFileSync(fromStdin.stdout.trim(), "utf-8"), "from stdin");
+
+  // Same name again, so it gets a suffix:
+  const again = runCli([`--dir=${dir}`, "--json", "a.txt", "again"]);
+  assertEquals(again.code, 0);
+  const reported = JSON.parse(again.stdout);
+  assertEquals(reported.requested, "a.txt");
+  assertEquals(reported.suffixed, true);
+  assertEquals(reported.bytes, 5);
+  assertEquals(readFileSync(reported.path, "utf-8"), "again");
+});
+
+/**
+ `--batch` writes every file it can, and exits with the code of the first one that failed: from pairs of args, or from NDJSON on stdin.
+ */
+test("main: --batch", () => {
+  const dir = createTestDir("cli-batch");
+  const source = join(dir, "source.txt");
+  writeFileSync(source, "from a file");
+
+  const pairs = runCli(["--batch", `--dir=${dir}`, "--json", "a.txt", source, "b.txt", "-"], "from stdin");
+  assertEquals(pairs.code, 0);
+  const written = pairs.stdout.trim().split("\n").map((line) => JSON.parse(line));
+  assertEquals(written.map((result) => result.requested), ["a.txt", "b.txt"]);
+  assertEquals(written.map((result) => readFileSync(result.path, "utf-8")), ["from a file", "from stdin"]);
+
+  const ndjson = [
+    JSON.stringify({ name: "c.txt", content: "text" }),
+    "not json",
+    "",
+    JSON.stringify({ name: "d.bin", contentBase64: btoa("\x00\x01") }),
+    JSON.stringify({ name: "e.txt", fromFile: source }),
+  ].join("\n");
+  const lines = runCli(["--batch", `--dir=${dir}`, "--json"], ndjson);
+  assertEquals(lines.code, 2);
+  const results = lines.stdout.trim().split("\n").map((line) => JSON.parse(line));
+  assertEquals(results.map((result) => result.requested), ["c.txt", null, "d.bin", "e.txt"]);
+  assertMatch(results[1].error, /line 2/);
+  assertEquals(results[1].exitCode, 2);
+  assertEquals(readFileSync(results[3].path, "utf-8"), "from a file");
+
+  assertEquals(runCli(["--batch", `--dir=${dir}`, "odd.txt"]).code, 2);
+});
+
+/**
+ Scripts can tell what went wrong from the exit code — and not getting the args it needs isn't a success, unless `--help` was asked for.
+ */
+test("main: exit codes", () => {
+  const dir = createTestDir("cli-exit-codes");
+  const file = join(dir, "not-a-directory.txt");
+  writeFileSync(file, "");
+
+  const help = runCli(["--help"]);
+  assertEquals(help.code, 0);
+  assert(help.stdout.includes("Usage:"));
+
+  const missingArgs = runCli([`--dir=${dir}`, "only-a-name.txt"]);
+  assertEquals(missingArgs.code, 2);
+  assert(missingArgs.stderr.includes("Usage:"));
+  assertEquals(runCli([]).code, 2);
+  assertEquals(runCli([`--dir=${dir}`, "--mode=999", "a.txt", "x"]).code, 2);
+  assertEquals(runCli(["--sweep", `--dir=${dir}`, "--older-than=soon"]).code, 2);
+  assertEquals(runCli([`--dir=${dir}`, "../evil", "x"]).code, 2);
+
+  assertEquals(runCli([`--dir=${join(dir, "nowhere")}`, "a.txt", "x"]).code, 3);
+  assertEquals(runCli([`--dir=${file}`, "a.txt", "x"]).code, 3);
+  assertEquals(runCli([`--dir=${dir}`, "b.txt", `--from-file=${join(dir, "nowhere.txt")}`]).code, 1);
+
+  assertEquals(readdirSync(dir), ["not-a-directory.txt"]);
+});
@@ -1,12 +1,21 @@
 #!/usr/bin/env deno run --allow-read --allow-write
 
 import { parseArgs } from '@std/cli';
-import { argv, exit } from 'node:process';
-import { writeNewFile } from './writeNewFile.ts';
+import { once } from 'node:events';
+import { createReadStream } from 'node:fs';
+import { argv, cwd, exit, stdin } from 'node:process';
+import { createInterface } from 'node:readline';
+import { createNewFileWriter, type NewFileWriter } from './createNewFileWriter.ts';
+import { type FileAttributes, parseFileMode } from './FileAttributes.ts';
+import { InvalidFilenameError } from './InvalidFilenameError.ts';
+import { sweepStaleTempFiles } from './sweepStaleTempFiles.ts';
+import type { WriteNewContent } from './WriteNewContent.ts';
 
 const usage = `
 Usage:
   ./main.ts [options] <proposedFilename> <content>
+  ./main.ts [options] <proposedFilename> --from-file=<path>
+  ./main.ts [options] <proposedFilename> -                      (content from stdin)
 
 Or:
   deno run -RW ./mod.ts [options] <proposedFilename> <content>
@@ -14,15 +23,53 @@ Or:
 Or:
   deno run -RW https://jsr.io/@axhx/write-new-file/mod.ts [options] <proposedFilename> <content>
 
+Or, to write many files in one go:
+  ./main.ts --batch [options] <proposedFilename> <source> [<proposedFilename> <source> ...]
+  ./main.ts --batch [options] < requests.ndjson
+
+Or, to clean up temp files left behind by crashed writers:
+  ./main.ts --sweep [--older-than=<duration>] [--dry-run] [--dir=<dir>]
+
 Options:
   --help, -h          Show this help
   --dir, -d           Output directory (defaults to current working directory)
+  --from-file         Read the content from this file (streamed, so it can be binary, and as big as you like)
+  --batch             Write many files: the positional args are pairs of a proposed filename and a source, which is
+                      a path to read the content from, or - for stdin (once). With no positional args, reads NDJSON
+                      from stdin instead, one file per line: {"name": "a.txt", "content": "text"}, or with
+                      "contentBase64" or "fromFile" instead of "content"
+  --json              Print one JSON object per file instead of just its path:
+                      {"requested": "a.txt", "path": "...", "suffixed": true, "bytes": 12}
+                      or, if it couldn't be written: {"requested": "a.txt", "error": "...", "exitCode": 3}
+  --mode              Permissions for the new file, in octal, e.g. 640 (default: per umask)
+  --uid, --gid        Owner user/group ID for the new file
+  --mtime             Modification time for the new file, e.g. 2024-12-22T16:39:42Z
+  --sweep             Remove stale temp files from the output directory, instead of writing a file
+  --older-than        With --sweep: only remove temp files at least this old, e.g. 90s, 10m, 6h, 2d (default: 1h)
+  --dry-run           With --sweep: just list the temp files that would be removed
+
+Exit codes:
+  0   Success (with --batch: every file was written)
+  1   Some other error (with --batch: the exit code is that of the first file that failed, but the rest are still written)
+  2   Invalid arguments, including a filename that isn't safe to use (or, with --batch, an invalid NDJSON line)
+  3   The output directory doesn't exist (or isn't a directory)
+  4   Permission denied
 
 Examples:
   deno run --allow-read --allow-write mod.ts myFile.txt "text content"
 
   deno run -RW mod.ts --dir=output myFile.txt "more text content 👋"
 
+  deno run -RW mod.ts --mode=640 secret.txt "for your eyes only"
+
+  deno run -RW mod.ts --dir=backups dump.sql.gz --from-file=/tmp/dump.sql.gz
+
+  pg_dump mydb | deno run -RW mod.ts --dir=backups --json dump.sql -
+
+  deno run -RW mod.ts --batch --dir=output a.png ./a.png b.png ./b.png
+
+  deno run -RW mod.ts --sweep --older-than=10m --dir=output
+
 Purpose:
   Write content to a new file in a concurrency-safe manner.
 
@@ -33,6 +80,34 @@ Purpose:
   More info: https://github.com/axhxrx/write-new-file
 `;
 
+/**
+ The CLI's exit codes, so that scripts can tell what went wrong (see the usage above).
+ */
+const EXIT_CODES = {
+  ok: 0,
+  error: 1,
+  usage: 2,
+  directoryMissing: 3,
+  permissionDenied: 4,
+} as const;
+
+/**
+ Where the content of one file to write comes from: text from the command line or NDJSON, bytes from NDJSON, a file, or stdin.
+ */
+type ContentSource =
+  | { text: string }
+  | { bytes: Uint8Array }
+  | { path: string }
+  | { stdin: true };
+
+/**
+ One file to write, i.e. one `<proposedFilename> <source>` pair, or one NDJSON line.
+ */
+type WriteRequest = {
+  proposedFilename: string;
+  source: ContentSource;
+};
+
 /**
  The `main` function is the entry point for the CLI tool.
  */
@@ -45,39 +120,356 @@ export async function main(): Promise<void>
     _: positionalArgs,
     help,
     dir,
+    sweep,
+    'older-than': olderThan,
+    'dry-run': dryRun,
+    'from-file': fromFile,
+    batch,
+    json,
+    mode,
+    uid,
+    gid,
+    mtime,
   } = parseArgs(argv.slice(2), {
-    string: ['dir'],
-    boolean: ['help'],
+    string: ['dir', 'older-than', 'from-file', 'mode', 'uid', 'gid', 'mtime'],
+    boolean: ['help', 'sweep', 'dry-run', 'batch', 'json'],
     alias: { h: 'help', d: 'dir' },
   });
 
-  if (help || positionalArgs.length < 2)
+  if (sweep && !help)
+  {
+    await runSweep(dir, olderThan, dryRun);
+    return;
+  }
+
+  const args = positionalArgs.map(String);
+  if (help)
   {
     console.log(usage);
-    exit(0);
+    exit(EXIT_CODES.ok);
+  }
+  if (!batch && args.length < (fromFile === undefined ? 2 : 1))
+  {
+    // Not what was asked for, so it mustn't look like success to a script:
+    console.error(usage);
+    exit(EXIT_CODES.usage);
+  }
+
+  let requests: Iterable<WriteRequest> | AsyncIterable<WriteRequest | Error>;
+  let writer: NewFileWriter;
+  try
+  {
+    requests = batch
+      ? (args.length === 0 ? readNdjsonRequests() : pairRequests(args))
+      : [singleRequest(args, fromFile)];
+    const attributes = parseFileAttributeArgs({ mode, uid, gid, mtime });
+    writer = createNewFileWriter({
+      outputDirectory: (typeof dir === 'string' && dir.length > 0) ? dir : cwd(),
+      ...attributes,
+    });
+  }
+  catch (err)
+  {
+    console.error(`${err instanceof Error ? err.message : err}\n(see --help)`);
+    exit(EXIT_CODES.usage);
+  }
+
+  let exitCode: number = EXIT_CODES.ok;
+  for await (const request of requests)
+  {
+    const code = await writeRequest(writer, request, json);
+    if (exitCode === EXIT_CODES.ok)
+    {
+      exitCode = code;
+    }
+  }
+  await writer.dispose();
+  exit(exitCode);
+}
+
+/**
+ Returns the request of a plain (non-`--batch`) run: `<proposedFilename> <content>`, `<proposedFilename> -`, or `<proposedFilename> --from-file=<path>`.
+
+ @throws {TypeError} if the args don't add up
+ */
+function singleRequest(args: string[], fromFile: string | undefined): WriteRequest
+{
+  if (fromFile !== undefined)
+  {
+    if (args.length !== 1)
+    {
+      throw new TypeError('With --from-file, pass only the proposed filename (not the content too)');
+    }
+    return { proposedFilename: args[0], source: { path: fromFile } };
+  }
+  if (args.length !== 2)
+  {
+    throw new TypeError(`Expected a proposed filename and the content, got ${args.length} args (to write several files, use --batch)`);
   }
+  return { proposedFilename: args[0], source: args[1] === '-' ? { stdin: true } : { text: args[1] } };
+}
 
-  // The first positional arg is always the proposed filename:
-  const proposedFilename = String(positionalArgs[0]);
+/**
+ Returns the requests of `--batch` with `<proposedFilename> <source>` pairs.
 
-  // The second positional arg is the content
-  const content = String(positionalArgs[1]);
+ @throws {TypeError} if the args aren't pairs, or stdin is used more than once
+ */
+function pairRequests(args: string[]): WriteRequest[]
+{
+  if (args.length % 2 !== 0)
+  {
+    throw new TypeError(`--batch takes pairs of a proposed filename and a source, but the last one (${args.at(-1)}) has no source`);
+  }
+  const requests: WriteRequest[] = [];
+  for (let i = 0; i < args.length; i += 2)
+  {
+    requests.push({ proposedFilename: args[i], source: args[i + 1] === '-' ? { stdin: true } : { path: args[i + 1] } });
+  }
+  if (requests.filter(({ source }) => 'stdin' in source).length > 1)
+  {
+    throw new TypeError('There is only one stdin, so only one source can be -');
+  }
+  return requests;
+}
 
-  // If the user specified a directory, put that in the options (otherwise, don't pass any options so that the default options will be used):
-  const options = (typeof dir === 'string' && dir.length > 0)
-    ? { outputDirectory: dir }
-    : undefined;
+/**
+ Yields the requests of `--batch` without args, one per NDJSON line on stdin (blank lines are skipped). A line that isn't a valid request yields an `Error` instead, so that it can be reported, and the rest can still be written.
+ */
+async function* readNdjsonRequests(): AsyncGenerator<WriteRequest | Error>
+{
+  let lineNumber = 0;
+  for await (const line of createInterface({ input: stdin, crlfDelay: Infinity }))
+  {
+    lineNumber++;
+    if (line.trim() === '')
+    {
+      continue;
+    }
+    try
+    {
+      yield parseNdjsonRequest(JSON.parse(line));
+    }
+    catch (err: unknown)
+    {
+      yield new Error(`Invalid NDJSON request on line ${lineNumber}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+}
+
+/**
+ Turns one parsed NDJSON line into a request: `{"name": ..., "content": ...}`, with `"contentBase64"` or `"fromFile"` instead of `"content"`.
+
+ @throws {TypeError} if it isn't one
+ */
+function parseNdjsonRequest(value: unknown): WriteRequest
+{
+  if (!value || typeof value !== 'object' || typeof (value as { name?: unknown }).name !== 'string')
+  {
+    throw new TypeError('expected an object with a "name"');
+  }
+  const { name, content, contentBase64, fromFile } = value as Record<string, unknown>;
+  const sources = [
+    typeof content === 'string' ? { text: content } : undefined,
+    typeof contentBase64 === 'string' ? { bytes: Uint8Array.from(atob(contentBase64), (c) => c.charCodeAt(0)) } : undefined,
+    typeof fromFile === 'string' ? { path: fromFile } : undefined,
+  ].filter((source) => source !== undefined);
+  if (sources.length !== 1)
+  {
+    throw new TypeError('expected exactly one of "content", "contentBase64" or "fromFile" (as a string)');
+  }
+  return { proposedFilename: name as string, source: sources[0] };
+}
+
+/**
+ Writes one file, reports it (as a path, or with `--json`, as a JSON object) or the error, and returns the exit code for it.
+ */
+async function writeRequest(writer: NewFileWriter, request: WriteRequest | Error, json: boolean): Promise<number>
+{
+  if (request instanceof Error)
+  {
+    return report(undefined, request, EXIT_CODES.usage, json);
+  }
+
+  let content: WriteNewContent;
+  try
+  {
+    content = await openContent(request.source);
+  }
+  catch (err: unknown)
+  {
+    // Not being able to read the source is never about the output directory:
+    return report(request.proposedFilename, err, hasCode(err, 'EACCES', 'EPERM') ? EXIT_CODES.permissionDenied : EXIT_CODES.error, json);
+  }
 
   try
   {
-    // Actually write the file via writeNewFile()
-    const actualPath = await writeNewFile(proposedFilename, content, options);
-    console.log(`${actualPath}`);
-    exit(0);
+    const result = await writer.writeWithResult(request.proposedFilename, content);
+    console.log(json
+      ? JSON.stringify({
+        requested: request.proposedFilename,
+        path: result.path,
+        suffixed: result.path !== result.proposedPath,
+        bytes: result.byteLength,
+      })
+      : result.path);
+    return EXIT_CODES.ok;
+  }
+  catch (err: unknown)
+  {
+    return report(request.proposedFilename, err, exitCodeFor(err), json);
+  }
+}
+
+/**
+ Returns the content of a `ContentSource`, ready to be streamed into the file. A file is opened right away, so that a missing source file isn't mistaken for a missing output directory.
+ */
+async function openContent(source: ContentSource): Promise<WriteNewContent>
+{
+  if ('text' in source)
+  {
+    return source.text;
+  }
+  if ('bytes' in source)
+  {
+    return source.bytes;
+  }
+  if ('stdin' in source)
+  {
+    return stdin;
+  }
+  const stream = createReadStream(source.path);
+  await once(stream, 'open');
+  return stream;
+}
+
+/**
+ Prints the error of a request that failed (as a JSON object, with `--json`), and returns its `exitCode`.
+ */
+function report(proposedFilename: string | undefined, err: unknown, exitCode: number, json: boolean): number
+{
+  const message = err instanceof Error ? err.message : String(err);
+  if (json)
+  {
+    console.log(JSON.stringify({ requested: proposedFilename ?? null, error: message, exitCode }));
+  }
+  else
+  {
+    console.error(proposedFilename === undefined ? message : `Error writing ${proposedFilename}: ${message}`);
+  }
+  return exitCode;
+}
+
+/**
+ Returns the exit code for an error thrown while writing a file: a filename that the `filenamePolicy` rejects is a bad argument, and otherwise it goes by the `code` of the error or its causes.
+ */
+function exitCodeFor(err: unknown): number
+{
+  if (err instanceof InvalidFilenameError)
+  {
+    return EXIT_CODES.usage;
+  }
+  for (let error = err; error && typeof error === 'object'; error = (error as { cause?: unknown }).cause)
+  {
+    if (hasCode(error, 'ENOENT', 'ENOTDIR'))
+    {
+      return EXIT_CODES.directoryMissing;
+    }
+    if (hasCode(error, 'EACCES', 'EPERM'))
+    {
+      return EXIT_CODES.permissionDenied;
+    }
+  }
+  return EXIT_CODES.error;
+}
+
+/**
+ Whether `err` is an error with one of these `code`s.
+ */
+function hasCode(err: unknown, ...codes: string[]): boolean
+{
+  return !!err && typeof err === 'object' && 'code' in err && codes.includes(err.code as string);
+}
+
+/**
+ Implements `--sweep`: removes (or with `--dry-run`, lists) stale temp files, printing one path per line.
+ */
+async function runSweep(dir: string | undefined, olderThan: string | undefined, dryRun: boolean): Promise<void>
+{
+  const directory = (typeof dir === 'string' && dir.length > 0) ? dir : cwd();
+  const olderThanMs = parseDuration(olderThan ?? '1h');
+  if (olderThanMs === undefined)
+  {
+    console.error(`Invalid --older-than duration: ${olderThan} (try something like 90s, 10m, 6h, or 2d)`);
+    exit(EXIT_CODES.usage);
+  }
+
+  try
+  {
+    const swept = await sweepStaleTempFiles(directory, { olderThan: olderThanMs, dryRun });
+    for (const { path } of swept)
+    {
+      console.log(dryRun ? `would remove: ${path}` : `removed: ${path}`);
+    }
+    exit(EXIT_CODES.ok);
   }
   catch (err)
   {
-    console.error(`Error writing file: ${err}`);
-    exit(1);
+    console.error(`Error sweeping temp files: ${err}`);
+    exit(exitCodeFor(err));
+  }
+}
+
+/**
+ Turns the `--mode`, `--uid`, `--gid` and `--mtime` args (whichever were given) into `FileAttributes`.
+
+ @throws {TypeError} if any of them is invalid
+ */
+function parseFileAttributeArgs(args: {
+  mode?: string;
+  uid?: string;
+  gid?: string;
+  mtime?: string;
+}): FileAttributes
+{
+  const attributes: FileAttributes = {};
+  if (args.mode !== undefined)
+  {
+    attributes.mode = parseFileMode(args.mode);
+  }
+  for (const key of ['uid', 'gid'] as const)
+  {
+    const value = args[key];
+    if (value !== undefined)
+    {
+      if (!/^\d+$/.test(value))
+      {
+        throw new TypeError(`Invalid --${key}: ${value}`);
+      }
+      attributes[key] = Number(value);
+    }
+  }
+  if (args.mtime !== undefined)
+  {
+    const date = new Date(args.mtime);
+    if (isNaN(date.getTime()))
+    {
+      throw new TypeError(`Invalid --mtime: ${args.mtime}`);
+    }
+    attributes.mtime = date;
+  }
+  return attributes;
+}
+
+/**
+ Parses a duration like `'90s'`, `'10m'`, `'6h'`, `'2d'`, or a bare number of seconds, into milliseconds. Returns `undefined` if it can't.
+ */
+function parseDuration(duration: string): number | undefined
+{
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)?$/.exec(duration.trim());
+  if (!match)
+  {
+    return undefined;
   }
+  const multipliers: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+  return Number(match[1]) * multipliers[match[2] ?? 's'];
 }
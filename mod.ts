@@ -1,6 +1,45 @@
+export * from './claimNextFile.ts';
+export * from './Clock.ts';
+export * from './ContentTransform.ts';
+export * from './createNewFileWriter.ts';
+export * from './Durability.ts';
+export * from './ExistingFilePolicy.ts';
+export * from './FanOutError.ts';
+export * from './FanOutPolicy.ts';
+export * from './FileAttributes.ts';
+export * from './FileExistsError.ts';
+export * from './FilenamePolicy.ts';
+export * from './FileSystem.ts';
 export * from './formatDateForFilenameSuffix.ts';
+export * from './generateUlid.ts';
+export * from './Integrity.ts';
+export * from './InvalidFilenameError.ts';
+export * from './listFileFamily.ts';
+export * from './MemoryFileSystem.ts';
+export * from './NamingStrategy.ts';
+export * from './Ordering.ts';
+export * from './parseFilenameSuffix.ts';
+export * from './pruneFamily.ts';
+export * from './PublishStrategy.ts';
+export * from './QuotaExceededError.ts';
+export * from './QuotaPolicy.ts';
+export * from './Shard.ts';
+export * from './stageTempFile.ts';
+export * from './SuffixFormat.ts';
+export * from './sweepStaleTempFiles.ts';
+export * from './TempFileOptions.ts';
 export * from './tryCreateFile.ts';
+export * from './verifyFile.ts';
+export * from './watchNewFiles.ts';
+export * from './WriteNewContent.ts';
 export * from './writeNewFile.ts';
+export * from './WriteNewFileGaveUpError.ts';
+export * from './WriteNewFileHooks.ts';
+export * from './WriteNewFileResult.ts';
+export * from './writeNewFiles.ts';
+export * from './writeNewFileSync.ts';
+export * from './WriteNewFileStats.ts';
+export * from './writeNewFileToAll.ts';
 export * from './WriteNewOptions.ts';
 
 import { main } from './main.ts';
@@ -0,0 +1,417 @@
+import { format, join, parse } from '@std/path';
+import { resolveProposedFilename } from './candidateFilenames.ts';
+import { prepareOutputDirectory } from './checkOutputDirectory.ts';
+import { systemClock } from './Clock.ts';
+import { transformContent } from './ContentTransform.ts';
+import type { NewFileWriter } from './createNewFileWriter.ts';
+import { checkQuotaPolicy, publishWithinQuota, waitForQuota } from './directoryQuota.ts';
+import { acquireFamilyReservations, releaseFamilyReservations } from './FamilyReservations.ts';
+import { fileAttributesOf } from './FileAttributes.ts';
+import {
+  checkMonotonicOrdering,
+  lastFamilyName,
+  lockFamily,
+  nextMonotonicFilename,
+  recordFamilyName,
+} from './familySequence.ts';
+import { checkProposedFilename } from './FilenamePolicy.ts';
+import { type FileSystem, nodeFileSystem } from './FileSystem.ts';
+import { listFileFamily } from './listFileFamily.ts';
+import { pruneFamily } from './pruneFamily.ts';
+import {
+  finishPublishingSteps,
+  performPublishSteps,
+  publishAsSteps,
+  type PublishContext,
+  type PublishedFile,
+  publishedResult,
+  publishStagedFileSteps,
+} from './publishSteps.ts';
+import { sha256OfFile } from './sha256OfFile.ts';
+import { discardTempFile, type StagedTempFile, stageTempFile } from './stageTempFile.ts';
+import { tryCreateFile } from './tryCreateFile.ts';
+import { WriteAttempts } from './WriteAttempts.ts';
+import type { WriteNewContent } from './WriteNewContent.ts';
+import type { WriteNewFileResult } from './WriteNewFileResult.ts';
+import { writeNewFileSync } from './writeNewFileSync.ts';
+import type { WriteNewOptions } from './WriteNewOptions.ts';
+import { WriteObserver } from './WriteObserver.ts';
+
+/**
+ Makes everything of a `NewFileWriter` except its own configuration — for `createNewFileWriter()`, and for the default writer behind `writeNewFile()`. `resolveOptions` turns the options passed to each call into the options to write with.
+ */
+export function newFileWriter(
+  resolveOptions: (options?: Partial<WriteNewOptions>) => WriteNewOptions,
+): Omit<NewFileWriter, 'options' | 'stats'>
+{
+  const inFlight = new Set<Promise<unknown>>();
+  // The temp files of this writer's writes that are still there (normally just the ones being written right now):
+  const tempFiles = new Map<string, FileSystem>();
+  let disposal: Promise<void> | undefined;
+
+  /**
+   Internal function that throws if `dispose()` has been called
+   */
+  function throwIfDisposed(): void
+  {
+    if (disposal)
+    {
+      throw new Error('This NewFileWriter has been disposed');
+    }
+  }
+
+  /**
+   Internal function that keeps `promise` in `inFlight` until it settles, for `dispose()` to wait for
+   */
+  function track<T>(promise: Promise<T>): Promise<T>
+  {
+    inFlight.add(promise);
+    const settled = () => inFlight.delete(promise);
+    promise.then(settled, settled);
+    return promise;
+  }
+
+  async function writeWithResult(
+    proposedFilename: string,
+    content: WriteNewContent,
+    options?: Partial<WriteNewOptions>,
+  ): Promise<WriteNewFileResult>
+  {
+    throwIfDisposed();
+    const resolvedOptions = resolveOptions(options);
+    const observer = WriteObserver.create(proposedFilename, resolvedOptions);
+    try
+    {
+      const result = await track(writeAndPublish(proposedFilename, content, resolvedOptions, observer, tempFiles));
+      observer?.published(result);
+      return result;
+    }
+    catch (err: unknown)
+    {
+      observer?.failed(err);
+      throw err;
+    }
+  }
+
+  return {
+    writeWithResult,
+
+    async write(proposedFilename, content, options)
+    {
+      const result = await writeWithResult(proposedFilename, content, options);
+      return result.path;
+    },
+
+    writeSync(proposedFilename, content, options)
+    {
+      throwIfDisposed();
+      return writeNewFileSync(proposedFilename, content, resolveOptions(options));
+    },
+
+    async tryCreate(filename, content, options)
+    {
+      throwIfDisposed();
+      const resolvedOptions = resolveOptions(options);
+      // No suffix is ever added here, so the whole name is ours:
+      const safeFilename = checkProposedFilename(filename, resolvedOptions.filenamePolicy ?? 'reject', 0, resolvedOptions.tempFile);
+      const { publishStrategy, durability, tempFile, fileSystem, mode, uid, gid, mtime } = resolvedOptions;
+      return await track(tryCreateFile(join(resolvedOptions.outputDirectory, safeFilename), content, {
+        publishStrategy,
+        durability,
+        tempFile,
+        fileSystem,
+        mode,
+        uid,
+        gid,
+        mtime,
+      }));
+    },
+
+    dispose()
+    {
+      disposal ??= (async () =>
+      {
+        // A write that settles may have been holding up another one (e.g. a reserved name), so keep going until there are none left:
+        while (inFlight.size > 0)
+        {
+          await Promise.allSettled(inFlight);
+        }
+        for (const [tempPath, fileSystem] of tempFiles)
+        {
+          if (await discardTempFile(tempPath, fileSystem))
+          {
+            tempFiles.delete(tempPath);
+          }
+        }
+      })();
+      return disposal;
+    },
+  };
+}
+
+/**
+ The actual work of a write, reporting what it does to the `observer`, if there is one, and keeping track of its temp file in `tempFiles` until it is gone
+ */
+async function writeAndPublish(
+  proposedFilename: string,
+  content: WriteNewContent,
+  resolvedOptions: WriteNewOptions,
+  observer: WriteObserver | undefined,
+  tempFiles: Map<string, FileSystem>,
+): Promise<WriteNewFileResult>
+{
+  const namingStrategy = resolvedOptions.namingStrategy ?? 'date';
+  const durability = resolvedOptions.durability ?? 'none';
+  const onExisting = resolvedOptions.onExisting ?? 'suffix';
+  const fileSystem = resolvedOptions.fileSystem ?? nodeFileSystem;
+  const clock = resolvedOptions.clock ?? systemClock;
+  const integrity = resolvedOptions.integrity ?? 'none';
+  const transforms = resolvedOptions.transforms ?? [];
+  const ordering = resolvedOptions.ordering ?? 'clock';
+  const { retryInterval = 50, suffixFormat, tempFile } = resolvedOptions;
+  const attributes = fileAttributesOf(resolvedOptions);
+
+  if (resolvedOptions.outputDirectories)
+  {
+    throw new TypeError('writeNewFile() writes to one outputDirectory (use writeNewFileToAll() for outputDirectories)');
+  }
+  if (ordering === 'monotonic')
+  {
+    checkMonotonicOrdering(resolvedOptions);
+  }
+  if (resolvedOptions.quota)
+  {
+    checkQuotaPolicy(resolvedOptions.quota, fileSystem);
+  }
+
+  const safeFilename = resolveProposedFilename(proposedFilename, resolvedOptions);
+
+  const directory = await prepareOutputDirectory(resolvedOptions, clock, fileSystem);
+
+  const filePath = format({
+    dir: directory,
+    base: safeFilename,
+  });
+
+  const parsed = parse(filePath);
+
+  const attempts = WriteAttempts.start(proposedFilename, resolvedOptions);
+  const { signal } = attempts;
+
+  /**
+   Internal function that waits `ms` milliseconds — for the clock, a lock, or room in the quota — and then throws if we have to stop trying
+   */
+  async function wait(ms: number): Promise<void>
+  {
+    await clock.sleep(ms, signal);
+    observer?.slept(ms);
+    attempts.giveUpIfNecessary();
+  }
+
+  attempts.giveUpIfNecessary();
+  const { quota } = resolvedOptions;
+  const quotaContext = { proposedFilename, fileSystem, tempFile, durability, retryInterval, wait, waited: 0 };
+  if (quota)
+  {
+    // Before staging, too, as far as the size is known by then:
+    const byteLength = transforms.length > 0 ? undefined : byteLengthOf(content);
+    quotaContext.waited = await waitForQuota(parsed, byteLength, quota, quotaContext);
+  }
+
+  let staged: StagedTempFile;
+  try
+  {
+    staged = await stageTempFile(filePath, transforms.length > 0 ? transformContent(content, transforms) : content, {
+      hash: namingStrategy === 'content-hash' || onExisting === 'skip-if-identical' || integrity !== 'none',
+      sync: durability !== 'none',
+      attributes,
+      tempFile,
+      signal,
+      fileSystem,
+    });
+  }
+  catch (err: unknown)
+  {
+    attempts.giveUpIfNecessary(); // if that is why staging failed
+    throw err;
+  }
+  tempFiles.set(staged.tempPath, fileSystem);
+
+  const context: PublishContext = {
+    proposedFilename,
+    parsed,
+    staged,
+    options: resolvedOptions,
+    durability,
+    attributes,
+    attempts,
+    observer,
+    clock,
+    fileSystem,
+  };
+
+  let published: PublishedFile;
+  try
+  {
+    published = quota
+      ? await publishWithinQuota(parsed, staged.byteLength, quota, quotaContext, publishStagedFile)
+      : await publishStagedFile();
+  }
+  finally
+  {
+    if (await discardTempFile(staged.tempPath, fileSystem))
+    {
+      tempFiles.delete(staged.tempPath);
+    }
+  }
+  const result = publishedResult(published, context);
+  if (published.outcome === 'skipped-identical')
+  {
+    return result;
+  }
+
+  await performPublishSteps(finishPublishingSteps(published, context), context);
+
+  if (resolvedOptions.retention)
+  {
+    try
+    {
+      await pruneFamily(parsed.dir, parsed.base, {
+        suffixTimeZone: suffixFormat?.timeZone,
+        now: clock.now(),
+        ...resolvedOptions.retention,
+      }, { fileSystem });
+    }
+    catch
+    {
+      // The write itself succeeded, and throwing now would make the caller think it didn't. Pruning is best-effort here — call pruneFamily() yourself if you need to know.
+    }
+  }
+
+  return result;
+
+  /**
+   Internal function that publishes the staged temp file under a unique name (see `publishStagedFileSteps()`), or in order, or not at all if there is an identical file already (or does whatever else `onExisting` says)
+   */
+  async function publishStagedFile(): Promise<PublishedFile>
+  {
+    const reservations = acquireFamilyReservations(fileSystem, filePath);
+
+    /**
+     Internal function that publishes the staged temp file under the next name of the family in order (see `Ordering`), taking turns with the other writers of the family by holding the family's lock
+     */
+    async function publishInOrder(): Promise<PublishedFile>
+    {
+      const unlock = await lockFamily(parsed, { fileSystem, tempFile, wait: () => wait(retryInterval) });
+      try
+      {
+        let last = await lastFamilyName(parsed, { fileSystem, tempFile });
+        for (;;)
+        {
+          attempts.giveUpIfNecessary();
+          const candidateFilename = nextMonotonicFilename(parsed, last, clock.now(), suffixFormat);
+          if (candidateFilename === undefined)
+          {
+            await wait(retryInterval);
+            continue;
+          }
+
+          const candidatePath = format({ dir: parsed.dir, base: candidateFilename });
+          if (await performPublishSteps(publishAsSteps(candidateFilename, context, reservations), context))
+          {
+            try
+            {
+              await recordFamilyName(parsed, candidateFilename, { fileSystem, tempFile, durability });
+            }
+            catch
+            {
+              // The file is published, and throwing now would make the caller think it wasn't. As long as it is in the directory, the next writer goes by it anyway.
+            }
+            return { path: candidatePath, outcome: 'created' };
+          }
+
+          // Taken by a writer that doesn't take turns (or reserved by one in this process that doesn't), so get past it:
+          attempts.tried(candidatePath);
+          last = candidateFilename;
+        }
+      }
+      finally
+      {
+        await unlock();
+      }
+    }
+
+    try
+    {
+      if (onExisting === 'skip-if-identical')
+      {
+        const identicalPath = await findIdenticalFile(
+          parsed.dir,
+          parsed.base,
+          staged,
+          suffixFormat?.timeZone,
+          fileSystem,
+        );
+        if (identicalPath !== undefined)
+        {
+          return { path: identicalPath, outcome: 'skipped-identical' };
+        }
+      }
+      if (ordering === 'monotonic')
+      {
+        attempts.giveUpIfNecessary();
+        return await publishInOrder();
+      }
+      return await performPublishSteps(publishStagedFileSteps(context, reservations), context);
+    }
+    finally
+    {
+      releaseFamilyReservations(fileSystem, filePath);
+    }
+  }
+}
+
+/**
+ Returns the full path of a member of the file family of `proposedFilename` (see `listFileFamily()`) whose content is identical to the staged temp file, if there is one, newest first.
+ */
+async function findIdenticalFile(
+  directory: string,
+  proposedFilename: string,
+  staged: StagedTempFile,
+  timeZone: 'local' | 'utc' | undefined,
+  fileSystem: FileSystem,
+): Promise<string | undefined>
+{
+  for (const member of await listFileFamily(directory, proposedFilename, { timeZone, fileSystem }))
+  {
+    if (member.size !== staged.byteLength)
+    {
+      continue; // no need to hash that one
+    }
+    const path = join(directory, member.name);
+    try
+    {
+      if (await sha256OfFile(path, fileSystem) === staged.sha256)
+      {
+        return path;
+      }
+    }
+    catch
+    {
+      // Gone already (or unreadable, which for our purposes is the same as different)
+    }
+  }
+  return undefined;
+}
+
+/**
+ Returns the size of `content` in bytes, if it can be told without reading it (i.e. unless it's streamed)
+ */
+function byteLengthOf(content: WriteNewContent): number | undefined
+{
+  if (typeof content === 'string')
+  {
+    return new TextEncoder().encode(content).byteLength;
+  }
+  return content instanceof Uint8Array ? content.byteLength : undefined;
+}
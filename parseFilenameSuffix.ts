@@ -0,0 +1,109 @@
+/**
+ The parts of a filename produced by `writeNewFile()` with the `'date'` naming strategy, as returned by `parseFilenameSuffix()`.
+
+ @property baseName The proposed filename's name, without the suffix or extension (e.g. `'example'`)
+
+ @property extension The extension, including the dot (e.g. `'.txt'`), or `''` if there isn't one
+
+ @property proposedFilename The filename originally proposed to `writeNewFile()` (e.g. `'example.txt'`)
+
+ @property timestamp When the file was written, according to the suffix (to the second, or to the millisecond if the suffix has millisecond precision)
+
+ @property tiebreaker The `+NNN` tiebreaker, if there is one (e.g. `173`)
+
+ @property style Which `SuffixFormat` style the suffix is in
+*/
+export type ParsedFilenameSuffix = {
+  baseName: string;
+  extension: string;
+  proposedFilename: string;
+  timestamp: Date;
+  tiebreaker?: number;
+  style: 'default' | 'iso-basic';
+};
+
+/**
+ The inverse of the `'date'` naming strategy: takes a filename produced by `writeNewFile()`, like `'example~2024-12-22-16-39-42+173.txt'` or `'example~20241222T163942Z.txt'`, and picks it apart into the base name, extension, timestamp and tiebreaker — so tools can recover the creation order (sort by `timestamp`, then by `tiebreaker`, with no tiebreaker coming first) without relying on lexicographic order.
+
+ All the `SuffixFormat` variants are recognized. The one thing that can't be recovered from the filename is whether a `'default'`-style timestamp was in local time or UTC, so you have to say (ISO basic timestamps always carry their zone).
+
+ @param filename A filename (or path — only the part after the last separator is looked at)
+
+ @param options `timeZone`: how to interpret `'default'`-style timestamps (default: `'local'`, which is what `writeNewFile()` uses by default)
+
+ @returns The parsed parts, or `undefined` if the filename has no (valid) date suffix — e.g. because it was written under the proposed filename as-is
+*/
+export function parseFilenameSuffix(
+  filename: string,
+  options: { timeZone?: 'local' | 'utc' } = {},
+): ParsedFilenameSuffix | undefined
+{
+  const name = filename.slice(Math.max(filename.lastIndexOf('/'), filename.lastIndexOf('\\')) + 1);
+
+  const defaultStyle = DEFAULT_STYLE_PATTERN.exec(name);
+  if (defaultStyle)
+  {
+    const [, baseName, y, mo, d, h, mi, s, ms, tiebreaker, extension] = defaultStyle;
+    const parts = [y, mo, d, h, mi, s, ms ?? '0'].map(Number);
+    const [year, month, day, hours, minutes, seconds, milliseconds] = parts;
+    const timestamp = options.timeZone === 'utc'
+      ? new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds, milliseconds))
+      : new Date(year, month - 1, day, hours, minutes, seconds, milliseconds);
+    return result(baseName, extension, timestamp, tiebreaker, 'default', parts);
+  }
+
+  const isoBasic = ISO_BASIC_PATTERN.exec(name);
+  if (isoBasic)
+  {
+    const [, baseName, y, mo, d, h, mi, s, ms, zone, tiebreaker, extension] = isoBasic;
+    const parts = [y, mo, d, h, mi, s, ms ?? '0'].map(Number);
+    const [year, month, day, hours, minutes, seconds, milliseconds] = parts;
+    let time = Date.UTC(year, month - 1, day, hours, minutes, seconds, milliseconds);
+    if (zone !== 'Z')
+    {
+      const offsetMinutes = Number(zone.slice(1, 3)) * 60 + Number(zone.slice(3, 5));
+      time -= (zone[0] === '-' ? -1 : 1) * offsetMinutes * 60_000;
+    }
+    return result(baseName, extension, new Date(time), tiebreaker, 'iso-basic', parts);
+  }
+
+  return undefined;
+}
+
+const DEFAULT_STYLE_PATTERN = /^(.*)~(\d{4})-(\d{2})-(\d{2})-(\d{2})-(\d{2})-(\d{2})(?:-(\d{3}))?(?:\+(\d+))?(\.[^.]*)?$/;
+
+const ISO_BASIC_PATTERN = /^(.*)~(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(?:,(\d{3}))?(Z|[+-]\d{4})(?:\+(\d+))?(\.[^.]*)?$/;
+
+/**
+ Assembles the result, or returns `undefined` if the date parts are out of range (like a 13th month) — such a name wasn't made by us.
+ */
+function result(
+  baseName: string,
+  extension: string | undefined,
+  timestamp: Date,
+  tiebreaker: string | undefined,
+  style: 'default' | 'iso-basic',
+  [, month, day, hours, minutes, seconds]: number[],
+): ParsedFilenameSuffix | undefined
+{
+  if (
+    baseName.length === 0 || isNaN(timestamp.getTime())
+    || month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || minutes > 59 || seconds > 59
+  )
+  {
+    return undefined;
+  }
+
+  const parsed: ParsedFilenameSuffix = {
+    baseName,
+    extension: extension ?? '',
+    proposedFilename: baseName + (extension ?? ''),
+    timestamp,
+    style,
+  };
+  if (tiebreaker !== undefined)
+  {
+    parsed.tiebreaker = Number(tiebreaker);
+  }
+  return parsed;
+}
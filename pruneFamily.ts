@@ -0,0 +1,119 @@
+import { join } from '@std/path';
+import { type FileSystem, nodeFileSystem } from './FileSystem.ts';
+import { SHA256_SIDECAR_EXTENSION } from './Integrity.ts';
+import { type FileFamilyMember, listFileFamily } from './listFileFamily.ts';
+
+/**
+ Which members of a file family to keep. Any combination can be given; a file is removed if it violates any of them. The newest file in the family is always kept, whatever the policy says.
+
+ @property keepLast Keep (at most) the newest N files
+
+ @property maxAge Remove files older than this many milliseconds
+
+ @property maxTotalBytes Keep the newest files whose combined size fits in this many bytes, and remove the rest
+
+ @property suffixTimeZone How to interpret `'default'`-style date suffixes when working out how old a file is (default: `'local'` — see `parseFilenameSuffix()`)
+
+ @property now The time to measure ages against (default: now)
+*/
+export type RetentionPolicy = {
+  keepLast?: number;
+  maxAge?: number;
+  maxTotalBytes?: number;
+  suffixTimeZone?: 'local' | 'utc';
+  now?: Date;
+};
+
+/**
+ Applies a retention policy to a family of files written by `writeNewFile()` — e.g. `status.json` and all of its `status~2024-12-22-16-39-42.json`, `status~2024-12-22-16-39-42+173.json`, ... siblings — deleting the oldest ones that the policy says to get rid of.
+
+ The family is identified strictly, by `listFileFamily()`: only the proposed filename itself and files with exactly the suffixes that the built-in naming strategies generate are members. Anything else — `status-old.json`, `status~backup.json`, temp files — is never touched, except that a removed file's `.sha256` sidecar (see `Integrity`) goes with it.
+
+ Age and order are taken from the date suffix where there is one, and from the modification time otherwise.
+
+ It is safe to run this from several processes at once: each one only ever removes files older than the ones it keeps, and files that some other process (or a consumer) removed first are just skipped.
+
+ @param directory The directory the family lives in
+
+ @param proposedFilename The filename that was proposed to `writeNewFile()`, e.g. `'status.json'`
+
+ @param policy See `RetentionPolicy`
+
+ @param options `fileSystem`: where the files are (default: the real disk — see `FileSystem`)
+
+ @returns The full paths of the files that were removed, oldest first
+*/
+export async function pruneFamily(
+  directory: string,
+  proposedFilename: string,
+  policy: RetentionPolicy,
+  options: { fileSystem?: FileSystem } = {},
+): Promise<string[]>
+{
+  const { keepLast, maxAge, maxTotalBytes, suffixTimeZone, now = new Date() } = policy;
+  const fileSystem = options.fileSystem ?? nodeFileSystem;
+  for (const [key, value] of Object.entries({ keepLast, maxAge, maxTotalBytes }))
+  {
+    if (value !== undefined && !(Number.isFinite(value) && value >= 0))
+    {
+      throw new RangeError(`Invalid retention policy: ${key} must be a non-negative number, not ${value}`);
+    }
+  }
+
+  // Newest first:
+  const members = await listFileFamily(directory, proposedFilename, { timeZone: suffixTimeZone, fileSystem });
+
+  const doomed: FileFamilyMember[] = [];
+  let totalBytes = 0;
+  for (const [index, member] of members.entries())
+  {
+    totalBytes += member.size;
+    if (index === 0)
+    {
+      continue; // always keep the newest one
+    }
+    if (
+      (keepLast !== undefined && index >= keepLast)
+      || (maxAge !== undefined && now.getTime() - member.time > maxAge)
+      || (maxTotalBytes !== undefined && totalBytes > maxTotalBytes)
+    )
+    {
+      doomed.push(member);
+    }
+  }
+
+  const removed: string[] = [];
+  for (const member of doomed.reverse())
+  {
+    const path = join(directory, member.name);
+    try
+    {
+      await fileSystem.unlink(path);
+      removed.push(path);
+      await removeSidecar(path, fileSystem);
+    }
+    catch (err: unknown)
+    {
+      if (!(err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT'))
+      {
+        throw err;
+      }
+    }
+  }
+  return removed;
+}
+
+/**
+ Removes the `.sha256` sidecar of a pruned file (see `Integrity`), if it has one.
+ */
+async function removeSidecar(path: string, fileSystem: FileSystem): Promise<void>
+{
+  try
+  {
+    await fileSystem.unlink(path + SHA256_SIDECAR_EXTENSION);
+  }
+  catch
+  {
+    // Didn't have one
+  }
+}
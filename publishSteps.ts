@@ -0,0 +1,396 @@
+import { basename, format, type ParsedPath } from '@std/path';
+import { readdirSync, renameSync, unlinkSync } from 'node:fs';
+import { candidateStrategy, firstCandidateFilename, nextCandidateFilename } from './candidateFilenames.ts';
+import type { Clock } from './Clock.ts';
+import { type Durability, syncDirectory, syncDirectorySync } from './Durability.ts';
+import type { FamilyReservations } from './FamilyReservations.ts';
+import type { FileAttributes } from './FileAttributes.ts';
+import { FileExistsError } from './FileExistsError.ts';
+import type { FileSystem } from './FileSystem.ts';
+import { SHA256_SIDECAR_EXTENSION } from './Integrity.ts';
+import { findHighestCounter } from './NamingStrategy.ts';
+import { sha256OfFile, sha256OfFileSync, sha256SidecarContent } from './sha256OfFile.ts';
+import { sleepSync } from './sleep.ts';
+import {
+  discardTempFile,
+  discardTempFileSync,
+  type StagedTempFile,
+  stageTempFile,
+  stageTempFileSync,
+} from './stageTempFile.ts';
+import { tryPublishTempFile, tryPublishTempFileSync } from './tryCreateFile.ts';
+import type { WriteAttempts } from './WriteAttempts.ts';
+import type { WriteNewFileResult } from './WriteNewFileResult.ts';
+import type { WriteNewOptions } from './WriteNewOptions.ts';
+import type { WriteObserver } from './WriteObserver.ts';
+
+/**
+ One thing that publishing a staged temp file needs the file system (or the clock) to do.
+
+ This is how `writeNewFile()` and `writeNewFileSync()` share everything but their I/O: the generators in this module make all the decisions — which name to try next, when to wait and when to give up, what to take back when something fails — and yield the steps, and each writer carries them out with its own async or sync calls (see `performPublishSteps()` and `performPublishStepsSync()`). A step with an outcome gets the outcome written into it, for the generator to read when it resumes; a step that fails is thrown into the generator.
+ */
+export type PublishStep =
+  | { kind: 'publish'; tempPath: string; path: string; published: boolean }
+  | { kind: 'scan-counters'; reservations: FamilyReservations; highestCounter: number }
+  | { kind: 'sleep'; ms: number }
+  | { kind: 'stage'; path: string; content: string; tempPath: string }
+  | { kind: 'rename'; oldPath: string; newPath: string }
+  | { kind: 'discard'; tempPath: string }
+  | { kind: 'unlink'; path: string }
+  | { kind: 'hash'; path: string; sha256: string }
+  | { kind: 'sync-directory'; path: string };
+
+/**
+ A generator of `PublishStep`s that comes up with a `T` in the end.
+ */
+export type PublishSteps<T> = Generator<PublishStep, T, void>;
+
+/**
+ Everything the steps of one write need to know about it. `parsed` is the proposed path, in the directory the file is published in.
+ */
+export type PublishContext = {
+  proposedFilename: string;
+  parsed: ParsedPath;
+  staged: StagedTempFile;
+  options: WriteNewOptions;
+  durability: Durability;
+  attributes: FileAttributes;
+  attempts: WriteAttempts;
+  observer: WriteObserver | undefined;
+  clock: Clock;
+  fileSystem: FileSystem;
+};
+
+/**
+ Where the staged temp file ended up, and how.
+ */
+export type PublishedFile = Pick<WriteNewFileResult, 'path' | 'outcome'>;
+
+/**
+ Generates the steps that offer the staged temp file under one candidate name after another until it sticks (or do whatever else `onExisting` says). The naming itself is left to `firstCandidateFilename()` and `nextCandidateFilename()`, and goes by the shared `reservations` of the family.
+
+ This doesn't cover `onExisting: 'skip-if-identical'` or `ordering: 'monotonic'` — only `writeNewFile()` does those, before it gets here.
+ */
+export function* publishStagedFileSteps(context: PublishContext, reservations: FamilyReservations): PublishSteps<PublishedFile>
+{
+  const { proposedFilename, parsed, staged, options, attempts, clock } = context;
+  const onExisting = options.onExisting ?? 'suffix';
+
+  // With the digest in the suffix, even the first name we try has a suffix:
+  const firstFilename = firstCandidateFilename(parsed, options, staged.sha256);
+  const firstPath = format({ dir: parsed.dir, base: firstFilename });
+
+  attempts.giveUpIfNecessary();
+  if (onExisting === 'fail' || onExisting === 'replace')
+  {
+    // Only the file system can tell us whether the file really exists, so don't go by the reservations here:
+    context.observer?.attempt(firstPath);
+    if (yield* publishTempFile(staged.tempPath, firstPath))
+    {
+      return { path: firstPath, outcome: 'created' };
+    }
+    context.observer?.collision(firstPath, 'exists');
+    if (onExisting === 'fail')
+    {
+      throw new FileExistsError(proposedFilename, firstPath);
+    }
+    // Unlike link(), rename() replaces the target atomically, which is exactly what we want this time:
+    yield { kind: 'rename', oldPath: staged.tempPath, newPath: firstPath };
+    return { path: firstPath, outcome: 'replaced' };
+  }
+  if (yield* publishAsSteps(firstFilename, context, reservations))
+  {
+    return { path: firstPath, outcome: 'created' };
+  }
+  attempts.tried(firstPath);
+
+  const { strategy, contentHash, firstAttempt } = candidateStrategy(options, staged.sha256);
+  if (strategy === 'counter')
+  {
+    const scan: PublishStep = { kind: 'scan-counters', reservations, highestCounter: 0 };
+    yield scan;
+    reservations.highestCounter = Math.max(reservations.highestCounter ?? 0, scan.highestCounter);
+  }
+
+  for (let attempt = firstAttempt;; attempt++)
+  {
+    attempts.giveUpIfNecessary();
+    let candidateFilename: string | undefined;
+    while (
+      (candidateFilename = nextCandidateFilename(reservations, strategy, parsed, {
+        attempt,
+        now: clock.now(),
+        contentHash,
+        suffixFormat: options.suffixFormat,
+      })) === undefined
+    )
+    {
+      // All the tiebreakers for this timestamp are taken, so the next name has to wait for the clock to move on:
+      yield* waitSteps(options.retryInterval ?? 50, context);
+    }
+
+    const candidatePath = format({ dir: parsed.dir, base: candidateFilename });
+    if (yield* publishAsSteps(candidateFilename, context, reservations))
+    {
+      return { path: candidatePath, outcome: 'created' }; // success!
+    }
+
+    // If we get here, the candidate already existed or was created by someone else in that minuscule slice of time (or is being created by another writer in this process right now), so rinse, repeat.
+    attempts.tried(candidatePath);
+  }
+}
+
+/**
+ Generates the steps that try to publish the staged temp file as `filename` — unless another writer in this process is already trying to take that name, in which case there is no need to ask the file system. The result is whether it worked.
+ */
+export function* publishAsSteps(
+  filename: string,
+  context: PublishContext,
+  reservations: FamilyReservations,
+): PublishSteps<boolean>
+{
+  const path = format({ dir: context.parsed.dir, base: filename });
+  context.observer?.attempt(path);
+  if (reservations.reserved.has(filename))
+  {
+    context.observer?.collision(path, 'reserved');
+    return false;
+  }
+  reservations.reserved.add(filename);
+  try
+  {
+    if (yield* publishTempFile(context.staged.tempPath, path))
+    {
+      return true;
+    }
+    context.observer?.collision(path, 'exists');
+    return false;
+  }
+  finally
+  {
+    reservations.reserved.delete(filename);
+  }
+}
+
+/**
+ Generates the steps that wait `ms` milliseconds — for the clock, a lock, or room in the quota — and then throw if we have to stop trying.
+ */
+function* waitSteps(ms: number, context: PublishContext): PublishSteps<void>
+{
+  yield { kind: 'sleep', ms };
+  context.observer?.slept(ms);
+  context.attempts.giveUpIfNecessary();
+}
+
+/**
+ Generates the steps that finish a write once its file is published: the `.sha256` sidecar, if the `integrity` option asks for one, and the directory sync, if the `durability` option does.
+ */
+export function* finishPublishingSteps(published: PublishedFile, context: PublishContext): PublishSteps<void>
+{
+  const { path, outcome } = published;
+  if (context.options.integrity === 'sidecar')
+  {
+    try
+    {
+      yield* publishSidecarSteps(path, context);
+    }
+    catch (err: unknown)
+    {
+      // A new file without its sidecar would never verify, so take it back (a replaced file can't be un-replaced, though):
+      if (outcome === 'created')
+      {
+        try
+        {
+          yield { kind: 'unlink', path };
+        }
+        catch
+        {
+          // Somebody beat us to it
+        }
+      }
+      throw err;
+    }
+  }
+
+  if (context.durability === 'file+directory')
+  {
+    // Only now, after both the link and the temp file's removal, is the directory in its final state, so this is the sync that makes the returned path durable:
+    yield { kind: 'sync-directory', path: context.parsed.dir };
+  }
+}
+
+/**
+ Returns what a write reports about the file it published (see `WriteNewFileResult`).
+ */
+export function publishedResult(published: PublishedFile, context: PublishContext): WriteNewFileResult
+{
+  const { parsed, staged, options } = context;
+  return {
+    ...published,
+    proposedPath: format({ dir: parsed.dir, base: parsed.base }),
+    byteLength: staged.byteLength,
+    ...((options.integrity ?? 'none') === 'none' ? {} : { sha256: staged.sha256 }),
+  };
+}
+
+/**
+ Carries out `steps` with async I/O, on the `fileSystem` of the `context`, and returns what they come up with.
+ */
+export async function performPublishSteps<T>(steps: PublishSteps<T>, context: PublishContext): Promise<T>
+{
+  const { options, durability, attributes, fileSystem } = context;
+  let next = steps.next();
+  while (!next.done)
+  {
+    const step = next.value;
+    try
+    {
+      switch (step.kind)
+      {
+        case 'publish':
+          step.published = await tryPublishTempFile(step.tempPath, step.path, {
+            publishStrategy: options.publishStrategy,
+            durability,
+            attributes,
+            fileSystem,
+          });
+          break;
+        case 'scan-counters':
+          // Concurrent writers share this, so that the directory is only read once per burst:
+          step.reservations.counterScan ??= fileSystem.readdir(context.parsed.dir)
+            .then((names) => findHighestCounter(names, context.parsed));
+          step.highestCounter = await step.reservations.counterScan;
+          break;
+        case 'sleep':
+          await context.clock.sleep(step.ms, context.attempts.signal);
+          break;
+        case 'stage':
+          step.tempPath = (await stageTempFile(step.path, step.content, {
+            sync: durability !== 'none',
+            attributes,
+            tempFile: options.tempFile,
+            fileSystem,
+          })).tempPath;
+          break;
+        case 'rename':
+          await fileSystem.rename(step.oldPath, step.newPath);
+          break;
+        case 'discard':
+          await discardTempFile(step.tempPath, fileSystem);
+          break;
+        case 'unlink':
+          await fileSystem.unlink(step.path);
+          break;
+        case 'hash':
+          step.sha256 = await sha256OfFile(step.path, fileSystem);
+          break;
+        case 'sync-directory':
+          await syncDirectory(step.path, fileSystem);
+          break;
+      }
+    }
+    catch (err: unknown)
+    {
+      next = steps.throw(err);
+      continue;
+    }
+    next = steps.next();
+  }
+  return next.value;
+}
+
+/**
+ Exactly like `performPublishSteps()`, but synchronous, on the real disk.
+ */
+export function performPublishStepsSync<T>(steps: PublishSteps<T>, context: PublishContext): T
+{
+  const { options, durability, attributes } = context;
+  let next = steps.next();
+  while (!next.done)
+  {
+    const step = next.value;
+    try
+    {
+      switch (step.kind)
+      {
+        case 'publish':
+          step.published = tryPublishTempFileSync(step.tempPath, step.path, {
+            publishStrategy: options.publishStrategy,
+            durability,
+            attributes,
+          });
+          break;
+        case 'scan-counters':
+          step.highestCounter = findHighestCounter(readdirSync(context.parsed.dir), context.parsed);
+          break;
+        case 'sleep':
+          sleepSync(step.ms);
+          break;
+        case 'stage':
+          step.tempPath = stageTempFileSync(step.path, step.content, {
+            sync: durability !== 'none',
+            attributes,
+            tempFile: options.tempFile,
+          }).tempPath;
+          break;
+        case 'rename':
+          renameSync(step.oldPath, step.newPath);
+          break;
+        case 'discard':
+          discardTempFileSync(step.tempPath);
+          break;
+        case 'unlink':
+          unlinkSync(step.path);
+          break;
+        case 'hash':
+          step.sha256 = sha256OfFileSync(step.path);
+          break;
+        case 'sync-directory':
+          syncDirectorySync(step.path);
+          break;
+      }
+    }
+    catch (err: unknown)
+    {
+      next = steps.throw(err);
+      continue;
+    }
+    next = steps.next();
+  }
+  return next.value;
+}
+
+/**
+ Internal function that generates the step that publishes the temp file at `tempPath` as `path` (see `tryPublishTempFile()`). The result is whether it worked.
+ */
+function* publishTempFile(tempPath: string, path: string): PublishSteps<boolean>
+{
+  const step: PublishStep = { kind: 'publish', tempPath, path, published: false };
+  yield step;
+  return step.published;
+}
+
+/**
+ Internal function that generates the steps that publish the `.sha256` sidecar of the file at `path`, in `sha256sum` format. It is staged and then renamed into place, so it appears atomically, and replaces any stale sidecar that was left behind under that name. The digest is the one the content was staged with; if there is none, the file is read to work it out.
+ */
+function* publishSidecarSteps(path: string, context: PublishContext): PublishSteps<void>
+{
+  const sidecarPath = path + SHA256_SIDECAR_EXTENSION;
+  let sha256 = context.staged.sha256;
+  if (sha256 === undefined)
+  {
+    const hash: PublishStep = { kind: 'hash', path, sha256: '' };
+    yield hash;
+    sha256 = hash.sha256;
+  }
+  const stage: PublishStep = { kind: 'stage', path: sidecarPath, content: sha256SidecarContent(sha256, basename(path)), tempPath: '' };
+  yield stage;
+  try
+  {
+    yield { kind: 'rename', oldPath: stage.tempPath, newPath: sidecarPath };
+  }
+  finally
+  {
+    yield { kind: 'discard', tempPath: stage.tempPath };
+  }
+}
@@ -0,0 +1,32 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { FileSystem } from './FileSystem.ts';
+
+/**
+ Returns the hex-encoded SHA-256 of the file at `path`.
+ */
+export async function sha256OfFile(path: string, fileSystem: FileSystem): Promise<string>
+{
+  const hash = createHash('sha256');
+  for await (const chunk of fileSystem.readChunks(path))
+  {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ Exactly like `sha256OfFile()`, but synchronous, on the real disk.
+ */
+export function sha256OfFileSync(path: string): string
+{
+  return createHash('sha256').update(readFileSync(path)).digest('hex');
+}
+
+/**
+ Returns the content of the `.sha256` sidecar of the file `filename` (see `Integrity`): the same line `sha256sum` would print for it.
+ */
+export function sha256SidecarContent(sha256: string, filename: string): string
+{
+  return `${sha256}  ${filename}\n`;
+}
@@ -0,0 +1,25 @@
+/**
+ Sleep helper fn (the usual one, except that it wakes up early if `signal` is aborted)
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void>
+{
+  return new Promise((resolve) =>
+  {
+    const done = () =>
+    {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ Blocks the thread for `ms` milliseconds — for synchronous code, which has no other way to wait.
+ */
+export function sleepSync(ms: number): void
+{
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
@@ -0,0 +1,213 @@
+import { createHash } from 'node:crypto';
+import { closeSync, fsyncSync, openSync, unlinkSync, writeSync } from 'node:fs';
+import { applyFileAttributes, applyFileAttributesSync, type FileAttributes } from './FileAttributes.ts';
+import { type FileSystem, nodeFileSystem } from './FileSystem.ts';
+import { tempFilePath, type TempFileOptions } from './TempFileOptions.ts';
+import { contentChunks, type WriteNewContent } from './WriteNewContent.ts';
+
+/**
+ A temp file that has been fully written, and is ready to be published (hard-linked) to its final name.
+
+ @property tempPath The full path to the temp file
+
+ @property byteLength How many bytes were written
+
+ @property sha256 The hex-encoded SHA-256 of the content, if it was requested
+*/
+export type StagedTempFile = {
+  tempPath: string;
+  byteLength: number;
+  sha256?: string;
+};
+
+/**
+ Writes `content` to a new temp file next to `path` (in the same directory, prefixed with `.__temp__`, and with a random UUID to avoid collisions between processes trying to write to the same proposed filename) — or wherever, and however named, the `tempFile` option says (see `TempFileOptions`).
+
+ Streaming content is written chunk by chunk. If anything goes wrong partway through — e.g. the stream errors — the temp file is removed before the error is rethrown, so nothing is left behind.
+
+ The caller is responsible for calling `discardTempFile()` once it has published (or given up on publishing) the temp file.
+
+ @param path The full path of the file that will eventually be published (only its directory and name are used here)
+
+ @param content The data to write
+
+ Any `attributes` (permissions, ownership, modification time) are applied to the temp file before it is closed — since the published file is a hard link to the same inode, that means consumers never see the final file with the wrong attributes, not even briefly.
+
+ @param options Set `hash` to also compute the SHA-256 of the content while it is being written, `sync` to `fsync()` the temp file before returning (see `Durability`), `attributes` to set the file's permissions, etc. (see `FileAttributes`), `tempFile` to name the temp file differently, or stage it in another directory (see `TempFileOptions`), `fileSystem` to write somewhere other than the real disk (see `FileSystem`), and `signal` to be able to stop writing (the temp file is removed, and the signal's reason is thrown)
+
+ @returns The staged temp file
+*/
+export async function stageTempFile(
+  path: string,
+  content: WriteNewContent,
+  options: {
+    hash?: boolean;
+    sync?: boolean;
+    attributes?: FileAttributes;
+    tempFile?: TempFileOptions;
+    signal?: AbortSignal;
+    fileSystem?: FileSystem;
+  } = {},
+): Promise<StagedTempFile>
+{
+  const tempPath = tempFilePath(path, options.tempFile);
+  const hash = options.hash ? createHash('sha256') : undefined;
+  let byteLength = 0;
+  const fileSystem = options.fileSystem ?? nodeFileSystem;
+
+  try
+  {
+    options.signal?.throwIfAborted();
+
+    // 'wx' flag: open for writing, fails if file exists (equivalent to createNew: true in Deno)
+    const file = await fileSystem.open(tempPath, 'wx');
+    try
+    {
+      const chunks = contentChunks(content, options.signal);
+      try
+      {
+        for (let next = await nextChunk(chunks, options.signal); !next.done; next = await nextChunk(chunks, options.signal))
+        {
+          await file.write(next.value);
+          hash?.update(next.value);
+          byteLength += next.value.byteLength;
+        }
+      }
+      catch (err: unknown)
+      {
+        // Let the stream know we're done with it (without waiting for it, since it may never answer):
+        void chunks.return(undefined).catch(() => {});
+        throw err;
+      }
+
+      if (options.attributes)
+      {
+        await applyFileAttributes(file, options.attributes);
+      }
+
+      // By default, don't sync() here because surviving a power outage or whatever isn't our bailiwick and we don't want to wait for it. There's no need to sync() for atomicity. But if the caller asked for durability, it's their bailiwick:
+      if (options.sync)
+      {
+        await file.sync();
+      }
+    }
+    finally
+    {
+      await file.close();
+    }
+  }
+  catch (err: unknown)
+  {
+    await discardTempFile(tempPath, fileSystem);
+    throw err;
+  }
+
+  return { tempPath, byteLength, sha256: hash?.digest('hex') };
+}
+
+/**
+ Exactly like `stageTempFile()`, but synchronous, on the real disk — which is why the content can't be a stream.
+ */
+export function stageTempFileSync(
+  path: string,
+  content: string | Uint8Array,
+  options: { hash?: boolean; sync?: boolean; attributes?: FileAttributes; tempFile?: TempFileOptions } = {},
+): StagedTempFile
+{
+  const tempPath = tempFilePath(path, options.tempFile);
+  const data = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  try
+  {
+    const fd = openSync(tempPath, 'wx');
+    try
+    {
+      for (let written = 0; written < data.byteLength;)
+      {
+        written += writeSync(fd, data, written);
+      }
+      if (options.attributes)
+      {
+        applyFileAttributesSync(fd, options.attributes);
+      }
+      if (options.sync)
+      {
+        fsyncSync(fd);
+      }
+    }
+    finally
+    {
+      closeSync(fd);
+    }
+  }
+  catch (err: unknown)
+  {
+    discardTempFileSync(tempPath);
+    throw err;
+  }
+
+  return {
+    tempPath,
+    byteLength: data.byteLength,
+    sha256: options.hash ? createHash('sha256').update(data).digest('hex') : undefined,
+  };
+}
+
+/**
+ Deletes a temp file, ignoring any error (e.g. if it is already gone).
+
+ @returns `true` if the temp file is gone now (including if it was already), `false` if it couldn't be deleted
+ */
+export async function discardTempFile(tempPath: string, fileSystem: FileSystem = nodeFileSystem): Promise<boolean>
+{
+  try
+  {
+    await fileSystem.unlink(tempPath);
+    return true;
+  }
+  catch (err: unknown)
+  {
+    // ¯\_(ಠ_ಠ)_/¯
+    return !!err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT';
+  }
+}
+
+/**
+ Exactly like `discardTempFile()`, but synchronous, on the real disk.
+ */
+export function discardTempFileSync(tempPath: string): void
+{
+  try
+  {
+    unlinkSync(tempPath);
+  }
+  catch
+  {
+    // ¯\_(ಠ_ಠ)_/¯
+  }
+}
+
+/**
+ Returns the next chunk from `chunks`, or throws the signal's reason as soon as it is aborted — even if the stream has stalled, and the chunk never comes.
+ */
+async function nextChunk(chunks: AsyncIterator<Uint8Array>, signal?: AbortSignal): Promise<IteratorResult<Uint8Array>>
+{
+  if (!signal)
+  {
+    return await chunks.next();
+  }
+  signal.throwIfAborted();
+  let onAbort!: () => void;
+  const aborted = new Promise<never>((_resolve, reject) =>
+  {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  try
+  {
+    return await Promise.race([chunks.next(), aborted]);
+  }
+  finally
+  {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,87 @@
+import { join } from '@std/path';
+import { readdir, stat, unlink } from 'node:fs/promises';
+import { isControlFile } from './controlFiles.ts';
+import { isTempFile, type TempFileOptions } from './TempFileOptions.ts';
+
+/**
+ Options for `sweepStaleTempFiles()`.
+
+ @property olderThan Only temp files whose modification time is at least this many milliseconds ago are removed. Pick something comfortably longer than your slowest write — a temp file that is still being written to keeps getting its modification time bumped, but one whose writer is merely stalled (e.g. waiting on a slow stream) does not.
+
+ @property dryRun If `true`, nothing is deleted; the result just reports what would have been
+
+ @property now The time to measure ages against (default: now)
+
+ @property tempFile The `tempFile` option that the writers use, if they name their temp files differently (see `TempFileOptions`). If they stage them in a directory of their own, sweep that directory
+*/
+export type SweepStaleTempFilesOptions = {
+  olderThan: number;
+  dryRun?: boolean;
+  now?: Date;
+  tempFile?: TempFileOptions;
+};
+
+/**
+ A temp file that was (or, in a dry run, would have been) removed by `sweepStaleTempFiles()`.
+ */
+export type SweptTempFile = {
+  path: string;
+  size: number;
+  mtime: Date;
+};
+
+/**
+ Removes the orphaned temp files that writers leave behind when they die mid-write (SIGKILL, power loss, etc.) — normally `tryCreateFile()` and `writeNewFile()` clean up after themselves in a `finally`, but a process that is killed outright never gets there.
+
+ Only regular files whose names exactly match the format that `stageTempFile()` generates (`.__temp__<name>.<uuid>`, or as configured by the `tempFile` option — see `isTempFile()`) are considered, and of those, only the ones older than `olderThan`. The writers' control files — the lock and sequence files of the `'monotonic'` ordering, and the quota's — are named like temp files, but are left alone, since they are meant to stay. Nothing else in the directory is ever touched. Files that disappear while we are looking at them (e.g. because the writer finished after all) are silently skipped.
+
+ @param directory The output directory to sweep (not recursive)
+
+ @param options See `SweepStaleTempFilesOptions`
+
+ @returns The temp files that were removed (or would have been, in a dry run)
+*/
+export async function sweepStaleTempFiles(
+  directory: string,
+  options: SweepStaleTempFilesOptions,
+): Promise<SweptTempFile[]>
+{
+  const { olderThan, dryRun = false, now = new Date(), tempFile } = options;
+  if (!Number.isFinite(olderThan) || olderThan < 0)
+  {
+    throw new RangeError(`olderThan must be a non-negative number of milliseconds, not ${olderThan}`);
+  }
+
+  const swept: SweptTempFile[] = [];
+  for (const entry of await readdir(directory, { withFileTypes: true }))
+  {
+    if (!entry.isFile() || !isTempFile(entry.name, tempFile) || isControlFile(entry.name, tempFile))
+    {
+      continue;
+    }
+
+    const path = join(directory, entry.name);
+    try
+    {
+      const info = await stat(path);
+      if (now.getTime() - info.mtime.getTime() < olderThan)
+      {
+        continue;
+      }
+      if (!dryRun)
+      {
+        await unlink(path);
+      }
+      swept.push({ path, size: info.size, mtime: info.mtime });
+    }
+    catch (err: unknown)
+    {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT')
+      {
+        continue;
+      }
+      throw err;
+    }
+  }
+  return swept;
+}
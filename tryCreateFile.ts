@@ -1,17 +1,28 @@
-import { open, link, unlink } from 'node:fs/promises';
+import { dirname } from '@std/path';
+import { closeSync, copyFileSync, fsyncSync, linkSync, openSync, unlinkSync } from 'node:fs';
+import { checkTempFileDirectory, checkTempFileDirectorySync } from './checkOutputDirectory.ts';
+import { type Durability, syncDirectory, syncDirectorySync } from './Durability.ts';
+import { applyFileAttributes, applyFileAttributesSync, type FileAttributes, hasFileAttributes } from './FileAttributes.ts';
+import { type FileSystem, nodeFileSystem } from './FileSystem.ts';
+import { LINK_UNSUPPORTED_ERROR_CODES, type PublishStrategy } from './PublishStrategy.ts';
+import { discardTempFile, discardTempFileSync, stageTempFile, stageTempFileSync } from './stageTempFile.ts';
+import type { TempFileOptions } from './TempFileOptions.ts';
+import type { WriteNewContent } from './WriteNewContent.ts';
 
 /**
  Attempt to create the file with the specified path. If it fails because it already exists, catch the error, and try again. If it fails for something else, just rethrow.
 
  If it succeeds, write `data` and return `true`.
 
- NOTE: This function is concurrency-safe, including atomicity for the file creation, and for consumers reading the output file. The files are written atomically to a temp file, and then renamed to the final path. However, consumers reading files from the directory (e.g. external watcher processes, etc.) must ignore the temp files, which are prefixed with `.__temp__`.
+ NOTE: This function is concurrency-safe, including atomicity for the file creation, and for consumers reading the output file. The files are written atomically to a temp file, and then renamed to the final path. However, consumers reading files from the directory (e.g. external watcher processes, etc.) must ignore the temp files, which are prefixed with `.__temp__` (unless the `tempFile` option says otherwise — see `isTempFile()`).
 
  (We write them to the destination directory because the primary use case for this library is writing files to a directory that is read by external processes, and as such this writer may not have permission to write to any other location.)
 
  @param path The full path to the file we will try to create
 
- @param content The data to write (string or Uint8Array)
+ @param content The data to write (string, Uint8Array, or a stream — see `WriteNewContent`). Note that a stream is fully consumed even if this returns `false` — if you want to retry with a different name, use `writeNewFile()` instead, which stages the content only once
+
+ @param options Set `publishStrategy` to control how the temp file is published under the final name (default: `'auto'` — see `PublishStrategy` for the trade-offs), `durability` to `fsync()` the file and/or directory (default: `'none'` — see `Durability`), `mode`, `uid`, `gid` and `mtime` to set the file's attributes before it is published (see `FileAttributes`), `tempFile` to name the temp file differently or stage it elsewhere (see `TempFileOptions`), and `fileSystem` to write somewhere other than the real disk (see `FileSystem`)
 
  @returns `true` if the file was successfully created, `false` if it already existed
 
@@ -19,31 +30,168 @@ import { open, link, unlink } from 'node:fs/promises';
 */
 export async function tryCreateFile(
   path: string,
-  content: string | Uint8Array,
+  content: WriteNewContent,
+  options:
+    & { publishStrategy?: PublishStrategy; durability?: Durability; tempFile?: TempFileOptions; fileSystem?: FileSystem }
+    & FileAttributes = {},
 ): Promise<boolean>
 {
-  const data = typeof content === 'string'
-    ? new TextEncoder().encode(content)
-    : content;
+  const { publishStrategy, durability = 'none', tempFile, fileSystem = nodeFileSystem, ...attributes } = options;
+  if (tempFile?.directory !== undefined)
+  {
+    await checkTempFileDirectory(tempFile.directory, dirname(path), fileSystem);
+  }
+  const { tempPath } = await stageTempFile(path, content, { sync: durability !== 'none', attributes, tempFile, fileSystem });
+  let created: boolean;
+  try
+  {
+    created = await tryPublishTempFile(tempPath, path, { publishStrategy, durability, attributes, fileSystem });
+  }
+  finally
+  {
+    await discardTempFile(tempPath, fileSystem);
+  }
 
-  // Add a random suffix here, too, to avoid collisions between processes trying to write to the same proposed filename
-  const tempPath = `${path.replace(/[/\\]([^/\\]+)$/, '/.__temp__$1')}.${crypto.randomUUID()}`;
+  if (created && durability === 'file+directory')
+  {
+    await syncDirectory(dirname(path), fileSystem);
+  }
+  return created;
+}
+
+/**
+ Exactly like `tryCreateFile()`, but synchronous — for places where async code can't run, like a `process.on('exit')` handler. It always writes to the real disk, and the content can't be a stream.
+
+ @returns `true` if the file was successfully created, `false` if it already existed
 
+ @throws Any error other than EEXIST that occurs while attempting to create the file
+*/
+export function tryCreateFileSync(
+  path: string,
+  content: string | Uint8Array,
+  options: { publishStrategy?: PublishStrategy; durability?: Durability; tempFile?: TempFileOptions } & FileAttributes = {},
+): boolean
+{
+  const { publishStrategy, durability = 'none', tempFile, ...attributes } = options;
+  if (tempFile?.directory !== undefined)
+  {
+    checkTempFileDirectorySync(tempFile.directory, dirname(path));
+  }
+  const { tempPath } = stageTempFileSync(path, content, { sync: durability !== 'none', attributes, tempFile });
+  let created: boolean;
   try
   {
-    // 'wx' flag: open for writing, fails if file exists (equivalent to createNew: true in Deno)
-    const file = await open(tempPath, 'wx');
-    try
-    {
-      await file.write(data);
+    created = tryPublishTempFileSync(tempPath, path, { publishStrategy, durability, attributes });
+  }
+  finally
+  {
+    discardTempFileSync(tempPath);
+  }
 
-      // Don't sync() here because surviving a power outage or whatever isn't our bailiwick and we don't want to wait for it. There's no need to sync() for atomicity.
-      // await file.sync();
-    }
-    finally
-    {
-      await file.close();
-    }
+  if (created && durability === 'file+directory')
+  {
+    syncDirectorySync(dirname(path));
+  }
+  return created;
+}
+
+/**
+ Options for `tryPublishTempFile()`.
+
+ @property publishStrategy How to publish the temp file (default: `'auto'` — see `PublishStrategy`)
+
+ @property durability If this isn't `'none'`, a copy made by the `'exclusive-create'` fallback is `fsync()`-ed before returning. (Syncing the temp file itself, and the directory, is up to the caller — see `Durability`.)
+
+ @property attributes The attributes that were applied to the temp file. A hard link shares them automatically, but a copy made by the `'exclusive-create'` fallback is a different file, so they are applied to it again.
+
+ @property fileSystem Where the files are (default: `nodeFileSystem`, i.e. the real disk — see `FileSystem`)
+
+ @property fileOperations Overrides the operations that publishing does on the `fileSystem` (see `PublishFileOperations`)
+*/
+export type PublishTempFileOptions = {
+  publishStrategy?: PublishStrategy;
+  durability?: Durability;
+  attributes?: FileAttributes;
+  fileSystem?: FileSystem;
+  fileOperations?: PublishFileOperations;
+};
+
+/**
+ The file operations that publishing needs. Only exists so that tests can simulate filesystems without hard-link support; you shouldn't need it. (It predates the `fileSystem` option, which can do the same, and more — it is still here so that the code that uses it keeps working.)
+ */
+export type PublishFileOperations = {
+  link: (existingPath: string, newPath: string) => Promise<void>;
+  createExclusive: (path: string) => Promise<void>;
+  copyFile: (src: string, dest: string) => Promise<void>;
+  unlink: (path: string) => Promise<void>;
+};
+
+/**
+ The output directories in which we have found out that `link()` doesn't work (per `FileSystem`, or per `PublishFileOperations`), so that `'auto'` doesn't have to find out again on every single write.
+ */
+const linkUnsupportedDirectories = new WeakMap<object, Set<string>>();
+
+/**
+ Internal function that remembers that `link()` doesn't work in `directory` (per `key` — see `linkUnsupportedDirectories`).
+ */
+function rememberLinkUnsupported(key: object, directory: string): void
+{
+  const directories = linkUnsupportedDirectories.get(key) ?? new Set<string>();
+  directories.add(directory);
+  linkUnsupportedDirectories.set(key, directories);
+}
+
+/**
+ Internal function that returns the operations that publishing does on `fileSystem`.
+ */
+function publishFileOperationsOf(fileSystem: FileSystem): PublishFileOperations
+{
+  return {
+    link: (existingPath, newPath) => fileSystem.link(existingPath, newPath),
+    createExclusive: async (path) => await (await fileSystem.open(path, 'wx')).close(),
+    copyFile: (src, dest) => fileSystem.copyFile(src, dest),
+    unlink: (path) => fileSystem.unlink(path),
+  };
+}
+
+/**
+ Attempt to publish an already-written temp file (see `stageTempFile()`) under the final name `path`, by hard-linking it (or, depending on `publishStrategy`, by exclusively creating `path` and copying the temp file into it). The temp file is left in place, so the same staged temp file can be offered under several candidate names until one of them sticks — the caller must `discardTempFile()` it afterwards.
+
+ @param tempPath The full path to the staged temp file, which must be in the same directory as `path` (or at least on the same file system — see `TempFileOptions`)
+
+ @param path The full path to the file we will try to create
+
+ @param options See `PublishTempFileOptions`
+
+ @returns `true` if the file was successfully created, `false` if it already existed
+
+ @throws Any error other than EEXIST that occurs while attempting to create the file
+*/
+export async function tryPublishTempFile(
+  tempPath: string,
+  path: string,
+  options: PublishTempFileOptions = {},
+): Promise<boolean>
+{
+  const {
+    publishStrategy = 'auto',
+    durability = 'none',
+    attributes = {},
+    fileSystem = nodeFileSystem,
+  } = options;
+  const operations = options.fileOperations ?? publishFileOperationsOf(fileSystem);
+  const cacheKey = options.fileOperations ?? fileSystem;
+  const directory = dirname(path);
+  if (
+    publishStrategy === 'exclusive-create'
+    || (publishStrategy === 'auto' && linkUnsupportedDirectories.get(cacheKey)?.has(directory))
+  )
+  {
+    return await tryPublishByExclusiveCreate(tempPath, path, operations, fileSystem, attributes, durability !== 'none');
+  }
+
+  try
+  {
     /*
      @masonmark 2024-12-22: Wow, I was under a pretty major misapprehension about atomic writes in Deno. I thought `Deno.rename()` would be our jam, but in fact it only allows atomic writes — there's no way to detect/avoid overwriting an existing file.
 
@@ -68,7 +216,7 @@ export async function tryCreateFile(
      So, since our mission here is to write temp files within a single directory, and then  The atomic guarantee from link() is worth these (hopefully-)theoretical downsides.
     */
 
-    await link(tempPath, path);
+    await operations.link(tempPath, path);
     return true;
     // ☢️ WARNING! OLD EXTREMELY WRONG CODE FOLLOWS, FOR REFERENCE: ☢️
     //
@@ -85,17 +233,183 @@ export async function tryCreateFile(
     {
       return false;
     }
+    if (
+      publishStrategy === 'auto' && err && typeof err === 'object' && 'code' in err
+      && LINK_UNSUPPORTED_ERROR_CODES.includes(String(err.code))
+    )
+    {
+      rememberLinkUnsupported(cacheKey, directory);
+      return await tryPublishByExclusiveCreate(tempPath, path, operations, fileSystem, attributes, durability !== 'none');
+    }
     throw err;
   }
-  finally
+}
+
+/**
+ Exactly like `tryPublishTempFile()`, but synchronous, on the real disk (so there are no `fileSystem` and `fileOperations` options).
+
+ @returns `true` if the file was successfully created, `false` if it already existed
+
+ @throws Any error other than EEXIST that occurs while attempting to create the file
+*/
+export function tryPublishTempFileSync(
+  tempPath: string,
+  path: string,
+  options: Omit<PublishTempFileOptions, 'fileSystem' | 'fileOperations'> = {},
+): boolean
+{
+  const { publishStrategy = 'auto', durability = 'none', attributes = {} } = options;
+  const directory = dirname(path);
+  if (
+    publishStrategy === 'exclusive-create'
+    || (publishStrategy === 'auto' && linkUnsupportedDirectories.get(nodeFileSystem)?.has(directory))
+  )
+  {
+    return tryPublishByExclusiveCreateSync(tempPath, path, attributes, durability !== 'none');
+  }
+
+  try
+  {
+    // See tryPublishTempFile() for why link() it is:
+    linkSync(tempPath, path);
+    return true;
+  }
+  catch (err: unknown)
+  {
+    if (err && typeof err === 'object' && 'code' in err && err.code === 'EEXIST')
+    {
+      return false;
+    }
+    if (
+      publishStrategy === 'auto' && err && typeof err === 'object' && 'code' in err
+      && LINK_UNSUPPORTED_ERROR_CODES.includes(String(err.code))
+    )
+    {
+      rememberLinkUnsupported(nodeFileSystem, directory);
+      return tryPublishByExclusiveCreateSync(tempPath, path, attributes, durability !== 'none');
+    }
+    throw err;
+  }
+}
+
+/**
+ The `'exclusive-create'` fallback: exclusively create `path` (which fails if it exists), then copy the temp file's content into it. Not atomic for readers — see `PublishStrategy`.
+ */
+async function tryPublishByExclusiveCreate(
+  tempPath: string,
+  path: string,
+  operations: PublishFileOperations,
+  fileSystem: FileSystem,
+  attributes: FileAttributes,
+  sync: boolean,
+): Promise<boolean>
+{
+  try
+  {
+    await operations.createExclusive(path);
+  }
+  catch (err: unknown)
+  {
+    if (err && typeof err === 'object' && 'code' in err && err.code === 'EEXIST')
+    {
+      return false;
+    }
+    throw err;
+  }
+
+  try
+  {
+    // The name is ours now, so it is fine to (over)write it:
+    await operations.copyFile(tempPath, path);
+
+    // The copy is a different inode than the temp file, so whatever we did to the temp file didn't help it:
+    if (sync || hasFileAttributes(attributes))
+    {
+      const file = await fileSystem.open(path, 'r+');
+      try
+      {
+        await applyFileAttributes(file, attributes);
+        if (sync)
+        {
+          await file.sync();
+        }
+      }
+      finally
+      {
+        await file.close();
+      }
+    }
+    return true;
+  }
+  catch (err: unknown)
+  {
+    // Don't leave our partial copy lying around for consumers to find:
+    try
+    {
+      await operations.unlink(path);
+    }
+    catch
+    {
+      // ¯\_(ಠ_ಠ)_/¯
+    }
+    throw err;
+  }
+}
+
+/**
+ Exactly like `tryPublishByExclusiveCreate()`, but synchronous, on the real disk.
+ */
+function tryPublishByExclusiveCreateSync(
+  tempPath: string,
+  path: string,
+  attributes: FileAttributes,
+  sync: boolean,
+): boolean
+{
+  try
+  {
+    closeSync(openSync(path, 'wx'));
+  }
+  catch (err: unknown)
+  {
+    if (err && typeof err === 'object' && 'code' in err && err.code === 'EEXIST')
+    {
+      return false;
+    }
+    throw err;
+  }
+
+  try
+  {
+    copyFileSync(tempPath, path);
+    if (sync || hasFileAttributes(attributes))
+    {
+      const fd = openSync(path, 'r+');
+      try
+      {
+        applyFileAttributesSync(fd, attributes);
+        if (sync)
+        {
+          fsyncSync(fd);
+        }
+      }
+      finally
+      {
+        closeSync(fd);
+      }
+    }
+    return true;
+  }
+  catch (err: unknown)
   {
     try
     {
-      await unlink(tempPath);
+      unlinkSync(path);
     }
     catch
     {
       // ¯\_(ಠ_ಠ)_/¯
     }
+    throw err;
   }
 }
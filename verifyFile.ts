@@ -0,0 +1,72 @@
+import { parse } from '@std/path';
+import { type FileSystem, nodeFileSystem } from './FileSystem.ts';
+import { SHA256_SIDECAR_EXTENSION } from './Integrity.ts';
+import { sha256OfFile } from './sha256OfFile.ts';
+
+/**
+ What `verifyFile()` found out.
+
+ @property valid Whether the file's content matches the expected digest
+
+ @property expectedSha256 The hex-encoded SHA-256 that the file should have
+
+ @property actualSha256 The hex-encoded SHA-256 that it does have
+
+ @property source Where the expected digest came from: the `.sha256` sidecar, or the filename's suffix (see `Integrity`)
+*/
+export type VerifyFileResult = {
+  valid: boolean;
+  expectedSha256: string;
+  actualSha256: string;
+  source: 'sidecar' | 'suffix';
+};
+
+/**
+ Checks that a file written with the `integrity` option (see `Integrity`) is intact, by hashing it and comparing the result with the digest in its `.sha256` sidecar, or, if there is no sidecar, in its name.
+
+ @param path The full path of the file (not of the sidecar)
+
+ @param options `fileSystem`: where the file is (default: the real disk — see `FileSystem`)
+
+ @returns Whether the file is intact, and the digests that were compared (see `VerifyFileResult`)
+
+ @throws {Error} if there is nothing to compare with: no sidecar (yet?), and no digest in the filename
+
+ @throws Any error from reading the file, e.g. if it doesn't exist
+*/
+export async function verifyFile(path: string, options: { fileSystem?: FileSystem } = {}): Promise<VerifyFileResult>
+{
+  const fileSystem = options.fileSystem ?? nodeFileSystem;
+  let expectedSha256: string | undefined;
+  let source: VerifyFileResult['source'] = 'sidecar';
+  try
+  {
+    let sidecar = '';
+    for await (const chunk of fileSystem.readChunks(path + SHA256_SIDECAR_EXTENSION))
+    {
+      sidecar += new TextDecoder().decode(chunk, { stream: true });
+    }
+    expectedSha256 = /^[0-9a-f]{64}(?=\s|$)/i.exec(sidecar)?.[0].toLowerCase();
+    if (expectedSha256 === undefined)
+    {
+      throw new Error(`The sidecar "${path}${SHA256_SIDECAR_EXTENSION}" doesn't start with a SHA-256 digest`);
+    }
+  }
+  catch (err: unknown)
+  {
+    if (!(err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT'))
+    {
+      throw err;
+    }
+    // No sidecar, so maybe the digest is in the name, like `report~<digest>.json` or `report~<digest>+1.json`:
+    expectedSha256 = /~([0-9a-f]{64})(?:\+\d+)?$/.exec(parse(path).name)?.[1];
+    source = 'suffix';
+  }
+  if (expectedSha256 === undefined)
+  {
+    throw new Error(`Nothing to verify "${path}" against: it has no ${SHA256_SIDECAR_EXTENSION} sidecar, and no SHA-256 in its name`);
+  }
+
+  const actualSha256 = await sha256OfFile(path, fileSystem);
+  return { valid: actualSha256 === expectedSha256, expectedSha256, actualSha256, source };
+}
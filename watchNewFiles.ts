@@ -0,0 +1,87 @@
+import { watch } from 'node:fs';
+import { claimNextFile, type ClaimedFile, type ClaimOptions } from './claimNextFile.ts';
+
+/**
+ Options for `watchNewFiles()`.
+
+ @property signal Stops watching when aborted (the generator then just returns)
+
+ @property pollInterval How often to look for new files if no change notification arrives, in milliseconds (default: `1000`). File-change notifications are used when the runtime supports them, but they are famously unreliable (network mounts, etc.), so we always poll as well.
+*/
+export type WatchNewFilesOptions = ClaimOptions & {
+  signal?: AbortSignal;
+  pollInterval?: number;
+};
+
+/**
+ The consumer-side companion to `writeNewFile()`: yields each finished file that appears in `directory`, oldest first, claimed atomically so that no other consumer (in this or any other process) gets the same file. See `claimNextFile()` for how claiming works.
+
+ Each yielded file must eventually be `ack()`-ed (deleted or archived) or `nack()`-ed (put back to be claimed again).
+
+ @example
+ ```ts
+ for await (const file of watchNewFiles('./inbox', { signal }))
+ {
+   try
+   {
+     await processFile(file.path);
+     await file.ack();
+   }
+   catch
+   {
+     await file.nack();
+   }
+ }
+ ```
+
+ @param directory The directory that `writeNewFile()` writes to
+
+ @param options Optional configuration (see `WatchNewFilesOptions`)
+*/
+export async function* watchNewFiles(
+  directory: string,
+  options: WatchNewFilesOptions = {},
+): AsyncGenerator<ClaimedFile>
+{
+  const { signal, pollInterval = 1000 } = options;
+
+  while (!signal?.aborted)
+  {
+    const claimed = await claimNextFile(directory, options);
+    if (claimed)
+    {
+      yield claimed;
+      continue;
+    }
+    await waitForChange(directory, pollInterval, signal);
+  }
+}
+
+/**
+ Resolves when something changes in `directory`, when `timeout` ms have passed, or when `signal` is aborted — whichever comes first.
+ */
+function waitForChange(directory: string, timeout: number, signal?: AbortSignal): Promise<void>
+{
+  return new Promise((resolve) =>
+  {
+    let watcher: ReturnType<typeof watch> | undefined;
+    const done = () =>
+    {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      watcher?.close();
+      resolve();
+    };
+    const timer = setTimeout(done, timeout);
+    signal?.addEventListener('abort', done);
+    try
+    {
+      watcher = watch(directory, done);
+      watcher.on('error', done);
+    }
+    catch
+    {
+      // No change notifications for us, so we'll just poll
+    }
+  });
+}
@@ -0,0 +1,54 @@
+import { join } from '@std/path';
+import { mkdirSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { writeNewFile } from './writeNewFile.ts';
+import type { WriteNewOptions } from './WriteNewOptions.ts';
+
+/*
+ Run with: deno bench -A writeNewFile.bench.ts
+
+ Each iteration has 100 concurrent writers write to the same (hot) filename in a fresh directory, on the real disk, compared to 100 writers with distinct filenames. Before writers shared their tiebreakers in-process, every collision after the first cost the `'date'` strategy a 50ms sleep, with only one `+SSS` name tried per sleep; now a hot filename should be about as fast as no collisions at all.
+*/
+
+const root = mkdtempSync(join(tmpdir(), 'write-new-file-bench-'));
+globalThis.addEventListener('unload', () => rmSync(root, { recursive: true, force: true }));
+
+const WRITERS = 100;
+let run = 0;
+
+/**
+ Has `WRITERS` concurrent writers write `proposedFilename(i)` into a fresh directory.
+ */
+async function burst(options: Omit<WriteNewOptions, 'outputDirectory'>, proposedFilename: (i: number) => string)
+{
+  const outputDirectory = join(root, `${run++}`);
+  mkdirSync(outputDirectory);
+  await Promise.all(
+    Array.from({ length: WRITERS }, (_, i) => writeNewFile(proposedFilename(i), `writer ${i}`, { outputDirectory, ...options })),
+  );
+}
+
+Deno.bench('distinct filenames (no collisions)', { group: 'hot', baseline: true }, async () =>
+{
+  await burst({}, (i) => `file-${i}.txt`);
+});
+
+Deno.bench('one hot filename, date strategy', { group: 'hot' }, async () =>
+{
+  await burst({}, () => 'hot.txt');
+});
+
+Deno.bench('one hot filename, date strategy, milliseconds', { group: 'hot' }, async () =>
+{
+  await burst({ suffixFormat: { precision: 'milliseconds' } }, () => 'hot.txt');
+});
+
+Deno.bench('one hot filename, counter strategy', { group: 'hot' }, async () =>
+{
+  await burst({ namingStrategy: 'counter' }, () => 'hot.txt');
+});
+
+Deno.bench('one hot filename, ulid strategy', { group: 'hot' }, async () =>
+{
+  await burst({ namingStrategy: 'ulid' }, () => 'hot.txt');
+});
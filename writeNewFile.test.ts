@@ -1,60 +1,84 @@
-import { assert, assertEquals, assertFalse } from "@std/assert";
+import { assert, assertEquals, assertFalse, assertRejects, assertThrows } from "@std/assert";
 import { join } from "@std/path";
+import { createHash } from "node:crypto";
 import {
+  existsSync,
   mkdirSync,
   statSync,
   readFileSync,
   readdirSync,
   rmSync,
+  utimesSync,
+  writeFileSync,
 } from "node:fs";
+import process from "node:process";
+import { Readable } from "node:stream";
 import { test } from "node:test";
+import { brotliDecompressSync, gunzipSync } from "node:zlib";
 
+import { FanOutError } from "./FanOutError.ts";
+import { FileExistsError } from "./FileExistsError.ts";
+import { type Clock, systemClock } from "./Clock.ts";
+import { acquireLock, controlFilePath } from "./controlFiles.ts";
+import { createNewFileWriter } from "./createNewFileWriter.ts";
+import { createTestDir } from "./createTestDir.ts";
+import { type FileSystem, nodeFileSystem } from "./FileSystem.ts";
+import { checkProposedFilename, MAX_PROPOSED_FILENAME_BYTES } from "./FilenamePolicy.ts";
 import { formatDateForFilenameSuffix } from "./formatDateForFilenameSuffix.ts";
-import { tryCreateFile } from "./tryCreateFile.ts";
-import { writeNewFile } from "./writeNewFile.ts";
+import { InvalidFilenameError } from "./InvalidFilenameError.ts";
+import { MemoryFileSystem } from "./MemoryFileSystem.ts";
+import { parseFilenameSuffix } from "./parseFilenameSuffix.ts";
+import { pruneFamily } from "./pruneFamily.ts";
+import { QuotaExceededError } from "./QuotaExceededError.ts";
+import { stageTempFile } from "./stageTempFile.ts";
+import { formatSuffixTimestamp } from "./SuffixFormat.ts";
+import { sweepStaleTempFiles } from "./sweepStaleTempFiles.ts";
+import { isTempFile, tempFileGlobs, type TempFileOptions } from "./TempFileOptions.ts";
+import {
+  type PublishFileOperations,
+  tryCreateFile,
+  tryCreateFileSync,
+  tryPublishTempFile,
+} from "./tryCreateFile.ts";
+import { verifyFile } from "./verifyFile.ts";
+import { writeNewFile, writeNewFileWithResult } from "./writeNewFile.ts";
+import { WriteNewFileGaveUpError } from "./WriteNewFileGaveUpError.ts";
+import { writeNewFiles } from "./writeNewFiles.ts";
+import { WriteNewFileStats } from "./WriteNewFileStats.ts";
+import { writeNewFileSync } from "./writeNewFileSync.ts";
+import { type FanOutResult, writeNewFileToAll } from "./writeNewFileToAll.ts";
 import { WriteNewOptions } from "./WriteNewOptions.ts";
 
-// Where we write test output files
-const TEST_OUTPUT_DIR = "./writeNewFile.test-tmp";
-
-// We'll create a subdirectory for each test run, to keep them separate
-function createTestDir(testName: string): string {
-  const dir = join(TEST_OUTPUT_DIR, `test-${testName}-${Date.now()}`);
-  mkdirSync(dir, { recursive: true });
-
-  WriteNewOptions.default = {
-    outputDirectory: dir,
-  };
-
-  return dir;
-}
-
 /**
  Simple test to verify that `writeNewFile()` works at all.
  */
 test("writeNewFile: basic usage", async () => {
   const filename = "example.txt";
-  createTestDir("single-usage");
-
-  const data = new TextEncoder().encode("Hello from basic usage test");
+  const previousDefault = WriteNewOptions.default;
+  WriteNewOptions.default = { outputDirectory: createTestDir("single-usage") };
+  try {
+    const data = new TextEncoder().encode("Hello from basic usage test");
 
-  const returnedPath = await writeNewFile(filename, data);
+    const returnedPath = await writeNewFile(filename, data);
 
-  // Check that the returned path is a real file
-  const statInfo = statSync(returnedPath);
-  assert(statInfo.isFile(), "Expected a file to be created at returnedPath");
+    // Check that the returned path is a real file
+    const statInfo = statSync(returnedPath);
+    assert(statInfo.isFile(), "Expected a file to be created at returnedPath");
 
-  // Check that the content is correct
-  const readContents = readFileSync(returnedPath, "utf-8");
-  assertEquals(readContents, "Hello from basic usage test");
+    // Check that the content is correct
+    const readContents = readFileSync(returnedPath, "utf-8");
+    assertEquals(readContents, "Hello from basic usage test");
 
-  // Write with a string this time:
-  const path2 = await writeNewFile(
-    filename,
-    "Hi again, basic usage test here dude",
-  );
-  const actual = readFileSync(path2, "utf-8");
-  assertEquals(actual, "Hi again, basic usage test here dude");
+    // Write with a string this time:
+    const path2 = await writeNewFile(
+      filename,
+      "Hi again, basic usage test here dude",
+    );
+    const actual = readFileSync(path2, "utf-8");
+    assertEquals(actual, "Hi again, basic usage test here dude");
+  } finally {
+    WriteNewOptions.default = previousDefault;
+  }
 });
 
 /**
@@ -73,6 +97,7 @@ test("writeNewFile: basic usage", async () => {
 test("tryCreateFile: some other process wrote a file that is in our way", async () => {
   const filename = "example.txt";
   const testDir = createTestDir("conflicting-file");
+  const writer = createNewFileWriter({ outputDirectory: testDir });
 
   // The data we want to write
   const now = new Date();
@@ -87,7 +112,7 @@ test("tryCreateFile: some other process wrote a file that is in our way", async
 
   // THE OTHER PROCESS: (simulated)
   await tryCreateFile(join(testDir, filename), "Hello from some other process");
-  await writeNewFile(
+  await writer.write(
     filename,
     "Hello from some other process PART II THE SEQUEL BRO",
   );
@@ -100,11 +125,11 @@ test("tryCreateFile: some other process wrote a file that is in our way", async
   assertFalse(write1);
 
   // Now do the one that loops until unique name found:
-  const write2 = await writeNewFile(
+  const write2 = await writer.write(
     filename,
     "oh nooo we have a conflict AGAIN!",
   );
-  const write3 = await writeNewFile(
+  const write3 = await writer.write(
     filename,
     "oh nooo we have a conflict THIS IS THE THIRD TRY",
   );
@@ -148,7 +173,7 @@ test("tryCreateFile: some other process wrote a file that is in our way", async
   // OK we're good! But... what if we now REMOVED the other process's file? Do we then correctly write to the proposed filename?
   const originalRequestedFullPath = join(testDir, "example.txt");
   rmSync(originalRequestedFullPath);
-  const write4 = await writeNewFile(filename, "YAH baby we did");
+  const write4 = await writer.write(filename, "YAH baby we did");
   assert(write4);
   const actual = readFileSync(originalRequestedFullPath, "utf-8");
   const actual2 = readFileSync(write4, "utf-8");
@@ -162,7 +187,7 @@ test("tryCreateFile: some other process wrote a file that is in our way", async
  */
 test("writeNewFile: concurrency test", async () => {
   const filename = "example.txt";
-  createTestDir("concurrency");
+  const writer = createNewFileWriter({ outputDirectory: createTestDir("concurrency") });
   const concurrencyCount = 5;
 
   // We'll spawn multiple calls to writeNewFile
@@ -172,7 +197,7 @@ test("writeNewFile: concurrency test", async () => {
 
   // Collect the promises
   const promises = dataPayloads.map((data) => {
-    return writeNewFile(filename, data);
+    return writer.write(filename, data);
   });
 
   // Wait for them all to complete
@@ -223,3 +248,1422 @@ test("writeNewFile: concurrency test", async () => {
     "Mismatch in concurrency file contents",
   );
 });
+
+/**
+ The `'counter'` strategy should pick up after the highest counter already in the directory.
+ */
+test("writeNewFile: counter naming strategy", async () => {
+  const filename = "report.txt";
+  const testDir = createTestDir("counter-strategy");
+  const options: WriteNewOptions = {
+    outputDirectory: testDir,
+    namingStrategy: "counter",
+  };
+
+  const path1 = await writeNewFile(filename, "first", options);
+  const path2 = await writeNewFile(filename, "second", options);
+  const path3 = await writeNewFile(filename, "third", options);
+  assertEquals(path1, join(testDir, "report.txt"));
+  assertEquals(path2, join(testDir, "report~0001.txt"));
+  assertEquals(path3, join(testDir, "report~0002.txt"));
+
+  // Some other process skipped ahead:
+  await tryCreateFile(join(testDir, "report~0041.txt"), "from elsewhere");
+  const path4 = await writeNewFile(filename, "fourth", options);
+  assertEquals(path4, join(testDir, "report~0042.txt"));
+  assertEquals(readFileSync(path4, "utf-8"), "fourth");
+});
+
+/**
+ The `'ulid'` and `'content-hash'` strategies should produce the expected suffix shapes.
+ */
+test("writeNewFile: ulid and content-hash naming strategies", async () => {
+  const filename = "event.json";
+  const testDir = createTestDir("ulid-hash-strategy");
+
+  await writeNewFile(filename, "{}", { outputDirectory: testDir });
+
+  const ulidPaths = [];
+  for (let i = 0; i < 3; i++) {
+    ulidPaths.push(
+      await writeNewFile(filename, `{"i":${i}}`, {
+        outputDirectory: testDir,
+        namingStrategy: "ulid",
+      }),
+    );
+  }
+  for (const path of ulidPaths) {
+    assert(/event~[0-9A-HJKMNP-TV-Z]{26}\.json$/.test(path), path);
+  }
+  // ULIDs from one process are monotonic, so lexicographic order is creation order:
+  assertEquals([...ulidPaths].sort(), ulidPaths);
+
+  const hashOptions: WriteNewOptions = {
+    outputDirectory: testDir,
+    namingStrategy: "content-hash",
+  };
+  const hashPath = await writeNewFile(filename, "hello", hashOptions);
+  // sha256("hello") = 2cf24dba5fb0a30e26e83b2ac5b9e29e...
+  assertEquals(hashPath, join(testDir, "event~2cf24dba5fb0a30e.json"));
+  const hashPath2 = await writeNewFile(filename, "hello", hashOptions);
+  assertEquals(hashPath2, join(testDir, "event~2cf24dba5fb0a30e+1.json"));
+});
+
+/**
+ A custom naming strategy gets the parsed name and the attempt number, and collisions are still handled for it.
+ */
+test("writeNewFile: custom naming strategy", async () => {
+  const testDir = createTestDir("custom-strategy");
+  const attempts: number[] = [];
+  const options: WriteNewOptions = {
+    outputDirectory: testDir,
+    namingStrategy: (parsed, attempt) => {
+      attempts.push(attempt);
+      return `${parsed.name}.v${attempt}${parsed.ext}`;
+    },
+  };
+
+  await tryCreateFile(join(testDir, "doc.md"), "taken");
+  await tryCreateFile(join(testDir, "doc.v1.md"), "also taken");
+
+  const path = await writeNewFile("doc.md", "mine", options);
+  assertEquals(path, join(testDir, "doc.v2.md"));
+  assertEquals(attempts, [1, 2]);
+  assertEquals(readFileSync(path, "utf-8"), "mine");
+});
+
+/**
+ Streams of every supported flavor get streamed into the temp file, and a stream that collides with an existing name is only consumed once.
+ */
+test("writeNewFile: streaming content", async () => {
+  const filename = "export.csv";
+  const testDir = createTestDir("streaming");
+  const writer = createNewFileWriter({ outputDirectory: testDir });
+  const encoder = new TextEncoder();
+
+  await writer.write(filename, "already here\n");
+
+  const webStream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode("a,b\n"));
+      controller.enqueue(encoder.encode("1,2\n"));
+      controller.close();
+    },
+  });
+  async function* generate() {
+    yield encoder.encode("c,d\n");
+    yield encoder.encode("3,4\n");
+  }
+  const nodeStream = Readable.from([encoder.encode("e,f\n"), encoder.encode("5,6\n")]);
+
+  const paths = [
+    await writer.write(filename, webStream),
+    await writer.write(filename, generate()),
+    await writer.write(filename, nodeStream),
+  ];
+  assertEquals(
+    paths.map((p) => readFileSync(p, "utf-8")),
+    ["a,b\n1,2\n", "c,d\n3,4\n", "e,f\n5,6\n"],
+  );
+  assertEquals(readFileSync(join(testDir, filename), "utf-8"), "already here\n");
+  assertEquals(readdirSync(testDir).length, 4);
+});
+
+/**
+ If the stream blows up partway through, no file (temp or otherwise) is left behind.
+ */
+test("writeNewFile: stream that errors partway", async () => {
+  const testDir = createTestDir("streaming-error");
+
+  async function* explode() {
+    yield new TextEncoder().encode("partial data");
+    throw new Error("kaboom");
+  }
+
+  await assertRejects(() => writeNewFile("broken.bin", explode(), { outputDirectory: testDir }), Error, "kaboom");
+  await assertRejects(() => tryCreateFile(join(testDir, "broken.bin"), explode()), Error, "kaboom");
+  assertEquals(readdirSync(testDir), []);
+  assertEquals(readdirSync(testDir).filter((name) => name.startsWith(".__temp__")), []);
+});
+
+/**
+ Only exact temp-file names older than the threshold get swept, and a dry run just reports them.
+ */
+test("sweepStaleTempFiles: removes only stale temp files", async () => {
+  const testDir = createTestDir("sweep");
+  const uuid = "0f8fad5b-d9cb-469f-a165-70867728950e";
+  const stale = `.__temp__report.txt.${uuid}`;
+  const fresh = `.__temp__report.txt.${crypto.randomUUID()}`;
+  const lookalikes = [
+    `.__temp__.${uuid}`, // no name
+    `.__temp__report.txt.${uuid}.bak`,
+    `__temp__report.txt.${uuid}`,
+    "report.txt",
+  ];
+  for (const name of [stale, fresh, ...lookalikes]) {
+    writeFileSync(join(testDir, name), "x");
+  }
+  const anHourAgo = new Date(Date.now() - 3_600_000);
+  for (const name of [stale, ...lookalikes]) {
+    utimesSync(join(testDir, name), anHourAgo, anHourAgo);
+  }
+
+  const dryRun = await sweepStaleTempFiles(testDir, { olderThan: 60_000, dryRun: true });
+  assertEquals(dryRun.map((f) => f.path), [join(testDir, stale)]);
+  assertEquals(readdirSync(testDir).length, 6);
+
+  const swept = await sweepStaleTempFiles(testDir, { olderThan: 60_000 });
+  assertEquals(swept.map((f) => f.path), [join(testDir, stale)]);
+  assertEquals(readdirSync(testDir).sort(), [fresh, ...lookalikes].sort());
+});
+
+/**
+ The control files of the `'monotonic'` ordering look like temp files, but they aren't leftovers, so sweeping keeps them (and the order along with them).
+ */
+test("sweepStaleTempFiles: keeps the control files", async () => {
+  const testDir = createTestDir("sweep-control");
+  const options: WriteNewOptions = { outputDirectory: testDir, ordering: "monotonic" };
+  await writeNewFile("log.txt", "1", options);
+  const second = await writeNewFile("log.txt", "2", options);
+  const orphan = `.__temp__log.txt.${crypto.randomUUID()}`;
+  writeFileSync(join(testDir, orphan), "x");
+  const controlFiles = readdirSync(testDir).filter((name) => isTempFile(name) && name !== orphan);
+  assertEquals(controlFiles.length, 1);
+
+  assertEquals((await sweepStaleTempFiles(testDir, { olderThan: 0 })).map((f) => f.path), [join(testDir, orphan)]);
+  assertEquals(readdirSync(testDir).filter((name) => isTempFile(name)), controlFiles);
+
+  // With the files consumed, the sequence file is all that keeps the next name in order:
+  for (const name of readdirSync(testDir).filter((name) => !isTempFile(name))) {
+    rmSync(join(testDir, name));
+  }
+  assert(await writeNewFile("log.txt", "3", options) > second);
+});
+
+/**
+ Simulates a filesystem where `link()` fails with `code`, counting how often it was called.
+ */
+function linklessFileSystem(code: string): FileSystem & { linkCalls: number } {
+  const fileSystem = {
+    ...nodeFileSystem,
+    linkCalls: 0,
+    link: () => {
+      fileSystem.linkCalls++;
+      return Promise.reject(Object.assign(new Error(`${code}: link not supported`), { code }));
+    },
+  };
+  return fileSystem;
+}
+
+/**
+ With `'auto'`, a filesystem without hard links falls back to exclusive creation, still without overwriting anything, and remembers to skip `link()` next time.
+ */
+test("tryPublishTempFile: falls back when link() is unsupported", async () => {
+  const testDir = createTestDir("link-fallback");
+  const path = join(testDir, "usb.txt");
+
+  for (const code of ["EPERM", "ENOTSUP", "EXDEV"]) {
+    const { tempPath } = await stageTempFile(path, "nope");
+    await assertRejects(
+      () => tryPublishTempFile(tempPath, path, {
+        publishStrategy: "link",
+        fileSystem: linklessFileSystem(code),
+      }),
+      Error,
+      code,
+    );
+    rmSync(tempPath);
+  }
+  assertFalse(existsSync(path));
+
+  const ops = linklessFileSystem("EPERM");
+  const first = await stageTempFile(path, "first!");
+  assert(await tryPublishTempFile(first.tempPath, path, { fileSystem: ops }));
+  const second = await stageTempFile(path, "second!");
+  assertFalse(await tryPublishTempFile(second.tempPath, path, { fileSystem: ops }));
+  assertEquals(ops.linkCalls, 1);
+  assertEquals(readFileSync(path, "utf-8"), "first!");
+
+  const exclusiveOps = linklessFileSystem("EPERM");
+  assert(await tryPublishTempFile(second.tempPath, join(testDir, "usb2.txt"), {
+    publishStrategy: "exclusive-create",
+    fileSystem: exclusiveOps,
+  }));
+  assertEquals(exclusiveOps.linkCalls, 0);
+  assertEquals(readFileSync(join(testDir, "usb2.txt"), "utf-8"), "second!");
+
+  // The older fileOperations option does the same:
+  const linkless = linklessFileSystem("EPERM");
+  const fileOperations: PublishFileOperations = {
+    link: linkless.link,
+    createExclusive: async (path) => await (await linkless.open(path, "wx")).close(),
+    copyFile: linkless.copyFile,
+    unlink: linkless.unlink,
+  };
+  assert(await tryPublishTempFile(second.tempPath, join(testDir, "usb3.txt"), { fileOperations }));
+  assertFalse(await tryPublishTempFile(second.tempPath, join(testDir, "usb3.txt"), { fileOperations }));
+  assertEquals(linkless.linkCalls, 1);
+  assertEquals(readFileSync(join(testDir, "usb3.txt"), "utf-8"), "second!");
+});
+
+/**
+ If the copy fails partway, the partial final file is removed (but an existing file is never touched).
+ */
+test("tryPublishTempFile: failed exclusive-create copy leaves nothing behind", async () => {
+  const testDir = createTestDir("exclusive-create-failure");
+  const path = join(testDir, "smb.txt");
+  const { tempPath } = await stageTempFile(path, "data");
+  const ops: FileSystem = {
+    ...linklessFileSystem("ENOTSUP"),
+    copyFile: (_src, dest) => {
+      writeFileSync(dest, "da");
+      return Promise.reject(Object.assign(new Error("ENOSPC: disk full"), { code: "ENOSPC" }));
+    },
+  };
+  await assertRejects(() => tryPublishTempFile(tempPath, path, {
+    publishStrategy: "exclusive-create",
+    fileSystem: ops,
+  }), Error, "ENOSPC");
+  assertFalse(existsSync(path));
+  rmSync(tempPath);
+});
+
+/**
+ The durable modes should behave exactly like the default one, apart from being slower.
+ */
+test("writeNewFile: durability modes", async () => {
+  const testDir = createTestDir("durability");
+  for (const durability of ["none", "file", "file+directory"] as const) {
+    const options: WriteNewOptions = { outputDirectory: testDir, durability, namingStrategy: "counter" };
+    const path = await writeNewFile("ledger.csv", `durability=${durability}`, options);
+    assertEquals(readFileSync(path, "utf-8"), `durability=${durability}`);
+    assert(await tryCreateFile(join(testDir, `${durability}.csv`), "x", { durability }));
+  }
+  assertEquals(readdirSync(testDir).filter((name) => name.startsWith(".")), []);
+  assertEquals(readdirSync(testDir).length, 6);
+});
+
+/**
+ Permissions and mtime are set on the temp file before publishing, so the published file has them from the start — including when the `'exclusive-create'` fallback makes a copy.
+ */
+test("writeNewFile: mode and mtime options", async () => {
+  const testDir = createTestDir("attributes");
+  const mtime = new Date("2024-12-22T16:39:42.000Z");
+
+  const path = await writeNewFile("secret.txt", "shh", { outputDirectory: testDir, mode: "640", mtime });
+  assertEquals(statSync(path).mode & 0o777, 0o640);
+  assertEquals(statSync(path).mtime.getTime(), mtime.getTime());
+
+  const path2 = await writeNewFile("secret.txt", "shh", { outputDirectory: testDir, mode: 0o604 });
+  assertEquals(statSync(path2).mode & 0o777, 0o604);
+
+  const copyPath = join(testDir, "copied.txt");
+  const { tempPath } = await stageTempFile(copyPath, "copied", { attributes: { mode: 0o600, mtime } });
+  assert(await tryPublishTempFile(tempPath, copyPath, {
+    publishStrategy: "exclusive-create",
+    attributes: { mode: 0o600, mtime },
+    fileSystem: linklessFileSystem("EPERM"),
+  }));
+  rmSync(tempPath);
+  assertEquals(statSync(copyPath).mode & 0o777, 0o600);
+  assertEquals(statSync(copyPath).mtime.getTime(), mtime.getTime());
+
+  // Without any attributes (just the keys, left undefined), the copy isn't even reopened:
+  const opened: string[] = [];
+  const plainPath = join(testDir, "plain.txt");
+  const plain = await stageTempFile(plainPath, "plain");
+  assert(await tryPublishTempFile(plain.tempPath, plainPath, {
+    publishStrategy: "exclusive-create",
+    attributes: { mode: undefined, uid: undefined, gid: undefined, mtime: undefined },
+    fileSystem: { ...nodeFileSystem, open: (path, flags) => (opened.push(flags), nodeFileSystem.open(path, flags)) },
+  }));
+  rmSync(plain.tempPath);
+  assertEquals(opened, ["wx"]);
+
+  // The owner is changed before the mode, since that would clear the setuid bit (our own uid and gid are those of the directory we just made, and asking for them that way doesn't need --allow-sys):
+  if (process.platform !== "win32") {
+    const { uid, gid } = statSync(testDir);
+    const setuidPath = await writeNewFile("tool", "#!/bin/sh", { outputDirectory: testDir, mode: 0o4755, uid, gid });
+    assertEquals(statSync(setuidPath).mode & 0o7777, 0o4755);
+  }
+
+  await assertRejects(() => writeNewFile("bad.txt", "x", { outputDirectory: testDir, mode: "rwxr-x---" }), TypeError);
+  assertEquals(readdirSync(testDir).filter((name) => name.startsWith(".")), []);
+});
+
+/**
+ Every suffix format round-trips through `parseFilenameSuffix()`.
+ */
+test("formatSuffixTimestamp / parseFilenameSuffix: round trips", () => {
+  const date = new Date("2024-12-22T16:39:42.173Z");
+
+  assertEquals(formatSuffixTimestamp(date, { timeZone: "utc" }), "2024-12-22-16-39-42");
+  assertEquals(formatSuffixTimestamp(date, { timeZone: "utc", precision: "milliseconds" }), "2024-12-22-16-39-42-173");
+  assertEquals(formatSuffixTimestamp(date, { style: "iso-basic", timeZone: "utc" }), "20241222T163942Z");
+  assertEquals(
+    formatSuffixTimestamp(date, { style: "iso-basic", timeZone: "utc", precision: "milliseconds" }),
+    "20241222T163942,173Z",
+  );
+  assertEquals(formatSuffixTimestamp(date), formatDateForFilenameSuffix(date));
+
+  const secondsOnly = new Date("2024-12-22T16:39:42.000Z");
+  assertEquals(parseFilenameSuffix("example~2024-12-22-16-39-42+225.txt", { timeZone: "utc" }), {
+    baseName: "example",
+    extension: ".txt",
+    proposedFilename: "example.txt",
+    timestamp: secondsOnly,
+    tiebreaker: 225,
+    style: "default",
+  });
+  assertEquals(parseFilenameSuffix("/some/dir/archive.tar~20241222T163942,173Z+002.gz"), {
+    baseName: "archive.tar",
+    extension: ".gz",
+    proposedFilename: "archive.tar.gz",
+    timestamp: date,
+    tiebreaker: 2,
+    style: "iso-basic",
+  });
+  assertEquals(parseFilenameSuffix("config~20241223T013942+0900")?.timestamp, secondsOnly);
+  assertEquals(parseFilenameSuffix("config~20241222T113942-0500")?.timestamp, secondsOnly);
+
+  // Local time, the default:
+  const local = new Date(2024, 11, 22, 16, 39, 42);
+  assertEquals(parseFilenameSuffix(`x~${formatSuffixTimestamp(local)}.txt`)?.timestamp, local);
+  const localIso = formatSuffixTimestamp(date, { style: "iso-basic", precision: "milliseconds" });
+  assertEquals(parseFilenameSuffix(`x~${localIso}.txt`)?.timestamp, date);
+
+  for (const notOurs of ["example.txt", "example~0001.txt", "example~2024-13-22-16-39-42.txt", "~2024-12-22-16-39-42.txt"]) {
+    assertEquals(parseFilenameSuffix(notOurs), undefined, notOurs);
+  }
+});
+
+/**
+ `writeNewFile()` uses the configured suffix format, and the resulting names parse back in creation order.
+ */
+test("writeNewFile: suffixFormat option", async () => {
+  const testDir = createTestDir("suffix-format");
+  const options: WriteNewOptions = {
+    outputDirectory: testDir,
+    suffixFormat: { style: "iso-basic", timeZone: "utc", precision: "milliseconds" },
+  };
+
+  const paths = [];
+  for (let i = 0; i < 4; i++) {
+    paths.push(await writeNewFile("tick.log", `tick ${i}`, options));
+  }
+  const [first, ...rest] = paths;
+  assertEquals(first, join(testDir, "tick.log"));
+  const parsed = rest.map((p) => parseFilenameSuffix(p));
+  for (const [i, p] of parsed.entries()) {
+    assert(p, rest[i]);
+    assert(/tick~\d{8}T\d{6},\d{3}Z(\+\d{3})?\.log$/.test(rest[i]), rest[i]);
+    assertEquals(p.proposedFilename, "tick.log");
+  }
+  const byTime = [...parsed].sort((a, b) =>
+    a!.timestamp.getTime() - b!.timestamp.getTime() || (a!.tiebreaker ?? -1) - (b!.tiebreaker ?? -1)
+  );
+  assertEquals(byTime, parsed);
+});
+
+/**
+ Only genuine family members are pruned, oldest first, according to each kind of policy.
+ */
+test("pruneFamily: keepLast, maxAge and maxTotalBytes", async () => {
+  const testDir = createTestDir("prune");
+  const now = new Date("2024-12-22T12:00:00Z");
+  const family = [
+    "status.json", // oldest, by mtime
+    "status~2024-12-22-10-00-00.json",
+    "status~2024-12-22-11-00-00.json",
+    "status~2024-12-22-11-00-00+500.json",
+    "status~2024-12-22-11-59-00.json",
+  ];
+  const strangers = [
+    "status-old.json",
+    "status~backup.json",
+    "status~2024-12-22-09-00-00.txt",
+    "statusbar~2024-12-22-09-00-00.json",
+    ".__temp__status.json.0f8fad5b-d9cb-469f-a165-70867728950e",
+  ];
+  for (const name of [...family, ...strangers]) {
+    writeFileSync(join(testDir, name), "0123456789");
+  }
+  const longAgo = new Date("2024-12-01T00:00:00Z");
+  for (const name of ["status.json", ...strangers]) {
+    utimesSync(join(testDir, name), longAgo, longAgo);
+  }
+  const utc = { suffixTimeZone: "utc" as const, now };
+
+  assertEquals(await pruneFamily(testDir, "status.json", { keepLast: 10, ...utc }), []);
+
+  assertEquals(
+    await pruneFamily(testDir, "status.json", { keepLast: 4, ...utc }),
+    [join(testDir, "status.json")],
+  );
+  assertEquals(
+    await pruneFamily(testDir, "status.json", { maxAge: 1.5 * 3_600_000, ...utc }),
+    [join(testDir, "status~2024-12-22-10-00-00.json")],
+  );
+  assertEquals(
+    await pruneFamily(testDir, "status.json", { maxTotalBytes: 25, ...utc }),
+    [join(testDir, "status~2024-12-22-11-00-00.json")],
+  );
+  // The newest one survives even a policy that wants everything gone:
+  assertEquals(
+    await pruneFamily(testDir, "status.json", { keepLast: 0, ...utc }),
+    [join(testDir, "status~2024-12-22-11-00-00+500.json")],
+  );
+  assertEquals(readdirSync(testDir).sort(), ["status~2024-12-22-11-59-00.json", ...strangers].sort());
+});
+
+/**
+ The `retention` option prunes after every write, and concurrent writers pruning at the same time don't trip over each other.
+ */
+test("writeNewFile: retention option", async () => {
+  const testDir = createTestDir("retention");
+  const options: WriteNewOptions = {
+    outputDirectory: testDir,
+    namingStrategy: "counter",
+    retention: { keepLast: 3 },
+  };
+  for (let i = 0; i < 5; i++) {
+    await writeNewFile("history.log", `entry ${i}`, options);
+  }
+  // (Pruning frees up the proposed filename itself, so the fifth write gets to use it)
+  assertEquals(readdirSync(testDir).sort(), ["history.log", "history~0002.log", "history~0003.log"]);
+  assertEquals(
+    readdirSync(testDir).map((name) => readFileSync(join(testDir, name), "utf-8")).sort(),
+    ["entry 2", "entry 3", "entry 4"],
+  );
+
+  await Promise.all(Array.from({ length: 5 }, (_, i) => writeNewFile("history.log", `more ${i}`, options)));
+  const remaining = readdirSync(testDir).sort();
+  assertEquals(remaining.length, 3);
+  assertEquals(remaining.map((name) => readFileSync(join(testDir, name), "utf-8").startsWith("more")), [true, true, true]);
+});
+
+/**
+ `maxAttempts`, `timeoutMs` and `signal` all make a hopeless write give up with a `WriteNewFileGaveUpError` listing what it tried, and leave no temp file behind.
+ */
+test("writeNewFile: giving up", async () => {
+  const testDir = createTestDir("giving-up");
+  await tryCreateFile(join(testDir, "stuck.txt"), "taken");
+  await tryCreateFile(join(testDir, "stuck~forever.txt"), "taken");
+  const hopeless: WriteNewOptions = {
+    outputDirectory: testDir,
+    namingStrategy: (parsed) => `${parsed.name}~forever${parsed.ext}`,
+  };
+
+  const tooMany = await assertRejects(
+    () => writeNewFile("stuck.txt", "x", { ...hopeless, maxAttempts: 3 }),
+    WriteNewFileGaveUpError,
+  );
+  assertEquals(tooMany.reason, "max-attempts");
+  assertEquals(tooMany.attemptedPaths, [
+    join(testDir, "stuck.txt"),
+    join(testDir, "stuck~forever.txt"),
+    join(testDir, "stuck~forever.txt"),
+  ]);
+
+  const tooSlow = await assertRejects(
+    () => writeNewFile("stuck.txt", "x", { ...hopeless, timeoutMs: 50 }),
+    WriteNewFileGaveUpError,
+  );
+  assertEquals(tooSlow.reason, "timeout");
+  assert(tooSlow.attemptedPaths.length > 1);
+
+  // The date strategy, with every name taken and a clock that never gets anywhere, so that it runs out of tiebreakers and waits for the clock until we abort it:
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(new Error("shutting down")), 30);
+  const frozen = new Date(2024, 11, 22, 16, 39, 42, 0);
+  const busyFileSystem = new MemoryFileSystem({
+    beforeOperation: (operation, path) => {
+      if (operation === "link" && !busyFileSystem.exists(path)) {
+        busyFileSystem.writeFile(path, "taken");
+      }
+    },
+  });
+  busyFileSystem.mkdir("/out");
+  const aborted = await assertRejects(
+    () => writeNewFile("busy.txt", "x", {
+      outputDirectory: "/out",
+      fileSystem: busyFileSystem,
+      clock: { now: () => frozen, sleep: systemClock.sleep },
+      signal: controller.signal,
+    }),
+    WriteNewFileGaveUpError,
+  );
+  assertEquals(aborted.reason, "aborted");
+  assertEquals(aborted.attemptedPaths.length, 1002); // busy.txt, busy~<now>.txt, and +000 to +999
+  assertEquals(aborted.attemptedPaths.at(-1), "/out/busy~2024-12-22-16-39-42+999.txt");
+  assertEquals((aborted.cause as Error).message, "shutting down");
+
+  // Aborting mid-stream:
+  const streamController = new AbortController();
+  async function* slowStream() {
+    yield new TextEncoder().encode("chunk 1");
+    streamController.abort();
+    yield new TextEncoder().encode("chunk 2");
+  }
+  const abortedStream = await assertRejects(
+    () => writeNewFile("streamed.txt", slowStream(), { outputDirectory: testDir, signal: streamController.signal }),
+    WriteNewFileGaveUpError,
+  );
+  assertEquals(abortedStream.attemptedPaths, []);
+
+  // Aborting a stream that has stalled, and will never send another chunk (or end):
+  let cancelled: unknown;
+  const stalledStream = new ReadableStream<Uint8Array>({
+    start: (controller) => controller.enqueue(new TextEncoder().encode("chunk 1")),
+    cancel: (reason) => void (cancelled = reason),
+  });
+  const stalled = await assertRejects(
+    () => writeNewFile("stalled.txt", stalledStream, { outputDirectory: testDir, timeoutMs: 50 }),
+    WriteNewFileGaveUpError,
+  );
+  assertEquals(stalled.reason, "timeout");
+  assert(cancelled instanceof DOMException);
+  async function* stalledIterable() {
+    yield new TextEncoder().encode("chunk 1");
+    await new Promise(() => {});
+  }
+  await assertRejects(
+    () => writeNewFile("stalled.txt", stalledIterable(), { outputDirectory: testDir, timeoutMs: 50 }),
+    WriteNewFileGaveUpError,
+  );
+
+  assertEquals(readdirSync(testDir).filter((name) => name.startsWith(".")), []);
+  assertFalse(existsSync(join(testDir, "streamed.txt")));
+});
+
+/**
+ The `onExisting` policies: `'fail'` throws, `'replace'` swaps the file in place, and `'skip-if-identical'` finds an identical file among the suffixed siblings too — and the result says which of those happened.
+ */
+test("writeNewFile: onExisting option", async () => {
+  const testDir = createTestDir("on-existing");
+  const proposedPath = join(testDir, "state.json");
+
+  const created = await writeNewFileWithResult("state.json", "v1", { outputDirectory: testDir, onExisting: "fail" });
+  assertEquals(created, { path: proposedPath, outcome: "created", proposedPath, byteLength: 2 });
+
+  const exists = await assertRejects(
+    () => writeNewFile("state.json", "v2", { outputDirectory: testDir, onExisting: "fail" }),
+    FileExistsError,
+  );
+  assertEquals(exists.path, proposedPath);
+  assertEquals(readFileSync(proposedPath, "utf-8"), "v1");
+
+  const replaced = await writeNewFileWithResult("state.json", "v2", {
+    outputDirectory: testDir,
+    onExisting: "replace",
+    mode: 0o600,
+  });
+  assertEquals(replaced.outcome, "replaced");
+  assertEquals(replaced.path, proposedPath);
+  assertEquals(readFileSync(proposedPath, "utf-8"), "v2");
+  assertEquals(statSync(proposedPath).mode & 0o777, 0o600);
+
+  // Identical to a suffixed sibling, not to the file with the proposed name:
+  const skipOptions: WriteNewOptions = { outputDirectory: testDir, onExisting: "skip-if-identical", namingStrategy: "counter" };
+  const v3 = await writeNewFileWithResult("state.json", "v3", skipOptions);
+  assertEquals(v3.outcome, "created");
+  assertEquals(v3.path, join(testDir, "state~0001.json"));
+  const skipped = await writeNewFileWithResult("state.json", "v3", skipOptions);
+  assertEquals(skipped, { path: v3.path, outcome: "skipped-identical", proposedPath, byteLength: 2 });
+  assertEquals((await writeNewFileWithResult("state.json", "v2", skipOptions)).path, proposedPath);
+
+  // Same size but different content, and an unrelated file with the same content, don't count:
+  writeFileSync(join(testDir, "state-backup.json"), "v4");
+  const v4 = await writeNewFileWithResult("state.json", "v4", skipOptions);
+  assertEquals(v4.outcome, "created");
+  assertEquals(v4.path, join(testDir, "state~0002.json"));
+
+  assertEquals(readdirSync(testDir).sort(), ["state-backup.json", "state.json", "state~0001.json", "state~0002.json"]);
+});
+
+/**
+ `writeNewFiles()` publishes a group under one shared suffix, with the commit marker last, and rolls everything back if any member fails.
+ */
+test("writeNewFiles: all-or-nothing batches", async () => {
+  const testDir = createTestDir("batches");
+  const batch = [
+    { proposedFilename: "data.csv", content: "a,b\n1,2\n" },
+    { proposedFilename: "manifest.json", content: Readable.from([new TextEncoder().encode("{}")]) },
+  ];
+
+  const first = await writeNewFiles(batch, { outputDirectory: testDir });
+  assertEquals(first.paths, [join(testDir, "data.csv"), join(testDir, "manifest.json")]);
+  assertEquals(first.commitMarkerPath, join(testDir, "data.commit"));
+  assertEquals(first.suffix, undefined);
+  const marker = JSON.parse(readFileSync(first.commitMarkerPath!, "utf-8"));
+  assertEquals(marker.files.map((file: { name: string }) => file.name), ["data.csv", "manifest.json"]);
+  assertEquals(marker.files[0].byteLength, 8);
+
+  // Only one member's name is taken, but the whole group moves on to the same suffix:
+  rmSync(join(testDir, "data.csv"));
+  const second = await writeNewFiles(
+    [{ proposedFilename: "data.csv", content: "3,4" }, { proposedFilename: "manifest.json", content: "{}" }],
+    { outputDirectory: testDir, namingStrategy: "ulid" },
+  );
+  assert(second.suffix);
+  assertEquals(second.paths, [join(testDir, `data~${second.suffix}.csv`), join(testDir, `manifest~${second.suffix}.json`)]);
+  assertEquals(second.commitMarkerPath, join(testDir, `data~${second.suffix}.commit`));
+  assertFalse(existsSync(join(testDir, "data.csv")));
+
+  await assertRejects(
+    () => writeNewFiles([{ proposedFilename: "manifest.json", content: "{}" }], { outputDirectory: testDir, onExisting: "fail" }),
+    FileExistsError,
+  );
+
+  // A member that fails partway rolls back everything, including the members that were fine:
+  async function* brokenStream() {
+    yield new TextEncoder().encode("partial");
+    throw new Error("upstream went away");
+  }
+  const before = readdirSync(testDir).sort();
+  await assertRejects(
+    () => writeNewFiles(
+      [{ proposedFilename: "ok.txt", content: "fine" }, { proposedFilename: "broken.txt", content: brokenStream() }],
+      { outputDirectory: testDir },
+    ),
+    Error,
+    "upstream went away",
+  );
+  assertEquals(readdirSync(testDir).sort(), before);
+
+  await assertRejects(() => writeNewFiles([], { outputDirectory: testDir }), TypeError);
+  await assertRejects(
+    () => writeNewFiles([{ proposedFilename: "x.txt", content: "1" }, { proposedFilename: "x.txt", content: "2" }], { outputDirectory: testDir }),
+    TypeError,
+  );
+});
+
+/**
+ When the marker's name is always taken, every attempt publishes the members and then has to take them back again — and after giving up, none of them are left.
+ */
+test("writeNewFiles: rolls back published members when the marker is taken", async () => {
+  const testDir = createTestDir("batch-rollback");
+  writeFileSync(join(testDir, "data.commit"), "someone else's");
+  writeFileSync(join(testDir, "taken.commit"), "someone else's");
+
+  const error = await assertRejects(
+    () => writeNewFiles([{ proposedFilename: "data.csv", content: "1,2" }], {
+      outputDirectory: testDir,
+      namingStrategy: (parsed, attempt) => parsed.ext === ".commit" ? "taken.commit" : `${parsed.name}-${attempt}${parsed.ext}`,
+      maxAttempts: 3,
+    }),
+    WriteNewFileGaveUpError,
+  );
+  assertEquals(error.reason, "max-attempts");
+  assertEquals(error.attemptedPaths, [
+    join(testDir, "data.commit"),
+    join(testDir, "taken.commit"),
+    join(testDir, "taken.commit"),
+  ]);
+  assertEquals(readdirSync(testDir).sort(), ["data.commit", "taken.commit"]);
+});
+
+/**
+ With a `MemoryFileSystem` and a fake clock, collisions, second boundaries and concurrent writers are all deterministic, and nothing touches the disk.
+ */
+test("writeNewFile: in-memory file system and clock", async () => {
+  let time = new Date(2024, 11, 22, 16, 39, 42, 990).getTime();
+  const clock: Clock = {
+    now: () => new Date(time),
+    sleep: (ms) => {
+      time += ms;
+      return Promise.resolve();
+    },
+  };
+  const fileSystem = new MemoryFileSystem({
+    beforeOperation: (operation, path) => {
+      // Somebody else grabs the name just before we can link to it:
+      if (operation === "link" && path === "/out/report.txt" && !fileSystem.exists(path)) {
+        fileSystem.writeFile(path, "somebody else");
+      }
+    },
+    clock,
+  });
+  fileSystem.mkdir("/out");
+  const options: WriteNewOptions = { outputDirectory: "/out", fileSystem, clock };
+
+  fileSystem.writeFile("/out/status.json", "old");
+  fileSystem.writeFile("/out/status~2024-12-22-16-39-42.json", "old");
+  // 16:39:42 is taken, so the milliseconds break the tie — and without waiting, the next one counts on from there:
+  assertEquals(await writeNewFile("status.json", "new", options), "/out/status~2024-12-22-16-39-42+990.json");
+  assertEquals(await writeNewFile("status.json", "newer", options), "/out/status~2024-12-22-16-39-42+991.json");
+  assertEquals(fileSystem.readTextFile("/out/status~2024-12-22-16-39-42+991.json"), "newer");
+  // The file system's modification times come from the same clock:
+  assertEquals((await fileSystem.stat("/out/status~2024-12-22-16-39-42+991.json")).mtime, new Date(time));
+  assertEquals(time, new Date(2024, 11, 22, 16, 39, 42, 990).getTime());
+
+  // Once +999 is taken too, it has to sleep, and by then the clock has rolled over to the next second:
+  for (let ms = 992; ms <= 999; ms++) {
+    fileSystem.writeFile(`/out/status~2024-12-22-16-39-42+${ms}.json`, "old");
+  }
+  assertEquals(await writeNewFile("status.json", "newest", options), "/out/status~2024-12-22-16-39-43.json");
+
+  assertEquals(await writeNewFile("report.txt", "ours", options), "/out/report~2024-12-22-16-39-43.txt");
+  assertEquals(fileSystem.readTextFile("/out/report.txt"), "somebody else");
+
+  const paths = await Promise.all(
+    Array.from({ length: 20 }, (_, i) => writeNewFile("job.txt", `job ${i}`, { ...options, namingStrategy: "counter" })),
+  );
+  assertEquals(new Set(paths).size, 20);
+  assertEquals(paths.map((path) => fileSystem.readTextFile(path)), Array.from({ length: 20 }, (_, i) => `job ${i}`));
+
+  await assertRejects(() => writeNewFile("x.txt", "x", { ...options, outputDirectory: "/nowhere" }), Error, "does not exist");
+  assertEquals((await fileSystem.readdir("/out")).filter((name) => name.startsWith(".")), []);
+});
+
+/**
+ Unsafe proposed filenames are rejected by default, or fixed with `filenamePolicy: 'sanitize'` — and a long name is truncated in UTF-8 bytes, keeping the extension, so that the suffix still fits.
+ */
+test("writeNewFile: filenamePolicy option", async () => {
+  const testDir = createTestDir("filename-policy");
+  const long = "日本語".repeat(40) + ".json"; // 365 bytes
+
+  const cases: [string, InvalidFilenameError["problem"], string][] = [
+    ["../../etc/passwd", "path", ".._.._etc_passwd"],
+    ["sub\\dir/x.txt", "path", "sub_dir_x.txt"],
+    ["..", "path", "__"],
+    ["line\nbreak\x00.txt", "control-character", "linebreak.txt"],
+    ["next\u0085line\x7f.txt", "control-character", "nextline.txt"],
+    ["CON", "reserved-name", "CON_"],
+    ["nul.tar.gz", "reserved-name", "nul_.tar.gz"],
+    ["trailing. ", "reserved-name", "trailing"],
+    [".__temp__sneaky.txt", "reserved-name", "_.__temp__sneaky.txt"],
+  ];
+  for (const [name, problem, sanitized] of cases) {
+    const error = await assertRejects(() => writeNewFile(name, "x", { outputDirectory: testDir }), InvalidFilenameError);
+    assertEquals(error.problem, problem);
+    assertEquals(checkProposedFilename(name, "sanitize"), sanitized);
+  }
+  await assertRejects(() => writeNewFile(long, "x", { outputDirectory: testDir }), InvalidFilenameError, "too-long");
+  await assertRejects(
+    () => writeNewFile("\x01\x02", "x", { outputDirectory: testDir, filenamePolicy: "sanitize" }),
+    InvalidFilenameError,
+    "empty",
+  );
+  assertEquals(checkProposedFilename("fine~name.txt"), "fine~name.txt");
+
+  const options: WriteNewOptions = { outputDirectory: testDir, filenamePolicy: "sanitize" };
+  assertEquals(await writeNewFile("../escape.txt", "x", options), join(testDir, ".._escape.txt"));
+
+  const truncated = await writeNewFile(long, "{}", options);
+  const truncatedName = truncated.slice(testDir.length + 1);
+  assert(truncatedName.startsWith("日本語") && truncatedName.endsWith(".json"));
+  assert(new TextEncoder().encode(truncatedName).byteLength <= MAX_PROPOSED_FILENAME_BYTES);
+  // ...and the suffixed sibling still fits:
+  const suffixed = await writeNewFile(long, "{}", { ...options, suffixFormat: { precision: "milliseconds" } });
+  assert(suffixed.startsWith(join(testDir, truncatedName.slice(0, -".json".length) + "~")));
+  assert(new TextEncoder().encode(suffixed.slice(testDir.length + 1)).byteLength <= 255);
+
+  assertEquals(readdirSync(testDir).length, 3);
+});
+
+/**
+ A burst of concurrent writers to one hot filename shouldn't have to sleep at all: they share their tiebreakers in-process, so the names are handed out in order without waiting for the clock.
+ */
+test("writeNewFile: hot filename without sleeping", async () => {
+  const fileSystem = new MemoryFileSystem();
+  fileSystem.mkdir("/out");
+  let sleeps = 0;
+  const clock: Clock = {
+    now: () => new Date(2024, 11, 22, 16, 39, 42, 500),
+    sleep: () => {
+      sleeps++;
+      return Promise.resolve();
+    },
+  };
+  const paths = await Promise.all(
+    Array.from({ length: 200 }, (_, i) => writeNewFile("hot.txt", `${i}`, { outputDirectory: "/out", fileSystem, clock })),
+  );
+  assertEquals(sleeps, 0);
+  assertEquals(new Set(paths).size, 200);
+  assertEquals(paths.slice(0, 4), [
+    "/out/hot.txt",
+    "/out/hot~2024-12-22-16-39-42.txt",
+    "/out/hot~2024-12-22-16-39-42+500.txt",
+    "/out/hot~2024-12-22-16-39-42+501.txt",
+  ]);
+  assertEquals(paths.at(-1), "/out/hot~2024-12-22-16-39-42+697.txt");
+});
+
+/**
+ With the `shard` option, files go into date-based subdirectories, which are created on demand (concurrently, too), and the shards sort in creation order across a year boundary.
+ */
+test("writeNewFile: shard option", async () => {
+  let time = new Date(2024, 11, 31, 23, 59, 59, 900).getTime();
+  const clock: Clock = { now: () => new Date(time), sleep: () => Promise.resolve() };
+  const fileSystem = new MemoryFileSystem();
+  fileSystem.mkdir("/out");
+  const options: WriteNewOptions = { outputDirectory: "/out", fileSystem, clock, shard: "YYYY/MM/DD" };
+
+  const paths = await Promise.all(Array.from({ length: 3 }, (_, i) => writeNewFile("log.txt", `${i}`, options)));
+  assertEquals(paths, [
+    "/out/2024/12/31/log.txt",
+    "/out/2024/12/31/log~2024-12-31-23-59-59.txt",
+    "/out/2024/12/31/log~2024-12-31-23-59-59+900.txt",
+  ]);
+  time += 200;
+  paths.push(await writeNewFile("log.txt", "3", options));
+  assertEquals(paths[3], "/out/2025/01/01/log.txt");
+  const shards = paths.map((path) => path.slice(0, path.lastIndexOf("/")));
+  assertEquals([...shards].sort(), shards);
+  assertEquals(fileSystem.readTextFile(paths[3]), "3");
+  assertEquals(await fileSystem.readdir("/out/2024/12/31"), ["log.txt", "log~2024-12-31-23-59-59+900.txt", "log~2024-12-31-23-59-59.txt"]);
+
+  assertEquals(
+    await writeNewFile("log.txt", "x", { ...options, shard: "YYYY-MM-DD-HH", suffixFormat: { timeZone: "utc" } }),
+    `/out/${new Date(time).toISOString().slice(0, 13).replace("T", "-")}/log.txt`,
+  );
+  assertEquals(await writeNewFile("log.txt", "x", { ...options, shard: () => "custom/dir" }), "/out/custom/dir/log.txt");
+  for (const shard of ["/abs", "../up", "a//b", "back\\slash", () => ""]) {
+    await assertRejects(() => writeNewFile("log.txt", "x", { ...options, shard }), TypeError, "Invalid shard directory");
+  }
+
+  // Many writers racing to create the same (new) shard on disk:
+  const testDir = createTestDir("shard");
+  const diskPaths = await Promise.all(
+    Array.from({ length: 20 }, (_, i) => writeNewFile("data.json", `${i}`, { outputDirectory: testDir, shard: "YYYY/MM" })),
+  );
+  const [shardDir] = readdirSync(testDir);
+  assertEquals(new Set(diskPaths).size, 20);
+  assert(diskPaths.every((path) => path.startsWith(join(testDir, shardDir))));
+  assertEquals(readdirSync(join(testDir, shardDir, readdirSync(join(testDir, shardDir))[0])).length, 20);
+});
+
+/**
+ The `transforms` option compresses on the way into the temp file (and adjusts the extension), and the `integrity` option publishes a digest — in a sidecar, or in the name — that `verifyFile()` checks.
+ */
+test("writeNewFile: transforms and integrity options", async () => {
+  const testDir = createTestDir("transforms");
+  const text = "all work and no play makes jack a dull boy\n".repeat(100);
+
+  const gzipped = await writeNewFileWithResult("log.txt", Readable.from([text]), {
+    outputDirectory: testDir,
+    transforms: ["gzip"],
+    integrity: "sidecar",
+  });
+  assertEquals(gzipped.path, join(testDir, "log.txt.gz"));
+  assertEquals(gunzipSync(readFileSync(gzipped.path)).toString(), text);
+  assert(gzipped.byteLength < text.length);
+  assertEquals(
+    readFileSync(`${gzipped.path}.sha256`, "utf8"),
+    `${createHash("sha256").update(readFileSync(gzipped.path)).digest("hex")}  log.txt.gz\n`,
+  );
+  assertEquals(gzipped.sha256, (await verifyFile(gzipped.path)).expectedSha256);
+  assertEquals((await verifyFile(gzipped.path)).valid, true);
+
+  const brotli = await writeNewFile("log.txt", text, { outputDirectory: testDir, transforms: ["brotli"] });
+  assertEquals(brotliDecompressSync(readFileSync(brotli)).toString(), text);
+  await assertRejects(() => verifyFile(brotli), Error, "Nothing to verify");
+
+  const upperCase = {
+    extension: ".upper",
+    transform: async function* (chunks: AsyncIterable<Uint8Array>) {
+      for await (const chunk of chunks) {
+        yield new TextEncoder().encode(new TextDecoder().decode(chunk).toUpperCase());
+      }
+    },
+  };
+  const digest = createHash("sha256").update("HELLO").digest("hex");
+  const suffixed = await writeNewFile("hi.txt", "hello", {
+    outputDirectory: testDir,
+    transforms: [upperCase],
+    integrity: "suffix",
+  });
+  assertEquals(suffixed, join(testDir, `hi.txt~${digest}.upper`));
+  assertEquals(await verifyFile(suffixed), { valid: true, expectedSha256: digest, actualSha256: digest, source: "suffix" });
+
+  writeFileSync(gzipped.path, "tampered");
+  assertEquals((await verifyFile(gzipped.path)).valid, false);
+
+  // Pruning a file takes its sidecar with it:
+  await writeNewFile("log.txt", "newer", { outputDirectory: testDir, transforms: ["gzip"], integrity: "sidecar" });
+  const removed = await pruneFamily(testDir, "log.txt.gz", { keepLast: 1 });
+  assertEquals(removed.length, 1);
+  assertFalse(existsSync(`${removed[0]}.sha256`));
+  assertEquals(readdirSync(testDir).filter((name) => name.startsWith("log.txt")).length, 3); // .br, .gz, .gz.sha256
+
+  await assertRejects(
+    () => writeNewFiles([{ proposedFilename: "a.txt", content: "a" }], { outputDirectory: testDir, integrity: "sidecar" }),
+    TypeError,
+  );
+});
+
+/**
+ The hooks see every attempt and collision, and how each write ends; a `WriteNewFileStats` adds them up. A hook that throws doesn't break the write.
+ */
+test("writeNewFile: hooks and stats", async () => {
+  const fileSystem = new MemoryFileSystem();
+  fileSystem.mkdir("/out");
+  fileSystem.writeFile("/out/taken.txt", "old");
+  const clock: Clock = { now: () => new Date(2024, 11, 22, 16, 39, 42, 500), sleep: () => Promise.resolve() };
+  const events: string[] = [];
+  const stats = new WriteNewFileStats();
+  const options: WriteNewOptions = {
+    outputDirectory: "/out",
+    fileSystem,
+    clock,
+    stats,
+    onAttempt: ({ path, attempt }) => events.push(`attempt ${attempt} ${path}`),
+    onCollision: ({ path, reason }) => events.push(`collision ${reason} ${path}`),
+    onPublished: ({ result, attempts, collisions }) => events.push(`published ${result.path} ${attempts}/${collisions}`),
+    onError: ({ error }) => events.push(`error ${(error as Error).name}`),
+  };
+
+  await writeNewFile("taken.txt", "new", options);
+  assertEquals(events, [
+    "attempt 1 /out/taken.txt",
+    "collision exists /out/taken.txt",
+    "attempt 2 /out/taken~2024-12-22-16-39-42.txt",
+    "published /out/taken~2024-12-22-16-39-42.txt 2/1",
+  ]);
+
+  events.length = 0;
+  await assertRejects(() => writeNewFile("taken.txt", "x", { ...options, onExisting: "fail" }), FileExistsError);
+  assertEquals(events, ["attempt 1 /out/taken.txt", "collision exists /out/taken.txt", "error FileExistsError"]);
+
+  // Concurrent writers in this process find out about each other without asking the file system:
+  events.length = 0;
+  await Promise.all([writeNewFile("hot.txt", "1", options), writeNewFile("hot.txt", "2", options)]);
+  assert(events.includes("collision reserved /out/hot.txt"));
+
+  const throwing = () => {
+    throw new Error("broken logger");
+  };
+  assertEquals(
+    await writeNewFile("fine.txt", "ok", { ...options, onAttempt: throwing, onPublished: throwing }),
+    "/out/fine.txt",
+  );
+
+  const snapshot = stats.snapshot();
+  assertEquals(snapshot.writes, 4);
+  assertEquals(snapshot.errors, 1);
+  assertEquals(snapshot.attempts, 7);
+  assertEquals(snapshot.collisions, 3);
+  assertEquals(snapshot.collisionRate, 3 / 7);
+  assertEquals(snapshot.maxAttemptsPerWrite, 2);
+  assertEquals(snapshot.bytesWritten, 3 + 1 + 1 + 2);
+  assert(snapshot.latencyMs.p50 >= 0 && snapshot.latencyMs.p50 <= snapshot.latencyMs.max);
+  stats.reset();
+  assertEquals(stats.snapshot().writes, 0);
+  assert(Number.isNaN(stats.snapshot().latencyMs.max));
+});
+
+/**
+ `writeNewFileSync()` and `tryCreateFileSync()` follow the same rules as their async counterparts — and sync and async writers can compete for the same name in one directory, and still each get a file of their own, in one sequence of suffixes.
+ */
+test("writeNewFileSync: sync and async writers competing", async () => {
+  const testDir = createTestDir("sync");
+  const frozen: Clock = { now: () => new Date(2024, 11, 22, 16, 39, 42, 500), sleep: () => Promise.resolve() };
+  const options: WriteNewOptions = { outputDirectory: testDir, clock: frozen };
+
+  assertEquals(tryCreateFileSync(join(testDir, "once.txt"), "first"), true);
+  assertEquals(tryCreateFileSync(join(testDir, "once.txt"), "second"), false);
+  assertEquals(readFileSync(join(testDir, "once.txt"), "utf8"), "first");
+
+  // Start a bunch of async writers, and while they are in flight, write synchronously to the same name:
+  const asyncWrites = Array.from({ length: 20 }, (_, i) => writeNewFile("report.txt", `async ${i}`, options));
+  const syncPaths = Array.from({ length: 5 }, (_, i) => writeNewFileSync("report.txt", `sync ${i}`, options));
+  const asyncPaths = await Promise.all(asyncWrites);
+  syncPaths.push(writeNewFileSync("report.txt", "sync 5", options));
+
+  const allPaths = [...asyncPaths, ...syncPaths];
+  assertEquals(new Set(allPaths).size, 26);
+  assertEquals(asyncPaths.map((path) => readFileSync(path, "utf8")), Array.from({ length: 20 }, (_, i) => `async ${i}`));
+  assertEquals(syncPaths.map((path) => readFileSync(path, "utf8")), Array.from({ length: 6 }, (_, i) => `sync ${i}`));
+  // One sequence of suffixes between them, with no gaps:
+  const names = readdirSync(testDir).filter((name) => name.startsWith("report"));
+  assertEquals(names.length, 26);
+  assert(names.includes("report~2024-12-22-16-39-42+522.txt"));
+  assertEquals(syncPaths.at(-1), join(testDir, "report~2024-12-22-16-39-42+523.txt"));
+  assertEquals(readdirSync(testDir).filter((name) => name.startsWith(".")), []);
+
+  assertEquals(
+    writeNewFileSync("data.json", "{}", { outputDirectory: testDir, namingStrategy: "counter" }),
+    join(testDir, "data.json"),
+  );
+  assertEquals(
+    writeNewFileSync("data.json", "{}", { outputDirectory: testDir, namingStrategy: "counter" }),
+    join(testDir, "data~0001.json"),
+  );
+  assertThrows(() => writeNewFileSync("data.json", "{}", { outputDirectory: testDir, onExisting: "fail" }), FileExistsError);
+  assertThrows(
+    () => writeNewFileSync("x.txt", "x", { outputDirectory: testDir, fileSystem: new MemoryFileSystem() }),
+    TypeError,
+  );
+  const gzipped = writeNewFileSync("log.txt", "zip me", { outputDirectory: testDir, transforms: ["gzip"], integrity: "sidecar" });
+  assertEquals(gunzipSync(readFileSync(gzipped)).toString(), "zip me");
+  assertEquals((await verifyFile(gzipped)).valid, true);
+});
+
+/**
+ Writers made by `createNewFileWriter()` each have their own configuration and stats, and wait for their writes when disposed.
+ */
+test("createNewFileWriter: scoped writers", async () => {
+  const fileSystem = new MemoryFileSystem();
+  fileSystem.mkdir("/a");
+  fileSystem.mkdir("/b");
+  const clock: Clock = { now: () => new Date(2024, 11, 22, 16, 39, 42, 500), sleep: () => Promise.resolve() };
+  const a = createNewFileWriter({ outputDirectory: "/a", fileSystem, clock });
+  const b = createNewFileWriter({ outputDirectory: "/b", fileSystem, clock, namingStrategy: "counter" });
+
+  assertEquals(await a.write("log.txt", "a1"), "/a/log.txt");
+  assertEquals(await a.write("log.txt", "a2"), "/a/log~2024-12-22-16-39-42.txt");
+  assertEquals(await b.write("log.txt", "b1"), "/b/log.txt");
+  assertEquals(await b.write("log.txt", "b2"), "/b/log~0001.txt");
+
+  // Options for one call are merged over the writer's own:
+  const result = await a.writeWithResult("log.txt", "a3", { namingStrategy: "counter", onExisting: "fail" }).catch((err) => err);
+  assert(result instanceof FileExistsError);
+  assertEquals((await a.writeWithResult("log.txt", "a3", { namingStrategy: "counter" })).path, "/a/log~0001.txt");
+  assertEquals(await a.tryCreate("once.txt", "first"), true);
+  assertEquals(await a.tryCreate("once.txt", "second"), false);
+  await assertRejects(() => a.tryCreate("../escape.txt", "x"), InvalidFilenameError);
+  assertEquals(fileSystem.readTextFile("/a/once.txt"), "first");
+
+  assertEquals(a.stats.snapshot().writes, 3);
+  assertEquals(a.stats.snapshot().errors, 1);
+  assertEquals(b.stats.snapshot().writes, 2);
+  assertEquals(a.options.outputDirectory, "/a");
+
+  // Disposing waits for the writes in flight, and then stops the writer:
+  let release!: () => void;
+  async function* slow() {
+    yield new TextEncoder().encode("slow ");
+    await new Promise<void>((resolve) => (release = resolve));
+    yield new TextEncoder().encode("but sure");
+  }
+  const inFlight = b.write("slow.txt", slow());
+  let disposed = false;
+  const disposal = b.dispose().then(() => (disposed = true));
+  await assertRejects(() => b.write("late.txt", "x"), Error, "disposed");
+  assertThrows(() => b.writeSync("late.txt", "x"), Error, "disposed");
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  assertFalse(disposed);
+  release();
+  assertEquals(await inFlight, "/b/slow.txt");
+  await disposal;
+  assert(disposed);
+  assertEquals(fileSystem.readTextFile("/b/slow.txt"), "slow but sure");
+  assertEquals((await fileSystem.readdir("/b")).filter((name) => name.startsWith(".")), []);
+  assertEquals(b.dispose(), b.dispose());
+
+  // Writers on the real disk can write synchronously, too:
+  const testDir = createTestDir("scoped-writers");
+  const disk = createNewFileWriter({ outputDirectory: testDir, mode: 0o640 });
+  const path = disk.writeSync("exit.json", "{}");
+  assertEquals(path, join(testDir, "exit.json"));
+  assertEquals(statSync(path).mode & 0o777, 0o640);
+  assertEquals(disk.stats.snapshot().writes, 1);
+  await disk.dispose();
+});
+
+/**
+ The `tempFile` option names the temp files (and stages them) however the consumers need, and `isTempFile()`, `tempFileGlobs()` and `sweepStaleTempFiles()` agree with it.
+ */
+test("writeNewFile: tempFile option", async () => {
+  const testDir = createTestDir("temp-file");
+  const outputDirectory = join(testDir, "out");
+  const staging = join(testDir, "staging");
+  mkdirSync(outputDirectory);
+  mkdirSync(staging);
+  const tempFile: TempFileOptions = { prefix: "~", suffix: ".part", directory: staging };
+
+  // Catch the temp file while it is being written:
+  const tempNames: string[] = [];
+  async function* spy() {
+    tempNames.push(...readdirSync(staging));
+    yield new TextEncoder().encode("staged elsewhere");
+  }
+  const path = await writeNewFile("data.csv", spy(), { outputDirectory, tempFile });
+  assertEquals(path, join(outputDirectory, "data.csv"));
+  assertEquals(readFileSync(path, "utf8"), "staged elsewhere");
+  assertEquals(tempNames.length, 1);
+  assert(isTempFile(tempNames[0], tempFile));
+  assertFalse(isTempFile(tempNames[0]));
+  assert(tempNames[0].startsWith("~data.csv.") && tempNames[0].endsWith(".part"));
+  assertEquals(readdirSync(staging), []);
+  assertEquals(readdirSync(outputDirectory), ["data.csv"]);
+
+  assert(isTempFile(`.__temp__report.txt.${crypto.randomUUID()}`));
+  assertFalse(isTempFile(`.__temp__report.txt.${crypto.randomUUID()}`, { prefix: "~", suffix: ".part" }));
+  assertFalse(isTempFile("~data.csv.part", tempFile));
+  assertEquals(tempFileGlobs(), [".__temp__*"]);
+  assertEquals(tempFileGlobs({ prefix: "[tmp]", suffix: ".part" }), ["\\[tmp\\]*.part"]);
+
+  const orphan = join(staging, `~data.csv.${crypto.randomUUID()}.part`);
+  writeFileSync(orphan, "x");
+  assertEquals((await sweepStaleTempFiles(staging, { olderThan: 0, tempFile })).map((f) => f.path), [orphan]);
+
+  // The prefix is reserved, and the temp file's name needs room, too:
+  await assertRejects(() => writeNewFile("~sneaky.txt", "x", { outputDirectory, tempFile }), InvalidFilenameError);
+  assertEquals(await writeNewFile(".__temp__fine.txt", "x", { outputDirectory, tempFile }), join(outputDirectory, ".__temp__fine.txt"));
+
+  await assertRejects(() => writeNewFile("x.txt", "x", { outputDirectory, tempFile: { prefix: "", suffix: "" } }), TypeError);
+  await assertRejects(() => writeNewFile("x.txt", "x", { outputDirectory, tempFile: { prefix: "a/b" } }), TypeError);
+  await assertRejects(
+    () => writeNewFile("x.txt", "x", { outputDirectory, tempFile: { directory: join(testDir, "nope") } }),
+    Error,
+    "does not exist",
+  );
+
+  // A staging directory on another file system would quietly turn link() into a copy, so it's an error instead:
+  const twoDevices: FileSystem = {
+    ...nodeFileSystem,
+    stat: async (path) => Object.assign(await nodeFileSystem.stat(path), { dev: path === staging ? 1 : 2 }),
+  };
+  await assertRejects(
+    () => writeNewFile("x.txt", "x", { outputDirectory, tempFile, fileSystem: twoDevices }),
+    Error,
+    "not on the same file system",
+  );
+  await assertRejects(
+    () => tryCreateFile(join(outputDirectory, "x.txt"), "x", { tempFile, fileSystem: twoDevices }),
+    Error,
+    "not on the same file system",
+  );
+  assertEquals(readdirSync(outputDirectory).sort(), [".__temp__fine.txt", "data.csv"]);
+});
+
+/**
+ With `ordering: 'monotonic'`, every new name sorts after all the ones before it — after the clock has been set back, after the files have been consumed, and for concurrent writers, which take turns.
+ */
+test("writeNewFile: monotonic ordering", async () => {
+  let time = new Date(2024, 11, 22, 16, 39, 42, 500).getTime();
+  const clock: Clock = {
+    now: () => new Date(time),
+    sleep: (ms) => {
+      time += ms;
+      return Promise.resolve();
+    },
+  };
+  const fileSystem = new MemoryFileSystem();
+  fileSystem.mkdir("/out");
+  const options: WriteNewOptions = { outputDirectory: "/out", fileSystem, clock, ordering: "monotonic" };
+
+  assertEquals(await writeNewFile("log.txt", "1", options), "/out/log.txt");
+  assertEquals(await writeNewFile("log.txt", "2", options), "/out/log~2024-12-22-16-39-42+500.txt");
+
+  // An hour back, and the names just count on from the last one:
+  time -= 60 * 60 * 1000;
+  assertEquals(await writeNewFile("log.txt", "3", options), "/out/log~2024-12-22-16-39-42+501.txt");
+
+  // Even once all of them have been consumed:
+  for (const name of await fileSystem.readdir("/out")) {
+    if (!isTempFile(name)) {
+      await fileSystem.unlink(`/out/${name}`);
+    }
+  }
+  assertEquals(await writeNewFile("log.txt", "4", options), "/out/log~2024-12-22-16-39-42+502.txt");
+
+  // Concurrent writers with their own configuration take turns, and when the tiebreakers run out, the names run ahead of the clock:
+  const a = createNewFileWriter(options);
+  const b = createNewFileWriter(options);
+  const paths = await Promise.all(
+    Array.from({ length: 600 }, (_, i) => (i % 2 ? a : b).write("log.txt", `${i}`)),
+  );
+  assertEquals(paths.slice(0, 2), ["/out/log~2024-12-22-16-39-42+503.txt", "/out/log~2024-12-22-16-39-42+504.txt"]);
+  assertEquals(paths.slice(496, 498), ["/out/log~2024-12-22-16-39-42+999.txt", "/out/log~2024-12-22-16-39-43+000.txt"]);
+  assertEquals([...paths].sort(), paths);
+  assertEquals(new Set(paths).size, 600);
+
+  assertEquals(paths.at(-1), "/out/log~2024-12-22-16-39-43+102.txt");
+
+  // A name taken by a writer that doesn't take turns is skipped, and once the clock is ahead again, it's back in charge:
+  fileSystem.writeFile("/out/log~2024-12-22-16-39-43+103.txt", "somebody else");
+  assertEquals(await writeNewFile("log.txt", "5", options), "/out/log~2024-12-22-16-39-43+104.txt");
+  time += 60 * 60 * 1000 + 2000;
+  assertEquals(await writeNewFile("log.txt", "6", options), "/out/log~2024-12-22-16-39-44+500.txt");
+
+  // The lock is gone, and the sequence file is ignored like any temp file:
+  assertEquals((await fileSystem.readdir("/out")).filter((name) => name.startsWith(".")).map((name) => isTempFile(name)), [
+    true,
+  ]);
+
+  await assertRejects(() => writeNewFile("log.txt", "x", { ...options, namingStrategy: "counter" }), TypeError, "'date'");
+  assertThrows(() => writeNewFileSync("log.txt", "x", { outputDirectory: "/out", ordering: "monotonic" }), TypeError, "monotonic");
+});
+
+/**
+ A lock holds its owner's token, and releasing it removes only that: a lock that somebody has broken and taken over since stays theirs.
+ */
+test("acquireLock: releases only its own lock", async () => {
+  const fileSystem = new MemoryFileSystem();
+  fileSystem.mkdir("/out");
+  const lockPath = controlFilePath("/out", "log.txt", "lock");
+  const release = await acquireLock(lockPath, { fileSystem, wait: () => Promise.resolve() });
+  const token = new TextDecoder().decode(fileSystem.readFile(lockPath)).trim();
+  assertEquals(token.length, 36);
+
+  await fileSystem.unlink(lockPath);
+  fileSystem.writeFile(lockPath, "somebody else\n");
+  await release();
+  assertEquals(new TextDecoder().decode(fileSystem.readFile(lockPath)), "somebody else\n");
+  assertEquals((await fileSystem.readdir("/out")).length, 1);
+
+  // And once it's free again, it's ours for the taking:
+  await fileSystem.unlink(lockPath);
+  await (await acquireLock(lockPath, { fileSystem, wait: () => Promise.resolve() }))();
+  assertEquals(await fileSystem.readdir("/out"), []);
+});
+
+/**
+ With the `quota` option, a write that would leave too many files (or bytes) in the directory, or too little free space, throws a `QuotaExceededError` — or waits for the consumers to make room — and concurrent writers can't squeeze past the limit together.
+ */
+test("writeNewFile: quota option", async () => {
+  let consume: (() => void) | undefined;
+  const clock: Clock = {
+    now: () => new Date(2024, 11, 22, 16, 39, 42, 500),
+    sleep: () => {
+      consume?.();
+      return Promise.resolve();
+    },
+  };
+  const fileSystem = new MemoryFileSystem({ capacity: 1000 });
+  fileSystem.mkdir("/out");
+  const options: WriteNewOptions = { outputDirectory: "/out", fileSystem, clock, quota: { maxFiles: 3 } };
+
+  await writeNewFile("a.txt", "a", options);
+  await writeNewFile("b.txt", "b", options);
+  await writeNewFile("b.txt", "b", options);
+  const error = await assertRejects(() => writeNewFile("c.txt", "c", options), QuotaExceededError);
+  assertEquals([error.limit, error.actual, error.allowed, error.directory], ["maxFiles", 4, 3, "/out"]);
+  // (No trace of c.txt, not even its temp file — only the tally, which is named like one:)
+  assertEquals((await fileSystem.readdir("/out")).filter((name) => !isTempFile(name)), ["a.txt", "b.txt", "b~2024-12-22-16-39-42.txt"]);
+  assertEquals((await fileSystem.readdir("/out")).filter((name) => name.includes("c.txt")), []);
+
+  // The tally still says 3, but a consumer has taken one since, so it counts again before saying no:
+  await fileSystem.unlink("/out/a.txt");
+  await writeNewFile("c.txt", "c", options);
+
+  // Waiting for a consumer to make room, or giving up after a while:
+  consume = () => {
+    consume = undefined;
+    void fileSystem.unlink("/out/b.txt");
+  };
+  const waiting: WriteNewOptions = { ...options, quota: { maxFiles: 3, onExceeded: "wait", pollInterval: 100 } };
+  assertEquals(await writeNewFile("d.txt", "d", waiting), "/out/d.txt");
+  const gaveUp = await assertRejects(
+    () => writeNewFile("e.txt", "e", { ...waiting, quota: { ...waiting.quota, maxWaitMs: 300 } }),
+    QuotaExceededError,
+  );
+  assertEquals(gaveUp.limit, "maxFiles");
+
+  // Bytes, counting only one family:
+  const family: WriteNewOptions = { ...options, quota: { family: true, maxBytes: 10 } };
+  await writeNewFile("log.txt", "123456", family);
+  await assertRejects(() => writeNewFile("log.txt", "123456", family), QuotaExceededError, "maxBytes: 10");
+  await writeNewFile("other.txt", "123456", family);
+
+  // Free space, with the new file counted as used — before it's even staged, so a file that won't fit doesn't take up the space:
+  const opened: string[] = [];
+  const small = new MemoryFileSystem({
+    capacity: 140,
+    beforeOperation: (operation, path) => {
+      if (operation === "open") {
+        opened.push(path);
+      }
+    },
+  });
+  small.mkdir("/out");
+  const roomy: WriteNewOptions = { outputDirectory: "/out", fileSystem: small, quota: { minFreeBytes: 30 } };
+  await writeNewFile("big.bin", new Uint8Array(60), roomy);
+  opened.length = 0;
+  const full = await assertRejects(() => writeNewFile("big.bin", new Uint8Array(60), roomy), QuotaExceededError);
+  assertEquals([full.limit, full.actual, opened], ["minFreeBytes", 20, []]);
+
+  // Concurrent writers, with their own configuration, share the quota:
+  const shared = new MemoryFileSystem();
+  shared.mkdir("/out");
+  const a = createNewFileWriter({ outputDirectory: "/out", fileSystem: shared, quota: { maxFiles: 5 } });
+  const b = createNewFileWriter({ outputDirectory: "/out", fileSystem: shared, quota: { maxFiles: 5 } });
+  const results = await Promise.allSettled(Array.from({ length: 12 }, (_, i) => (i % 2 ? a : b).write("job.txt", `${i}`)));
+  assertEquals(results.filter((result) => result.status === "fulfilled").length, 5);
+  assert(results.every((result) => result.status === "fulfilled" || result.reason instanceof QuotaExceededError));
+
+  assertThrows(() => writeNewFileSync("x.txt", "x", { outputDirectory: "/tmp", quota: { maxFiles: 1 } }), TypeError, "quota");
+  await assertRejects(() => writeNewFile("x.txt", "x", { ...options, quota: { maxFiles: -1 } }), RangeError);
+});
+
+/**
+ `writeNewFileToAll()` writes a copy to each of the `outputDirectories`, named independently or with one shared name, and either as many as it can, or all of them or none.
+ */
+test("writeNewFileToAll: fan-out", async () => {
+  let fullDirectory: string | undefined;
+  const linked: string[] = [];
+  const fileSystem = new MemoryFileSystem({
+    beforeOperation: (operation, path) => {
+      if (operation === "link" && fullDirectory !== undefined && path.startsWith(`${fullDirectory}/`)) {
+        throw Object.assign(new Error("No space left on device"), { code: "ENOSPC" });
+      }
+      if (operation === "link") {
+        linked.push(path);
+      }
+    },
+  });
+  for (const directory of ["/consumer", "/audit", "/tap"]) {
+    fileSystem.mkdir(directory);
+  }
+  fileSystem.writeFile("/audit/event.json", "older");
+  const clock: Clock = { now: () => new Date(2024, 11, 22, 16, 39, 42, 500), sleep: systemClock.sleep };
+  const options: Partial<WriteNewOptions> = { outputDirectories: ["/consumer", "/audit", "/tap"], fileSystem, clock };
+  const visibleNames = async (directory: string) =>
+    (await fileSystem.readdir(directory)).filter((name) => !isTempFile(name)).sort();
+
+  // Each copy named independently, from a stream that is only read once:
+  const independent = await writeNewFileToAll("event.json", ReadableStream.from([new TextEncoder().encode("{}")]), options);
+  assertEquals(independent.map((result) => [result.status, result.result?.path]), [
+    ["published", "/consumer/event.json"],
+    ["published", "/audit/event~2024-12-22-16-39-42.json"],
+    ["published", "/tap/event.json"],
+  ]);
+  assertEquals(new TextDecoder().decode(fileSystem.readFile("/tap/event.json")), "{}");
+
+  // One name that is free everywhere (event~<now>.json is taken in /audit now):
+  const shared = await writeNewFileToAll("event.json", "{}", { ...options, fanOut: { suffix: "shared" } });
+  assertEquals(
+    shared.map((result) => result.result?.path),
+    ["/consumer", "/audit", "/tap"].map((directory) => `${directory}/event~2024-12-22-16-39-42+500.json`),
+  );
+  assertEquals(await visibleNames("/consumer"), ["event.json", "event~2024-12-22-16-39-42+500.json"]);
+
+  // A name that is taken in the last directory is found before any copy is published under it in the others:
+  fileSystem.writeFile("/tap/clash.json", "older");
+  linked.length = 0;
+  const clash = await writeNewFileToAll("clash.json", "{}", { ...options, fanOut: { suffix: "shared" } });
+  assertEquals(linked.map((path) => path.slice(path.lastIndexOf("/") + 1)), Array(3).fill("clash~2024-12-22-16-39-42.json"));
+  assertEquals(clash.map((result) => result.status), ["published", "published", "published"]);
+
+  // Best effort: a directory that fails doesn't stop the others
+  fullDirectory = "/tap";
+  const bestEffort = await writeNewFileToAll("other.json", "{}", { ...options, fanOut: { suffix: "shared" } });
+  assertEquals(bestEffort.map((result) => result.status), ["published", "published", "failed"]);
+  assertEquals((bestEffort[2].error as { code?: string }).code, "ENOSPC");
+  const missing = await writeNewFileToAll("other.json", "{}", { ...options, outputDirectories: ["/consumer", "/nope"] });
+  assertEquals(missing.map((result) => result.status), ["published", "failed"]);
+
+  // All or nothing: the copies that made it are removed again
+  for (const suffix of ["independent", "shared"] as const) {
+    const before = await Promise.all(["/consumer", "/audit"].map(visibleNames));
+    const error = await assertRejects(
+      () => writeNewFileToAll("atomic.json", "{}", { ...options, fanOut: { suffix, mode: "all-or-nothing" } }),
+      FanOutError,
+      "/tap",
+    );
+    assertEquals(error.results.map((result: FanOutResult) => result.status), ["rolled-back", "rolled-back", "failed"]);
+    assertEquals(await Promise.all(["/consumer", "/audit"].map(visibleNames)), before);
+  }
+  fullDirectory = undefined;
+
+  await assertRejects(() => writeNewFile("x.json", "{}", { outputDirectory: "/consumer", ...options }), TypeError, "writeNewFileToAll");
+  await assertRejects(() => writeNewFileToAll("x.json", "{}", { ...options, outputDirectories: ["/tap", "/tap/"] }), TypeError);
+  await assertRejects(
+    () => writeNewFileToAll("x.json", "{}", { ...options, integrity: "sidecar", fanOut: { suffix: "shared" } }),
+    TypeError,
+    "integrity",
+  );
+});
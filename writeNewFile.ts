@@ -1,9 +1,17 @@
-import { format, parse } from '@std/path';
-import { readdirSync } from 'node:fs';
-import { formatDateForFilenameSuffix } from './formatDateForFilenameSuffix.ts';
-import { tryCreateFile } from './tryCreateFile.ts';
+import { newFileWriter } from './newFileWriter.ts';
+import type { WriteNewContent } from './WriteNewContent.ts';
+import type { WriteNewFileResult } from './WriteNewFileResult.ts';
 import { WriteNewOptions } from './WriteNewOptions.ts';
 
+/**
+ The writer behind `writeNewFile()`: it writes with the options passed to each call, or else with `WriteNewOptions.default`. (For a writer with its own configuration, see `createNewFileWriter()`.)
+ */
+const defaultWriter = newFileWriter((options) =>
+  options === undefined
+    ? WriteNewOptions.default
+    : { outputDirectory: WriteNewOptions.default.outputDirectory, ...options }
+);
+
 /**
  Writes data to a unique file path using a date-based suffix, in a concurrency-safe manner. That is, if some other process or thread writes a file at the same time, we will fail, increment the suffix and try again, until we succeed at writing a new and uniquely-named file.
 
@@ -13,117 +21,78 @@ import { WriteNewOptions } from './WriteNewOptions.ts';
 
   1. For the "current second" of the clock, try a suffix like:
       `'basename~YYYY-MM-DD HH:mm:ss.ext'`
-  2. If that fails because it already exists, repeatedly:
-      - Sleep 50ms
-      - If the second is still the same, we try: `'basename~YYYY-MM-DD HH:mm:ss+SSS.ext'` (where `SSS` is the millisecond portion)
-      - If that also exists, keep looping in 50ms increments until either we succeed or the clock moves on to a new second
+  2. If that fails because it already exists, repeatedly, without waiting:
+      - If the second is still the same, we try: `'basename~YYYY-MM-DD HH:mm:ss+SSS.ext'` (where `SSS` is the millisecond portion — or, if the previous tiebreaker in this second was already that high, one more than that)
+      - If that also exists, keep counting up `SSS` until either we succeed or the clock moves on to a new second
+      - Only if `+999` is taken too, sleep 50ms (or whatever the `retryInterval` option says) and check the clock again
   3. Once the clock changes to a new second, start over at (1) with the fresh seconds-only string.
 
+ All the `writeNewFile()` calls in a process share what they know about each file family: the tiebreakers keep going up from the last one any of them handed out, and nobody tries a name that another one is about to publish. So a burst of concurrent writes to the same name mostly doesn't even collide on the file system — it just hands out `+SSS` names, in order. (Writers in other processes still find out about each other the usual way, by colliding.)
+
+ Each candidate is published by hard-linking the temp file to it, which is atomic and fails if the name is taken. On filesystems without hard links, the `publishStrategy` option lets you fall back to exclusive creation instead (and by default, that happens automatically) — but read `PublishStrategy` to see what consumers give up when that happens.
+
+ By default nothing is `fsync()`-ed, so the write is atomic but not durable: after a power loss, a file whose path was returned may be missing. Set the `durability` option to `'file+directory'` if that matters (see `Durability`).
+
+ Normally, this keeps trying until it succeeds, which could in theory be forever (a stuck clock, a custom naming strategy that keeps returning taken names...). To put a stop to that, pass a `signal`, a `timeoutMs`, and/or a `maxAttempts` in the options.
+
+ If the proposed filename is taken, a new file with a suffix is what you get by default — but the `onExisting` option can make it throw a `FileExistsError` instead, atomically replace the existing file, or skip the write if an existing file already has the same content (see `ExistingFilePolicy`, and use `writeNewFileWithResult()` to find out which of those happened).
+
+ If the `retention` option is set, older members of the file family are pruned after each successful write (see `pruneFamily()`). If the `quota` option is set, a write that would leave the directory with too many files or bytes, or the disk with too little free space, isn't published: it throws a `QuotaExceededError`, or waits for the consumers to make room (see `QuotaPolicy`).
+
+ The `transforms` option runs the content through compression (or your own steps) on its way into the temp file, and appends `.gz`, `.br`, etc. to the proposed filename (see `ContentTransform`). The `integrity` option makes the file's SHA-256 checkable by consumers with `verifyFile()`: published in a `.sha256` sidecar right after the file, or as the file's suffix (see `Integrity`).
+
+ To see what a write does — every name it tries, every collision, how long it slept, and how it ended — pass hooks (`onAttempt`, `onCollision`, `onPublished`, `onError`) and/or a `WriteNewFileStats` collector in the options (see `WriteNewFileHooks`).
+
+ If the `shard` option is set, the file is written into a date-based subdirectory of the output directory instead (see `Shard`), which is created if necessary. Everything above then happens in that subdirectory: the temp file is staged there, so publishing stays atomic, and the returned path includes it.
+
  This yields filenames that, in lexicographic order (on most OS ), generally  tend to match their creation order (even across different platforms), in GUI file browsers or results of `ls`, etc.
 
+ "Generally", because that's only as good as the clock. If the order has to hold no matter what — the clock being set back, writers in several processes, files consumed in the meantime — set the `ordering` option to `'monotonic'`, and the writers of a family take turns, so that each new name sorts after all the ones before it (see `Ordering`).
+
+ That's the default `'date'` naming strategy. You can choose a different one (a sequential counter, a ULID, a content hash, or your own function) via the `namingStrategy` option — see `NamingStrategy`. Whichever strategy is used, each candidate is created atomically by `tryCreateFile()`, and if it is already taken we just move on to the next candidate. (Only the `'date'` strategy ever sleeps, and only when it has run out of tiebreakers, since then it has to wait for the clock to move on — unless a lock or a quota makes the write wait, see `Ordering` and `QuotaPolicy`.)
+
  @param proposedFilename The proposed file name to write, including extension (if any), e.g. `'example.txt'`, `'foo.json'`, or `'config'`. If no file exists with that name yet (otherwise, it will have a lexicographically higher suffix appended, so that it is unique and is sorted after the existing files in the default sort order of most OSes)
 
- @param content The data to write - if a string, UTF-8 encoding is assumed, otherwise pass a Uint8Array
+ The content is written to a temp file only once, up front, and then that same temp file is hard-linked to each candidate name in turn until one succeeds. That means it can also be a stream (a `ReadableStream<Uint8Array>`, an `AsyncIterable<Uint8Array>`, or a Node.js `Readable`) — it is streamed into the temp file, and only published once the stream has finished. If the stream errors partway through, the temp file is removed and no file is published.
+
+ @param content The data to write - if a string, UTF-8 encoding is assumed, otherwise pass a Uint8Array or a stream (see `WriteNewContent`)
 
  @param options Optional configuration. If not supplied, the default `WriteNewOptions` will be used. (You can set the default options yourself to avoid having to pass them every time)
 
- @returns The full path to the newly created file, including the unique suffix
+ @returns The full path to the newly created file, including the unique suffix (or, depending on the `onExisting` option, the replaced file or the existing identical file)
+
+ @throws {InvalidFilenameError} if the proposed filename isn't safe to use (it contains a path separator, control characters, etc. — see `checkProposedFilename()`), and the `filenamePolicy` option is `'reject'` (the default)
+
+ @throws {TypeError} if the `ordering` option is `'monotonic'`, and the other options ask for something it doesn't work with (see `Ordering`), or if the `outputDirectories` option is set (that's for `writeNewFileToAll()`)
+
+ @throws {QuotaExceededError} if the `quota` option is set, and the write would exceed it (right away, or after waiting, if the quota says to wait)
+
+ @throws {FileExistsError} if the `onExisting` option is `'fail'` and the proposed filename is taken
+
+ @throws {WriteNewFileGaveUpError} if the `signal` is aborted, the `timeoutMs` runs out, or `maxAttempts` candidates have all turned out to be taken, before a file could be written (the error lists the candidate paths that were tried)
 
  @throws Any error from the underlying file operations except for `AlreadyExists` which is handled internally
 */
 export async function writeNewFile(
   proposedFilename: string,
-  content: string | Uint8Array,
+  content: WriteNewContent,
   options?: WriteNewOptions,
 ): Promise<string>
 {
-  const resolvedOptions = options ?? WriteNewOptions.default;
-
-  try
-  {
-    // This check has to be sync to throw the error immediately. We do this check here instead of in `tryCreateFile()` because we don't want to slow down the main loop to throw a slightly better error message.
-    readdirSync(resolvedOptions.outputDirectory);
-  }
-  catch (error: unknown)
-  {
-    if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT')
-    {
-      throw new Error(`NobodyCannaCrossIt: The output directory "${resolvedOptions.outputDirectory}" does not exist.`);
-    }
-    throw error;
-  }
-
-  const filePath = format({
-    dir: resolvedOptions.outputDirectory,
-    base: proposedFilename,
-  });
-
-  const data = typeof content === 'string'
-    ? new TextEncoder().encode(content)
-    : content;
-
-  const parsed = parse(filePath);
-
-  const wroteAsRequested = await tryCreateFile(filePath, data);
-  if (wroteAsRequested)
-  {
-    return filePath;
-  }
-
-  /**
-   Internal function to build path from date string
-   */
-  function buildPath(dateString: string): string
-  {
-    return format(
-      {
-        dir: parsed.dir,
-        name: `${parsed.name}~${dateString}`,
-        ext: parsed.ext,
-      },
-    );
-  }
-
-  while (true)
-  {
-    // Step 1: use second resolution
-    const now = new Date();
-    const baseDateStr = formatDateForFilenameSuffix(now);
-    const candidateNoMs = buildPath(baseDateStr);
-    if (await tryCreateFile(candidateNoMs, data))
-    {
-      return candidateNoMs; // success!
-    }
-
-    // If we get here, it means candidateNoMs already existed or was created by someone else in that minuscule slice of time.
-    // We now do the loop that tries "basename~YYYY-MM-DD HH:mm:ssSSS.ext"
-    while (true)
-    {
-      await sleep(50);
-
-      const newNow = new Date();
-      // If we've rolled over to a new second, bail to outer loop so we can do the "no MS" approach again with updated time.
-      if (formatDateForFilenameSuffix(newNow) !== baseDateStr)
-      {
-        break;
-      }
-
-      // Second is still the same, so try adding milliseconds
-      const msStr = newNow.getMilliseconds().toString().padStart(3, '0');
-      const candidateMs = buildPath(baseDateStr + '+' + msStr);
-      if (await tryCreateFile(candidateMs, data))
-      {
-        return candidateMs; // success
-      }
-      // If that fails, wait 50 ms again, rinse, repeat.
-    }
-  }
+  return await defaultWriter.write(proposedFilename, content, options);
 }
 
 /**
- Sleep helper fn (the usual one)
- */
-function sleep(ms: number): Promise<void>
+ Exactly like `writeNewFile()`, except that instead of just the path, it returns a `WriteNewFileResult` saying what happened: whether a new file was created, an existing one was replaced, or the write was skipped because an identical file already existed (the last two only happen if you ask for them with the `onExisting` option).
+
+ @throws Everything that `writeNewFile()` throws
+*/
+export async function writeNewFileWithResult(
+  proposedFilename: string,
+  content: WriteNewContent,
+  options?: WriteNewOptions,
+): Promise<WriteNewFileResult>
 {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+  return await defaultWriter.writeWithResult(proposedFilename, content, options);
 }
+
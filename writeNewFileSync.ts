@@ -0,0 +1,159 @@
+import { format, parse } from '@std/path';
+import { resolveProposedFilename } from './candidateFilenames.ts';
+import { prepareOutputDirectorySync } from './checkOutputDirectory.ts';
+import { systemClock } from './Clock.ts';
+import { transformContentSync } from './ContentTransform.ts';
+import { acquireFamilyReservations, releaseFamilyReservations } from './FamilyReservations.ts';
+import { fileAttributesOf } from './FileAttributes.ts';
+import { nodeFileSystem } from './FileSystem.ts';
+import {
+  finishPublishingSteps,
+  performPublishStepsSync,
+  type PublishContext,
+  type PublishedFile,
+  publishedResult,
+  publishStagedFileSteps,
+} from './publishSteps.ts';
+import { discardTempFileSync, stageTempFileSync } from './stageTempFile.ts';
+import { WriteAttempts } from './WriteAttempts.ts';
+import type { WriteNewFileResult } from './WriteNewFileResult.ts';
+import { WriteNewOptions } from './WriteNewOptions.ts';
+import { WriteObserver } from './WriteObserver.ts';
+
+/**
+ Exactly like `writeNewFile()`, but synchronous — for places where async code can't run, like a `process.on('exit')` handler, or a synchronous code path in a CLI.
+
+ It stages the content in a temp file and publishes it with `link()`, comes up with the same unique suffixes in the same order (the naming logic is literally shared), and coordinates with any `writeNewFile()` calls in flight in this process, so sync and async writers can write to the same directory, and even the same filename, at the same time.
+
+ Being synchronous, it can't do quite everything `writeNewFile()` can:
+
+ - It always writes to the real disk, so the `fileSystem` option can't be anything but `nodeFileSystem`
+ - The content can't be a stream, and only the built-in `transforms` (`'gzip'`, `'brotli'`) work
+ - The `onExisting: 'skip-if-identical'` policy, the `retention` and `quota` options, and `ordering: 'monotonic'` aren't supported
+ - Nothing can abort it while it runs, so `signal` is only checked (if it is aborted already, this gives up), and `timeoutMs` is measured against `Date.now()` between attempts
+ - When the `'date'` strategy has to wait for the clock, it blocks the thread (only `clock.now()` is used, never `clock.sleep()`)
+
+ @param proposedFilename The proposed file name to write, e.g. `'crash-report.json'` (see `writeNewFile()`)
+
+ @param content The data to write — a string (UTF-8) or a `Uint8Array`
+
+ @param options Optional configuration, as for `writeNewFile()` (see `WriteNewOptions`)
+
+ @returns The full path to the newly created file
+
+ @throws {TypeError} if the options ask for something that can't be done synchronously (see above)
+
+ @throws Everything else that `writeNewFile()` throws
+*/
+export function writeNewFileSync(
+  proposedFilename: string,
+  content: string | Uint8Array,
+  options?: WriteNewOptions,
+): string
+{
+  const resolvedOptions = options ?? WriteNewOptions.default;
+  const observer = WriteObserver.create(proposedFilename, resolvedOptions);
+  try
+  {
+    const result = writeAndPublishSync(proposedFilename, content, resolvedOptions, observer);
+    observer?.published(result);
+    return result.path;
+  }
+  catch (err: unknown)
+  {
+    observer?.failed(err);
+    throw err;
+  }
+}
+
+/**
+ The actual work of `writeNewFileSync()`, mirroring `writeNewFile()`'s step by step (and sharing its steps — see `PublishStep`)
+ */
+function writeAndPublishSync(
+  proposedFilename: string,
+  content: string | Uint8Array,
+  resolvedOptions: WriteNewOptions,
+  observer: WriteObserver | undefined,
+): WriteNewFileResult
+{
+  const namingStrategy = resolvedOptions.namingStrategy ?? 'date';
+  const durability = resolvedOptions.durability ?? 'none';
+  const onExisting = resolvedOptions.onExisting ?? 'suffix';
+  const clock = resolvedOptions.clock ?? systemClock;
+  const integrity = resolvedOptions.integrity ?? 'none';
+  const transforms = resolvedOptions.transforms ?? [];
+  const attributes = fileAttributesOf(resolvedOptions);
+
+  if ((resolvedOptions.fileSystem ?? nodeFileSystem) !== nodeFileSystem)
+  {
+    throw new TypeError('writeNewFileSync() only writes to the real disk (the fileSystem option must be nodeFileSystem)');
+  }
+  if (onExisting === 'skip-if-identical')
+  {
+    throw new TypeError("writeNewFileSync() does not support onExisting: 'skip-if-identical'");
+  }
+  if (resolvedOptions.retention)
+  {
+    throw new TypeError('writeNewFileSync() does not support the retention option (use pruneFamily() instead)');
+  }
+  if ((resolvedOptions.ordering ?? 'clock') !== 'clock')
+  {
+    throw new TypeError("writeNewFileSync() does not support ordering: 'monotonic'");
+  }
+  if (resolvedOptions.quota)
+  {
+    throw new TypeError('writeNewFileSync() does not support the quota option');
+  }
+  if (resolvedOptions.outputDirectories)
+  {
+    throw new TypeError('writeNewFileSync() writes to one outputDirectory (use writeNewFileToAll() for outputDirectories)');
+  }
+
+  const safeFilename = resolveProposedFilename(proposedFilename, resolvedOptions);
+
+  const directory = prepareOutputDirectorySync(resolvedOptions, clock);
+
+  const filePath = format({ dir: directory, base: safeFilename });
+  const parsed = parse(filePath);
+
+  // No timer can fire while we block the thread, so the timeout is a deadline that gets checked between attempts:
+  const attempts = WriteAttempts.startSync(proposedFilename, resolvedOptions);
+
+  attempts.giveUpIfNecessary();
+  const staged = stageTempFileSync(filePath, transforms.length > 0 ? transformContentSync(content, transforms) : content, {
+    hash: namingStrategy === 'content-hash' || integrity !== 'none',
+    sync: durability !== 'none',
+    attributes,
+    tempFile: resolvedOptions.tempFile,
+  });
+
+  const context: PublishContext = {
+    proposedFilename,
+    parsed,
+    staged,
+    options: resolvedOptions,
+    durability,
+    attributes,
+    attempts,
+    observer,
+    clock,
+    fileSystem: nodeFileSystem,
+  };
+
+  // Nothing else in this process runs until we are done, so nobody here can take a name from under us — but we do skip the ones that async writers have reserved, and hand out names in the same sequence as they do:
+  const reservations = acquireFamilyReservations(nodeFileSystem, filePath);
+  let published: PublishedFile;
+  try
+  {
+    published = performPublishStepsSync(publishStagedFileSteps(context, reservations), context);
+  }
+  finally
+  {
+    releaseFamilyReservations(nodeFileSystem, filePath);
+    discardTempFileSync(staged.tempPath);
+  }
+
+  const result = publishedResult(published, context);
+  performPublishStepsSync(finishPublishingSteps(published, context), context);
+  return result;
+}
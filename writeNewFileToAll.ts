@@ -0,0 +1,581 @@
+import { format, join, parse, type ParsedPath, resolve } from '@std/path';
+import { nextCandidateFilename, resolveProposedFilename } from './candidateFilenames.ts';
+import { checkOutputDirectory, prepareOutputDirectory } from './checkOutputDirectory.ts';
+import { type Clock, systemClock } from './Clock.ts';
+import { transformContent } from './ContentTransform.ts';
+import { syncDirectory } from './Durability.ts';
+import { acquireFamilyReservations, type FamilyReservations, releaseFamilyReservations } from './FamilyReservations.ts';
+import { FanOutError } from './FanOutError.ts';
+import { fileAttributesOf } from './FileAttributes.ts';
+import { FileExistsError } from './FileExistsError.ts';
+import { type FileSystem, nodeFileSystem } from './FileSystem.ts';
+import { SHA256_SIDECAR_EXTENSION } from './Integrity.ts';
+import { findHighestCounter } from './NamingStrategy.ts';
+import { discardTempFile, type StagedTempFile, stageTempFile } from './stageTempFile.ts';
+import { tryPublishTempFile } from './tryCreateFile.ts';
+import { WriteAttempts } from './WriteAttempts.ts';
+import type { WriteNewContent } from './WriteNewContent.ts';
+import { writeNewFileWithResult } from './writeNewFile.ts';
+import type { WriteNewFileResult } from './WriteNewFileResult.ts';
+import { WriteNewOptions } from './WriteNewOptions.ts';
+import { WriteObserver } from './WriteObserver.ts';
+
+/**
+ What `writeNewFileToAll()` did in one of the output directories.
+
+ @property outputDirectory The output directory, as passed in `outputDirectories`
+
+ @property status What happened there:
+  - `'published'`: the copy is there, at `result.path`
+  - `'failed'`: the copy couldn't be written, because of `error`
+  - `'rolled-back'`: the copy isn't there, because another directory failed in the `'all-or-nothing'` mode. If it had already been published, `result` says where, and it has been removed again.
+
+ @property result What was written, like `writeNewFileWithResult()` returns it (see `WriteNewFileResult`)
+
+ @property error Why the copy couldn't be written, if it `'failed'`
+*/
+export type FanOutResult = {
+  outputDirectory: string;
+  status: 'published' | 'failed' | 'rolled-back';
+  result?: WriteNewFileResult;
+  error?: unknown;
+};
+
+/**
+ Writes the same new file to every one of the `outputDirectories` in the options (e.g. to a consumer's directory, an audit archive, and a debug tap), and returns what happened in each of them, in the same order.
+
+ By default, each copy is written exactly as `writeNewFile()` would write it, with all the same options — it's just that you only call it once, and the content is only read once, even if it's a stream (it is staged in a temp file first, and each copy is read from that). With `fanOut: { suffix: 'shared' }`, the copies all get the same name instead: the first one that is free in every directory (see `FanOutPolicy`).
+
+ A directory that fails — it doesn't exist, the disk is full, the name search gives up — doesn't stop the others, and its result says what went wrong. With `fanOut: { mode: 'all-or-nothing' }`, though, the copies that were already published are removed again if any directory fails, and a `FanOutError` is thrown, listing the results. Since a published copy may already have been picked up by a consumer before it is removed again, consumers should be able to cope with that (or you shouldn't use the mode with them).
+
+ If there's no `outputDirectories` option, this writes to the `outputDirectory` alone.
+
+ The shared suffix works for the `onExisting` policies `'suffix'` (the default) and `'fail'`, and without the `retention`, `integrity`, `ordering: 'monotonic'` and `quota` options, which are all about one directory at a time. (Independent copies support everything that `writeNewFile()` does, except that the `'all-or-nothing'` mode can't undo `onExisting: 'replace'` or `retention`, so it doesn't allow them.)
+
+ @param proposedFilename The proposed file name, e.g. `'event.json'` (the same as for `writeNewFile()`)
+
+ @param content The data to write (see `WriteNewContent`)
+
+ @param options Optional configuration, with the `outputDirectories` and the `fanOut` policy. If not supplied, the default `WriteNewOptions` will be used
+
+ @returns What happened in each output directory, in the order of `outputDirectories` (see `FanOutResult`)
+
+ @throws {TypeError} if `outputDirectories` is empty or lists the same directory twice, or the options ask for something that the `fanOut` policy doesn't support (see above)
+
+ @throws {InvalidFilenameError} if the proposed filename isn't safe to use, and the `filenamePolicy` option is `'reject'` (the default)
+
+ @throws {FanOutError} if the `fanOut` mode is `'all-or-nothing'`, and any of the directories failed
+*/
+export async function writeNewFileToAll(
+  proposedFilename: string,
+  content: WriteNewContent,
+  options?: Partial<WriteNewOptions>,
+): Promise<FanOutResult[]>
+{
+  const resolvedOptions: WriteNewOptions = options === undefined
+    ? WriteNewOptions.default
+    : { outputDirectory: WriteNewOptions.default.outputDirectory, ...options };
+  const outputDirectories = resolvedOptions.outputDirectories ?? [resolvedOptions.outputDirectory];
+  const { suffix = 'independent', mode = 'best-effort' } = resolvedOptions.fanOut ?? {};
+  const fileSystem = resolvedOptions.fileSystem ?? nodeFileSystem;
+
+  if (outputDirectories.length === 0)
+  {
+    throw new TypeError('writeNewFileToAll() needs at least one output directory');
+  }
+  if (new Set(outputDirectories.map((directory) => resolve(directory))).size !== outputDirectories.length)
+  {
+    throw new TypeError(`writeNewFileToAll() needs distinct output directories, not: ${outputDirectories.join(', ')}`);
+  }
+  if (suffix === 'shared')
+  {
+    checkSharedSuffix(resolvedOptions);
+  }
+  if (mode === 'all-or-nothing' && resolvedOptions.onExisting === 'replace')
+  {
+    throw new TypeError("The 'all-or-nothing' fan-out mode does not support onExisting: 'replace' (a replaced file can't be put back)");
+  }
+  if (mode === 'all-or-nothing' && resolvedOptions.retention)
+  {
+    throw new TypeError("The 'all-or-nothing' fan-out mode does not support the retention option (pruned files can't be put back)");
+  }
+
+  const safeFilename = resolveProposedFilename(proposedFilename, resolvedOptions);
+
+  let results: FanOutResult[];
+  let source: ReusableContent | undefined;
+  try
+  {
+    const reusable = await reusableContent(content, outputDirectories, safeFilename, resolvedOptions, fileSystem);
+    source = reusable;
+    results = suffix === 'shared'
+      ? await writeWithSharedSuffix(proposedFilename, safeFilename, reusable.content, outputDirectories, mode, resolvedOptions)
+      : await Promise.all(outputDirectories.map(async (outputDirectory): Promise<FanOutResult> =>
+      {
+        try
+        {
+          const result = await writeNewFileWithResult(proposedFilename, reusable.content(), {
+            ...resolvedOptions,
+            outputDirectory,
+            outputDirectories: undefined,
+          });
+          return { outputDirectory, status: 'published', result };
+        }
+        catch (err: unknown)
+        {
+          return { outputDirectory, status: 'failed', error: err };
+        }
+      }));
+  }
+  catch (err: unknown)
+  {
+    // The content itself couldn't be read, so there's nothing to write anywhere:
+    results = outputDirectories.map((outputDirectory) => ({ outputDirectory, status: 'failed', error: err }));
+  }
+  finally
+  {
+    if (source?.tempPath !== undefined)
+    {
+      await discardTempFile(source.tempPath, fileSystem);
+    }
+  }
+
+  if (mode === 'all-or-nothing' && results.some((result) => result.status === 'failed'))
+  {
+    throw new FanOutError(proposedFilename, await rollBack(results, resolvedOptions, fileSystem));
+  }
+  return results;
+}
+
+/**
+ The content of a fan-out write, in a form that can be read once per copy: `content()` returns it afresh each time. A stream is staged in the temp file at `tempPath` first, which the caller has to discard afterwards.
+ */
+type ReusableContent = { content: () => WriteNewContent; tempPath?: string };
+
+/**
+ Returns `content` in a form that can be read once per copy (see `ReusableContent`). A stream is staged, untransformed, in the first of the `outputDirectories` that is usable (or in the `tempFile` directory).
+ */
+async function reusableContent(
+  content: WriteNewContent,
+  outputDirectories: readonly string[],
+  safeFilename: string,
+  options: WriteNewOptions,
+  fileSystem: FileSystem,
+): Promise<ReusableContent>
+{
+  if (typeof content === 'string' || content instanceof Uint8Array)
+  {
+    return { content: () => content };
+  }
+
+  let lastError: unknown;
+  for (const outputDirectory of outputDirectories)
+  {
+    try
+    {
+      await checkOutputDirectory(outputDirectory, fileSystem);
+    }
+    catch (err: unknown)
+    {
+      lastError = err; // that directory will fail on its own, but the others may still work
+      continue;
+    }
+    const staged = await stageTempFile(join(outputDirectory, safeFilename), content, {
+      tempFile: options.tempFile,
+      signal: options.signal,
+      fileSystem,
+    });
+    return { content: () => fileSystem.readChunks(staged.tempPath), tempPath: staged.tempPath };
+  }
+  throw lastError;
+}
+
+/**
+ Throws if the options can't be used with a shared suffix (see `FanOutPolicy`).
+
+ @throws {TypeError} if they ask for an `onExisting` policy other than `'suffix'` or `'fail'`, `retention`, `integrity`, `ordering: 'monotonic'` or `quota`
+ */
+function checkSharedSuffix(options: WriteNewOptions): void
+{
+  const onExisting = options.onExisting ?? 'suffix';
+  if (onExisting !== 'suffix' && onExisting !== 'fail')
+  {
+    throw new TypeError(`The shared fan-out suffix does not support onExisting: '${onExisting}'`);
+  }
+  if (options.retention)
+  {
+    throw new TypeError('The shared fan-out suffix does not support the retention option (use pruneFamily() instead)');
+  }
+  if ((options.integrity ?? 'none') !== 'none')
+  {
+    throw new TypeError('The shared fan-out suffix does not support the integrity option');
+  }
+  if ((options.ordering ?? 'clock') !== 'clock')
+  {
+    throw new TypeError("The shared fan-out suffix does not support ordering: 'monotonic'");
+  }
+  if (options.quota)
+  {
+    throw new TypeError('The shared fan-out suffix does not support the quota option');
+  }
+}
+
+/**
+ Writes a copy to each of the `outputDirectories`, all under the same name: the proposed filename if it is free everywhere, or else the first suffixed name that is. Every copy is staged first; then each name is looked up in every directory before any copy is published under it, and if it's taken anywhere (or reserved by a writer in this process — see `FamilyReservations`), they all move on to the next one.
+
+ A directory that fails drops out (in the `'best-effort'` mode), or stops the whole write (in the `'all-or-nothing'` mode, leaving the copies already published for the caller to roll back).
+ */
+async function writeWithSharedSuffix(
+  proposedFilename: string,
+  safeFilename: string,
+  content: () => WriteNewContent,
+  outputDirectories: readonly string[],
+  mode: 'best-effort' | 'all-or-nothing',
+  resolvedOptions: WriteNewOptions,
+): Promise<FanOutResult[]>
+{
+  const publishStrategy = resolvedOptions.publishStrategy ?? 'auto';
+  const durability = resolvedOptions.durability ?? 'none';
+  const onExisting = resolvedOptions.onExisting ?? 'suffix';
+  const fileSystem = resolvedOptions.fileSystem ?? nodeFileSystem;
+  const clock = resolvedOptions.clock ?? systemClock;
+  const transforms = resolvedOptions.transforms ?? [];
+  const { retryInterval = 50, suffixFormat, tempFile } = resolvedOptions;
+  const strategy = resolvedOptions.namingStrategy ?? 'date';
+  const attributes = fileAttributesOf(resolvedOptions);
+  const attempts = WriteAttempts.start(proposedFilename, resolvedOptions);
+
+  // What we know about each directory, and, once it's settled, what happened there:
+  type Target = { outputDirectory: string; observer?: WriteObserver; outcome?: FanOutResult };
+  // And for the ones whose copy is staged, ready to publish:
+  type ReadyTarget = Target & { parsed: ParsedPath; staged: StagedTempFile; reservations: FamilyReservations };
+  const targets: Target[] = outputDirectories.map((outputDirectory) => ({
+    outputDirectory,
+    observer: WriteObserver.create(proposedFilename, resolvedOptions),
+  }));
+  const ready: ReadyTarget[] = [];
+
+  /**
+   Internal function that records that `target`'s copy is published, and reports it to its observer
+   */
+  function settlePublished(target: Target, result: WriteNewFileResult): void
+  {
+    target.outcome = { outputDirectory: target.outputDirectory, status: 'published', result };
+    target.observer?.published(result);
+  }
+
+  /**
+   Internal function that records that `target`'s copy failed (or, in the `'all-or-nothing'` mode, was rolled back), and reports it to its observer
+   */
+  function settleFailed(target: Target, status: 'failed' | 'rolled-back', error: unknown, result?: WriteNewFileResult): void
+  {
+    target.outcome = { outputDirectory: target.outputDirectory, status, result, error };
+    target.observer?.failed(error);
+  }
+
+  /**
+   Internal function that settles every target that hasn't been yet — as failed, or, in the `'all-or-nothing'` mode, after another one has failed, as rolled back
+   */
+  function settleTheRest(status: 'failed' | 'rolled-back', error: unknown): void
+  {
+    for (const target of targets.filter((target) => !target.outcome))
+    {
+      settleFailed(target, status, error);
+    }
+  }
+
+  // Every copy goes into the shard for the same moment, so that they all end up with the same relative path:
+  const now = clock.now();
+  const shardClock: Clock = { now: () => now, sleep: (ms, signal) => clock.sleep(ms, signal) };
+  try
+  {
+    for (const target of targets)
+    {
+      try
+      {
+        attempts.giveUpIfNecessary();
+        const directory = await prepareOutputDirectory(
+          { ...resolvedOptions, outputDirectory: target.outputDirectory },
+          shardClock,
+          fileSystem,
+        );
+        const path = join(directory, safeFilename);
+        const staged = await stageTempFile(path, transforms.length > 0 ? transformContent(content(), transforms) : content(), {
+          hash: strategy === 'content-hash',
+          sync: durability !== 'none',
+          attributes,
+          tempFile,
+          signal: attempts.signal,
+          fileSystem,
+        });
+        ready.push(Object.assign(target, { parsed: parse(path), staged, reservations: acquireFamilyReservations(fileSystem, path) }));
+      }
+      catch (err: unknown)
+      {
+        const error = attempts.gaveUp() ?? err; // if that is why it failed
+        settleFailed(target, 'failed', error);
+        if (mode === 'all-or-nothing')
+        {
+          settleTheRest('rolled-back', error);
+          break;
+        }
+      }
+    }
+
+    await publishEverywhere();
+  }
+  finally
+  {
+    await Promise.all(ready.map((target) => discardTempFile(target.staged.tempPath, fileSystem)));
+    for (const target of ready)
+    {
+      releaseFamilyReservations(fileSystem, format(target.parsed));
+    }
+  }
+  // (Every target is settled by now, one way or another, so this is just for the type checker.)
+  return targets.map(({ outputDirectory, outcome }) => outcome ?? { outputDirectory, status: 'failed' });
+
+  /**
+   Internal function that tries one name after another, until one sticks in every directory that is still in the running
+   */
+  async function publishEverywhere(): Promise<void>
+  {
+    const running = ready.filter((target) => !target.outcome);
+    if (running.length === 0)
+    {
+      return;
+    }
+    const [first] = running;
+    const contentHash = first.staged.sha256?.slice(0, 16);
+
+    try
+    {
+      const takenPath = await tryPublishAs(safeFilename);
+      if (takenPath === undefined)
+      {
+        return;
+      }
+      if (onExisting === 'fail')
+      {
+        throw new FileExistsError(safeFilename, takenPath);
+      }
+
+      // One name for all the copies, so it has to come after what the writers in this process have handed out in any of the directories:
+      const shared: FamilyReservations = { reserved: new Set(), writers: 1 };
+      for (const { reservations } of running)
+      {
+        if (reservations.previous !== undefined && (shared.previous === undefined || reservations.previous > shared.previous))
+        {
+          shared.previous = reservations.previous;
+        }
+      }
+      if (strategy === 'counter')
+      {
+        // The counter has to go up from the highest one in any of the directories, or it would be taken in that one:
+        const highestCounters = await Promise.all(running.map(async ({ parsed, reservations }) =>
+        {
+          reservations.counterScan ??= fileSystem.readdir(parsed.dir).then((names) => findHighestCounter(names, parsed));
+          return Math.max(await reservations.counterScan, reservations.highestCounter ?? 0);
+        }));
+        shared.highestCounter = Math.max(...highestCounters);
+      }
+
+      for (let attempt = 1;; attempt++)
+      {
+        attempts.giveUpIfNecessary();
+        let name: string | undefined;
+        while (
+          (name = nextCandidateFilename(shared, strategy, first.parsed, { attempt, now: clock.now(), contentHash, suffixFormat }))
+            === undefined
+        )
+        {
+          // Out of tiebreakers for this timestamp, so wait for the clock to move on:
+          await clock.sleep(retryInterval, attempts.signal);
+          for (const target of running)
+          {
+            target.observer?.slept(retryInterval);
+          }
+          attempts.giveUpIfNecessary();
+        }
+        // (And tell them what we handed out, so that they go on from there.)
+        for (const { reservations } of running)
+        {
+          if (strategy === 'date')
+          {
+            reservations.previous = shared.previous;
+          }
+          else if (strategy === 'counter')
+          {
+            reservations.highestCounter = shared.highestCounter;
+          }
+        }
+
+        if (await tryPublishAs(name) === undefined)
+        {
+          return;
+        }
+      }
+    }
+    catch (err: unknown)
+    {
+      // Nothing has been published under this name, so the copies that are still in the running have all failed:
+      settleTheRest('failed', err);
+    }
+  }
+
+  /**
+   Internal function that publishes every copy that is still in the running as `name`. Returns `undefined` if that's done (as far as it goes), or the path at which the name was taken.
+
+   The name is looked up in every directory first, and reserved in all of them for the writers in this process, so normally, a taken name is found before any copy is published. Only if another process takes it in one of the directories after that, while the copies are being published, are the copies already published under it removed again — and since they were there for a moment, a consumer may have seen them.
+   */
+  async function tryPublishAs(name: string): Promise<string | undefined>
+  {
+    const running = ready.filter((target) => !target.outcome);
+    for (const { parsed, reservations, observer } of running)
+    {
+      const path = join(parsed.dir, name);
+      observer?.attempt(path);
+      const taken = reservations.reserved.has(name) ? 'reserved' : await isTaken(path, fileSystem) ? 'exists' : undefined;
+      if (taken !== undefined)
+      {
+        observer?.collision(path, taken);
+        attempts.tried(path);
+        return path;
+      }
+    }
+
+    for (const { reservations } of running)
+    {
+      reservations.reserved.add(name);
+    }
+    try
+    {
+      const published: [ReadyTarget, WriteNewFileResult][] = [];
+      for (const target of running)
+      {
+        const path = join(target.parsed.dir, name);
+        let created: boolean;
+        try
+        {
+          created = await tryPublishTempFile(target.staged.tempPath, path, { publishStrategy, durability, attributes, fileSystem });
+        }
+        catch (err: unknown)
+        {
+          settleFailed(target, 'failed', err);
+          if (mode === 'all-or-nothing')
+          {
+            // Leave the copies that made it for the caller to roll back:
+            for (const [publishedTarget, result] of published)
+            {
+              settlePublished(publishedTarget, result);
+            }
+            settleTheRest('rolled-back', err);
+            return undefined;
+          }
+          continue;
+        }
+        if (!created)
+        {
+          // Taken by another process since we looked:
+          target.observer?.collision(path, 'exists');
+          await unpublish(published.map(([, result]) => result.path), fileSystem);
+          attempts.tried(path);
+          return path;
+        }
+        published.push([target, {
+          path,
+          outcome: 'created',
+          proposedPath: format(target.parsed),
+          byteLength: target.staged.byteLength,
+        }]);
+      }
+
+      for (const [target, result] of published)
+      {
+        try
+        {
+          if (durability === 'file+directory')
+          {
+            await syncDirectory(target.parsed.dir, fileSystem);
+          }
+          settlePublished(target, result);
+        }
+        catch (err: unknown)
+        {
+          // It's there, but maybe not for good:
+          settleFailed(target, 'failed', err, result);
+        }
+      }
+      return undefined;
+    }
+    finally
+    {
+      for (const { reservations } of running)
+      {
+        reservations.reserved.delete(name);
+      }
+    }
+  }
+}
+
+/**
+ Removes the copies that `results` says were created, after another directory failed in the `'all-or-nothing'` mode, and returns the results with those copies rolled back. (A copy that was there already, because of `onExisting: 'skip-if-identical'`, stays, and so does one that can't be removed.)
+ */
+async function rollBack(results: FanOutResult[], options: WriteNewOptions, fileSystem: FileSystem): Promise<FanOutResult[]>
+{
+  return await Promise.all(results.map(async (result): Promise<FanOutResult> =>
+  {
+    // (A copy that failed after it was published, e.g. to be synced, has to go too, but it still failed.)
+    if (result.status === 'rolled-back' || result.result?.outcome !== 'created')
+    {
+      return result;
+    }
+    try
+    {
+      await fileSystem.unlink(result.result.path);
+    }
+    catch
+    {
+      return result; // Still there, as far as we know
+    }
+    if (options.integrity === 'sidecar')
+    {
+      await unpublish([result.result.path + SHA256_SIDECAR_EXTENSION], fileSystem);
+    }
+    return result.status === 'failed' ? result : { ...result, status: 'rolled-back' };
+  }));
+}
+
+/**
+ Returns whether there is something at `path` already. (If we can't even tell, publishing will find out.)
+ */
+async function isTaken(path: string, fileSystem: FileSystem): Promise<boolean>
+{
+  try
+  {
+    await fileSystem.stat(path);
+    return true;
+  }
+  catch
+  {
+    return false;
+  }
+}
+
+/**
+ Removes copies that were published under a name that another process took in one of the other directories while we were at it. They were only just created by us, and we haven't reported them to anyone — but a consumer watching the directory may have picked them up already.
+ */
+async function unpublish(paths: string[], fileSystem: FileSystem): Promise<void>
+{
+  for (const path of paths)
+  {
+    try
+    {
+      await fileSystem.unlink(path);
+    }
+    catch
+    {
+      // Already gone, or we can't remove it — either way, there's nothing more we can do about it
+    }
+  }
+}
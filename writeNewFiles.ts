@@ -0,0 +1,365 @@
+import { format, parse } from '@std/path';
+import { createHash } from 'node:crypto';
+import { prepareOutputDirectory } from './checkOutputDirectory.ts';
+import { systemClock } from './Clock.ts';
+import { transformContent, transformedFilename } from './ContentTransform.ts';
+import { syncDirectory } from './Durability.ts';
+import { fileAttributesOf } from './FileAttributes.ts';
+import { FileExistsError } from './FileExistsError.ts';
+import { checkProposedFilename } from './FilenamePolicy.ts';
+import { type FileSystem, nodeFileSystem } from './FileSystem.ts';
+import { buildCandidateFilename, findHighestCounter, isDateTiebreakerExhausted } from './NamingStrategy.ts';
+import { discardTempFile, type StagedTempFile, stageTempFile } from './stageTempFile.ts';
+import { tryPublishTempFile } from './tryCreateFile.ts';
+import { WriteAttempts } from './WriteAttempts.ts';
+import type { WriteNewContent } from './WriteNewContent.ts';
+import { WriteNewOptions } from './WriteNewOptions.ts';
+
+/**
+ One member of a batch written by `writeNewFiles()`.
+
+ @property proposedFilename The proposed file name, e.g. `'data.csv'` (the same as for `writeNewFile()`)
+
+ @property content The data to write (see `WriteNewContent`)
+*/
+export type WriteNewFilesEntry = {
+  proposedFilename: string;
+  content: WriteNewContent;
+};
+
+/**
+ Options for `writeNewFiles()`: the same as `WriteNewOptions`, plus the name of the commit marker.
+
+ Of the `onExisting` policies, only `'suffix'` (the default) and `'fail'` make sense for a batch; `retention` isn't supported either (call `pruneFamily()` yourself), and neither is `integrity` (the commit marker already lists every member's SHA-256). The `transforms` apply to every member, but not to the marker.
+
+ @property commitMarker The proposed filename of the commit marker, which is published after all the members, with the same suffix (default: the first member's name with a `.commit` extension, e.g. `'data.commit'`). Pass `false` to write no marker at all — the members are then still rolled back on failure, but consumers have no way to tell that a batch is complete.
+*/
+export type WriteNewFilesOptions = WriteNewOptions & {
+  commitMarker?: string | false;
+};
+
+/**
+ What `writeNewFiles()` wrote.
+
+ @property paths The full paths of the members, in the same order as the entries that were passed in
+
+ @property commitMarkerPath The full path of the commit marker, unless `commitMarker` was `false`
+
+ @property suffix The suffix that all the members (and the marker) share, e.g. `'2024-12-22-16-39-42'` — or `undefined` if the proposed filenames were all free, and used as-is
+*/
+export type WriteNewFilesResult = {
+  paths: string[];
+  commitMarkerPath?: string;
+  suffix?: string;
+};
+
+/**
+ Writes several files as a group: either all of them are published, with one shared unique suffix, or none of them are.
+
+ Every member is first staged as a temp file in the output directory. Then they are published one by one, under the proposed filenames as-is if all of those are free, or otherwise all with the same suffix (generated by the `namingStrategy`, exactly like `writeNewFile()` does). If any member's name turns out to be taken, the members that were already published in that attempt are removed again, and the whole group moves on to the next suffix.
+
+ Last of all, the commit marker is published. It is a small JSON file listing the members' final names, sizes and SHA-256 hashes:
+
+ ```json
+ { "files": [{ "name": "data~2024-12-22-16-39-42.csv", "byteLength": 1234, "sha256": "3f2a9c…" }] }
+ ```
+
+ Since the members can't all be published in a single atomic operation, consumers may briefly see some of them before the rest. The marker is what tells them that the group is complete: consumers of batches should only pick up the members once the marker exists (the built-in `claimNextFile()` and `watchNewFiles()` know nothing about groups, so they aren't suitable for that).
+
+ If anything goes wrong — staging a member fails, a stream errors, publishing fails with an error other than the name being taken, or the write gives up — everything is rolled back: the temp files and any members already published are removed, and no marker is written.
+
+ With the `shard` option, the whole group (marker included) goes into the same shard subdirectory, picked when the write starts.
+
+ With the `'content-hash'` naming strategy, the shared suffix is derived from the hashes of all the members, so the same group of contents always gets the same suffix.
+
+ @param entries The files to write (at least one, with distinct proposed filenames)
+
+ @param options Optional configuration (see `WriteNewFilesOptions`). If not supplied, the default `WriteNewOptions` will be used
+
+ @returns The paths of the members and the marker (see `WriteNewFilesResult`)
+
+ @throws {TypeError} if `entries` is empty, contains the same proposed filename twice (or the marker's), or the options ask for an `onExisting` policy, `retention`, `integrity`, `ordering`, `quota` or `outputDirectories` that batches don't support
+
+ @throws {InvalidFilenameError} if any of the proposed filenames (or the marker's) isn't safe to use, and the `filenamePolicy` option is `'reject'` (the default)
+
+ @throws {FileExistsError} if the `onExisting` option is `'fail'` and any of the proposed filenames (or the marker's) is taken
+
+ @throws {WriteNewFileGaveUpError} if the `signal` is aborted, the `timeoutMs` runs out, or `maxAttempts` suffixes have all turned out to be taken
+
+ @throws Any error from the underlying file operations except for `AlreadyExists` which is handled internally
+*/
+export async function writeNewFiles(
+  entries: readonly WriteNewFilesEntry[],
+  options?: WriteNewFilesOptions,
+): Promise<WriteNewFilesResult>
+{
+  const resolvedOptions: WriteNewFilesOptions = options ?? WriteNewOptions.default;
+  const namingStrategy = resolvedOptions.namingStrategy ?? 'date';
+  const publishStrategy = resolvedOptions.publishStrategy ?? 'auto';
+  const durability = resolvedOptions.durability ?? 'none';
+  const onExisting = resolvedOptions.onExisting ?? 'suffix';
+  const fileSystem = resolvedOptions.fileSystem ?? nodeFileSystem;
+  const clock = resolvedOptions.clock ?? systemClock;
+  const filenamePolicy = resolvedOptions.filenamePolicy ?? 'reject';
+  const { retryInterval = 50 } = resolvedOptions;
+  const attributes = fileAttributesOf(resolvedOptions);
+
+  if (entries.length === 0)
+  {
+    throw new TypeError('writeNewFiles() needs at least one file to write');
+  }
+  if (onExisting !== 'suffix' && onExisting !== 'fail')
+  {
+    throw new TypeError(`writeNewFiles() does not support onExisting: '${onExisting}'`);
+  }
+  if (resolvedOptions.retention)
+  {
+    throw new TypeError('writeNewFiles() does not support the retention option (use pruneFamily() instead)');
+  }
+  if ((resolvedOptions.integrity ?? 'none') !== 'none')
+  {
+    throw new TypeError('writeNewFiles() does not support the integrity option (the commit marker lists the SHA-256 of every member)');
+  }
+  if ((resolvedOptions.ordering ?? 'clock') !== 'clock')
+  {
+    throw new TypeError("writeNewFiles() does not support ordering: 'monotonic'");
+  }
+  if (resolvedOptions.quota)
+  {
+    throw new TypeError('writeNewFiles() does not support the quota option');
+  }
+  if (resolvedOptions.outputDirectories)
+  {
+    throw new TypeError('writeNewFiles() writes to one outputDirectory (use writeNewFileToAll() for outputDirectories)');
+  }
+
+  const transforms = resolvedOptions.transforms ?? [];
+  const tempFile = resolvedOptions.tempFile;
+  const proposedFilenames = entries.map((entry) =>
+    checkProposedFilename(transformedFilename(entry.proposedFilename, transforms), filenamePolicy, undefined, tempFile)
+  );
+  const markerFilename = resolvedOptions.commitMarker === false
+    ? undefined
+    : checkProposedFilename(
+      resolvedOptions.commitMarker ?? `${parse(proposedFilenames[0]).name}.commit`,
+      filenamePolicy,
+      undefined,
+      tempFile,
+    );
+  const allFilenames = markerFilename === undefined ? proposedFilenames : [...proposedFilenames, markerFilename];
+  if (new Set(allFilenames).size !== allFilenames.length)
+  {
+    throw new TypeError(`writeNewFiles() needs distinct filenames, not: ${allFilenames.join(', ')}`);
+  }
+
+  // The whole batch goes into the same shard, and so does the marker:
+  const outputDirectory = await prepareOutputDirectory(resolvedOptions, clock, fileSystem);
+
+  // Members first, then the marker (if any):
+  const parsedPaths = allFilenames.map((name) => parse(format({ dir: outputDirectory, base: name })));
+  const directory = parsedPaths[0].dir;
+
+  const attempts = WriteAttempts.start(proposedFilenames[0], resolvedOptions);
+  const { signal } = attempts;
+
+  const staged: StagedTempFile[] = [];
+  try
+  {
+    attempts.giveUpIfNecessary();
+    for (const [index, entry] of entries.entries())
+    {
+      staged.push(
+        await stageTempFile(
+          format(parsedPaths[index]),
+          transforms.length > 0 ? transformContent(entry.content, transforms) : entry.content,
+          { hash: true, sync: durability !== 'none', attributes, tempFile, signal, fileSystem },
+        ),
+      );
+    }
+  }
+  catch (err: unknown)
+  {
+    await Promise.all(staged.map((file) => discardTempFile(file.tempPath, fileSystem)));
+    attempts.giveUpIfNecessary(); // if that is why staging failed
+    throw err;
+  }
+
+  let result: WriteNewFilesResult;
+  try
+  {
+    result = await publishGroup();
+  }
+  finally
+  {
+    await Promise.all(staged.map((file) => discardTempFile(file.tempPath, fileSystem)));
+  }
+
+  if (durability === 'file+directory')
+  {
+    await syncDirectory(directory, fileSystem);
+  }
+  return result;
+
+  /**
+   Internal function that tries to publish the whole group under one suffix after another, until it sticks
+   */
+  async function publishGroup(): Promise<WriteNewFilesResult>
+  {
+    const groupHash = createHash('sha256');
+    for (const [index, file] of staged.entries())
+    {
+      groupHash.update(`${proposedFilenames[index]}\0${file.sha256}\n`);
+    }
+    const contentHash = groupHash.digest('hex').slice(0, 16);
+    let highestCounter: number | undefined;
+    if (namingStrategy === 'counter')
+    {
+      const existingNames = await fileSystem.readdir(directory);
+      highestCounter = Math.max(...parsedPaths.map((parsed) => findHighestCounter(existingNames, parsed)));
+    }
+
+    let previous: string | undefined;
+    for (let attempt = 0;; attempt++)
+    {
+      attempts.giveUpIfNecessary();
+      let now = clock.now();
+      while (
+        namingStrategy === 'date' && attempt > 0
+        && isDateTiebreakerExhausted(parsedPaths[0], { attempt, now, previous, suffixFormat: resolvedOptions.suffixFormat })
+      )
+      {
+        // Out of tiebreakers for this timestamp, so wait for the clock to move on:
+        await clock.sleep(retryInterval, signal);
+        attempts.giveUpIfNecessary();
+        now = clock.now();
+      }
+
+      let suffix: string | undefined;
+      let names: string[];
+      if (attempt === 0)
+      {
+        names = allFilenames;
+      }
+      else
+      {
+        const context = {
+          attempt,
+          now,
+          previous,
+          contentHash,
+          highestCounter,
+          suffixFormat: resolvedOptions.suffixFormat,
+        };
+        if (typeof namingStrategy === 'function')
+        {
+          // We can't know what a custom strategy's suffix is, so it is up to the function to be consistent:
+          names = parsedPaths.map((parsed) => buildCandidateFilename(namingStrategy, parsed, context));
+        }
+        else
+        {
+          // Generate the suffix just once (a ULID, for example, would be different every time), and give it to everyone:
+          const reference = parsedPaths[0];
+          previous = buildCandidateFilename(namingStrategy, reference, context);
+          suffix = previous.slice(reference.name.length + 1, previous.length - reference.ext.length);
+          names = parsedPaths.map((parsed) => `${parsed.name}~${suffix}${parsed.ext}`);
+        }
+      }
+      const paths = names.map((name) => format({ dir: directory, base: name }));
+
+      const takenPath = await tryPublishAll(paths);
+      if (takenPath === undefined)
+      {
+        return {
+          paths: paths.slice(0, entries.length),
+          commitMarkerPath: markerFilename === undefined ? undefined : paths[entries.length],
+          suffix,
+        };
+      }
+      if (onExisting === 'fail')
+      {
+        throw new FileExistsError(allFilenames[paths.indexOf(takenPath)], takenPath);
+      }
+      attempts.tried(takenPath);
+    }
+  }
+
+  /**
+   Internal function that publishes every member under `paths`, and then the marker. Returns `undefined` if that worked, or the path that was taken — in which case, and also if anything throws, whatever it had already published has been removed again.
+   */
+  async function tryPublishAll(paths: string[]): Promise<string | undefined>
+  {
+    const published: string[] = [];
+    try
+    {
+      for (const [index, file] of staged.entries())
+      {
+        if (!await tryPublishTempFile(file.tempPath, paths[index], { publishStrategy, durability, attributes, fileSystem }))
+        {
+          await unpublish(published, fileSystem);
+          return paths[index];
+        }
+        published.push(paths[index]);
+      }
+
+      if (markerFilename === undefined)
+      {
+        return undefined;
+      }
+      if (durability === 'file+directory')
+      {
+        // The marker promises that the members are there, so they had better be, even after a crash:
+        await syncDirectory(directory, fileSystem);
+      }
+      const markerPath = paths[entries.length];
+      const manifest = {
+        files: staged.map((file, index) => ({
+          name: parse(paths[index]).base,
+          byteLength: file.byteLength,
+          sha256: file.sha256,
+        })),
+      };
+      const marker = await stageTempFile(markerPath, JSON.stringify(manifest), {
+        sync: durability !== 'none',
+        attributes,
+        tempFile,
+        fileSystem,
+      });
+      try
+      {
+        if (!await tryPublishTempFile(marker.tempPath, markerPath, { publishStrategy, durability, attributes, fileSystem }))
+        {
+          await unpublish(published, fileSystem);
+          return markerPath;
+        }
+      }
+      finally
+      {
+        await discardTempFile(marker.tempPath, fileSystem);
+      }
+      return undefined;
+    }
+    catch (err: unknown)
+    {
+      await unpublish(published, fileSystem);
+      throw err;
+    }
+  }
+}
+
+/**
+ Removes the members of a group that didn't make it. They were only just created by us, and there is no marker for them, so no well-behaved consumer has touched them.
+ */
+async function unpublish(paths: string[], fileSystem: FileSystem): Promise<void>
+{
+  for (const path of paths)
+  {
+    try
+    {
+      await fileSystem.unlink(path);
+    }
+    catch
+    {
+      // Already gone, or we can't remove it — either way, without a marker it will be ignored
+    }
+  }
+}